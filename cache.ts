@@ -0,0 +1,322 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type { EsaMiddleware, EsaRequest, EsaResponse } from './middleware.js';
+
+/**
+ * Cached response to a GET request
+ */
+export interface CacheEntry {
+  status: number;
+  headers: Record<string, string>;
+  data: unknown;
+  /** ETag validator sent back as If-None-Match */
+  etag?: string;
+  /** Last-Modified validator sent back as If-Modified-Since */
+  lastModified?: string;
+  /** Time after which the entry must be revalidated, in milliseconds since the epoch */
+  expiresAt: number;
+}
+
+/**
+ * Storage backend for cached responses
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** List every stored key, used to find the entries a mutation invalidates */
+  keys(): Promise<string[]>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Options for the cache middleware
+ */
+export interface CacheOptions {
+  /** Where to keep responses (defaults to an in-memory LRU store) */
+  store?: CacheStore;
+  /** TTL for endpoints without a specific one, in milliseconds (defaults to 60 seconds) */
+  defaultTtlMs?: number;
+  /**
+   * TTLs by endpoint, such as { '/teams/:team_name/stats': 300_000 }; * matches one
+   * path segment and a TTL of 0 disables caching for the endpoint
+   */
+  ttl?: Record<string, number>;
+  /** Clock in milliseconds since the epoch */
+  now?: () => number;
+}
+
+const DEFAULT_TTL_MS = 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 500;
+
+/**
+ * Paths under /teams/:team_name whose cached responses a mutation makes stale
+ *
+ * A target ending in /* covers everything below that path; any other target covers
+ * the path itself with any query string.
+ */
+const INVALIDATIONS: Array<[RegExp, (match: RegExpExecArray) => string[]]> = [
+  [/^\/posts$/, () => ['/posts', '/tags', '/stats', '/members', '/members/*']],
+  [/^\/posts\/(\d+)$/, ([, number]) => [
+    '/posts', `/posts/${number}`, `/posts/${number}/*`, '/comments', '/comments/*',
+    '/tags', '/stats', '/members', '/members/*',
+  ]],
+  [/^\/posts\/(\d+)\/comments$/, ([, number]) => [
+    '/posts', `/posts/${number}`, `/posts/${number}/*`, '/comments', '/stats',
+  ]],
+  [/^\/posts\/(\d+)\/(star|watch)$/, ([, number]) => ['/posts', `/posts/${number}`, `/posts/${number}/*`, '/stats']],
+  // A comment does not tell which post it belongs to, so every post is affected
+  [/^\/comments\/(\d+)(\/star)?$/, ([, id]) => [
+    '/comments', `/comments/${id}`, `/comments/${id}/*`, '/posts', '/posts/*', '/stats',
+  ]],
+  [/^\/categories\/batch_move$/, () => ['/posts', '/posts/*']],
+  [/^\/invitation(s|_regenerator)?(\/.*)?$/, () => ['/invitation', '/invitations']],
+  [/^\/emojis(\/.*)?$/, () => ['/emojis']],
+  [/^\/members\/.+$/, () => ['/members', '/members/*', '/stats']],
+];
+
+/**
+ * In-memory cache store that evicts the least recently used entries
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  /**
+   * Create a new in-memory store
+   * @param maxEntries Number of entries kept before the least recently used is evicted
+   */
+  constructor(private maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+  public async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Move the entry to the end of the insertion order
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  public async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  public async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  public async keys(): Promise<string[]> {
+    return [...this.entries.keys()];
+  }
+
+  public async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Cache store that keeps one JSON file per entry, so the cache survives restarts
+ */
+export class FileCacheStore implements CacheStore {
+  /**
+   * Create a new filesystem store
+   * @param dir Directory for the cache files, created when needed
+   */
+  constructor(private dir: string) {}
+
+  public async get(key: string): Promise<CacheEntry | undefined> {
+    return (await this.read(this.file(key)))?.entry;
+  }
+
+  public async set(key: string, entry: CacheEntry): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const file = this.file(key);
+    // Write to a temporary file first so a crash never leaves a truncated entry
+    await fs.writeFile(`${file}.tmp`, JSON.stringify({ key, entry }));
+    await fs.rename(`${file}.tmp`, file);
+  }
+
+  public async delete(key: string): Promise<void> {
+    await fs.rm(this.file(key), { force: true });
+  }
+
+  public async keys(): Promise<string[]> {
+    const keys: string[] = [];
+    for (const name of await this.list()) {
+      const stored = await this.read(path.join(this.dir, name));
+      if (stored) {
+        keys.push(stored.key);
+      }
+    }
+    return keys;
+  }
+
+  public async clear(): Promise<void> {
+    await Promise.all((await this.list()).map(name => fs.rm(path.join(this.dir, name), { force: true })));
+  }
+
+  private file(key: string): string {
+    return path.join(this.dir, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  private async list(): Promise<string[]> {
+    try {
+      return (await fs.readdir(this.dir)).filter(name => name.endsWith('.json'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private async read(file: string): Promise<{ key: string; entry: CacheEntry } | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Check whether a path matches an endpoint pattern in which * stands for one segment
+ */
+function matchesEndpoint(pattern: string, requestPath: string): boolean {
+  const patternSegments = pattern.split('/');
+  const pathSegments = requestPath.split('/');
+  return patternSegments.length === pathSegments.length
+    && patternSegments.every((segment, index) => segment === '*' || segment === pathSegments[index]);
+}
+
+/**
+ * Build the cache key: a fingerprint of the credentials, the resolved path and the sorted query
+ *
+ * The fingerprint keeps users sharing a store from seeing each other's responses,
+ * which differ in fields such as star and myself.
+ */
+function cacheKey(request: EsaRequest, resolvedPath: string): string {
+  const scope = createHash('sha256').update(request.headers.Authorization ?? '').digest('hex').slice(0, 16);
+  const query = new URLSearchParams();
+  for (const key of Object.keys(request.params).sort()) {
+    if (request.params[key] !== undefined) {
+      query.append(key, String(request.params[key]));
+    }
+  }
+  const search = query.toString();
+  return `${scope} ${resolvedPath}${search ? `?${search}` : ''}`;
+}
+
+/**
+ * Check whether a cache key falls under an invalidation target
+ */
+function isInvalidated(key: string, target: string): boolean {
+  const keyPath = key.slice(key.indexOf(' ') + 1).split('?')[0];
+  return target.endsWith('/*') ? keyPath.startsWith(target.slice(0, -1)) : keyPath === target;
+}
+
+/**
+ * Convert a cached entry back into a response
+ */
+function toResponse(entry: CacheEntry): EsaResponse {
+  return { status: entry.status, headers: new Headers(entry.headers), data: structuredClone(entry.data) };
+}
+
+/**
+ * Middleware that caches GET responses and revalidates them with conditional requests
+ *
+ * Fresh entries are served without a request. Stale entries carrying an ETag or
+ * Last-Modified are revalidated with If-None-Match or If-Modified-Since, and a 304
+ * keeps the cached body. Successful mutations drop the entries they affect, for
+ * example updatePost drops that post, the post lists, tags and stats.
+ *
+ * @param options Storage and TTL options
+ */
+export function cacheMiddleware(options: CacheOptions = {}): EsaMiddleware {
+  const store = options.store ?? new MemoryCacheStore();
+  const defaultTtlMs = options.defaultTtlMs ?? DEFAULT_TTL_MS;
+  const now = options.now ?? Date.now;
+
+  const ttlFor = (endpoint: string): number => {
+    const match = Object.entries(options.ttl ?? {}).find(([pattern]) => matchesEndpoint(pattern, endpoint));
+    return match ? match[1] : defaultTtlMs;
+  };
+
+  const invalidate = async (teamName: string, resolvedPath: string): Promise<void> => {
+    const teamPrefix = `/teams/${teamName}`;
+    if (!resolvedPath.startsWith(`${teamPrefix}/`)) {
+      return;
+    }
+    const relativePath = resolvedPath.slice(teamPrefix.length);
+    const rule = INVALIDATIONS.find(([pattern]) => pattern.test(relativePath));
+    // Drop everything for the team when a mutation is not covered by the rules
+    const targets = rule ? rule[1](rule[0].exec(relativePath)!) : ['/*'];
+    const keys = await store.keys();
+    await Promise.all(
+      keys
+        .filter(key => targets.some(target => isInvalidated(key, `${teamPrefix}${target}`)))
+        .map(key => store.delete(key))
+    );
+  };
+
+  return async (request, next) => {
+    const resolvedPath = request.teamName ? request.path.replace(':team_name', request.teamName) : request.path;
+
+    if (request.method.toLowerCase() !== 'get') {
+      const response = await next(request);
+      if (request.teamName) {
+        await invalidate(request.teamName, resolvedPath);
+      }
+      return response;
+    }
+
+    const ttl = ttlFor(request.path);
+    if (ttl <= 0) {
+      return next(request);
+    }
+
+    const key = cacheKey(request, resolvedPath);
+    const cached = await store.get(key);
+    if (cached && cached.expiresAt > now()) {
+      return toResponse(cached);
+    }
+
+    const headers = { ...request.headers };
+    if (cached?.etag) {
+      headers['If-None-Match'] = cached.etag;
+    }
+    if (cached?.lastModified) {
+      headers['If-Modified-Since'] = cached.lastModified;
+    }
+    const response = await next({ ...request, headers });
+
+    if (response.status === 304 && cached) {
+      const refreshed = { ...cached, expiresAt: now() + ttl };
+      await store.set(key, refreshed);
+      return toResponse(refreshed);
+    }
+    if (response.status === 200) {
+      const responseHeaders: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        responseHeaders[name] = value;
+      });
+      await store.set(key, {
+        status: response.status,
+        headers: responseHeaders,
+        data: structuredClone(response.data),
+        etag: response.headers.get('etag') ?? undefined,
+        lastModified: response.headers.get('last-modified') ?? undefined,
+        expiresAt: now() + ttl,
+      });
+    }
+    return response;
+  };
+}
@@ -0,0 +1,252 @@
+import type { EsaClient } from './esa-client.js';
+import type { Post, PostsRequestParams } from './types.js';
+import type { PaginateOptions } from './pagination.js';
+
+// esa stores a slash inside a category or post name as this entity
+const ESCAPED_SLASH = '&#47;';
+
+/**
+ * Escape a single category name so it can be used as one path segment
+ * @param name The category name, which may contain slashes
+ */
+export function escapeCategorySegment(name: string): string {
+  return name.trim().replace(/\//g, ESCAPED_SLASH);
+}
+
+/**
+ * Restore the slashes of an escaped category segment
+ * @param segment The escaped segment
+ */
+export function unescapeCategorySegment(segment: string): string {
+  return segment.split(ESCAPED_SLASH).join('/');
+}
+
+/**
+ * Split a category path into its escaped segments
+ * @param path The category path; null or empty for the root
+ */
+export function splitCategory(path: string | null | undefined): string[] {
+  return (path ?? '')
+    .split('/')
+    .map(segment => segment.trim())
+    .filter(segment => segment !== '');
+}
+
+/**
+ * Normalize a category path by trimming segments and removing empty ones
+ * @param path The category path; null or empty for the root
+ * @returns The path without leading or trailing slashes, or '' for the root
+ */
+export function normalizeCategory(path: string | null | undefined): string {
+  return splitCategory(path).join('/');
+}
+
+/**
+ * Join category paths
+ * @param paths Paths to join; empty paths are skipped
+ */
+export function joinCategory(...paths: Array<string | null | undefined>): string {
+  return paths.flatMap(splitCategory).join('/');
+}
+
+/**
+ * Get the parent of a category
+ * @param path The category path
+ * @returns The parent path, '' for top-level categories, or null for the root
+ */
+export function parentCategory(path: string | null | undefined): string | null {
+  const segments = splitCategory(path);
+  if (segments.length === 0) {
+    return null;
+  }
+  return segments.slice(0, -1).join('/');
+}
+
+/**
+ * Check whether a category is inside another
+ * @param path The category to check
+ * @param ancestor The possible ancestor; '' for the root
+ * @param inclusive Also return true when both paths are the same category
+ */
+export function isDescendantCategory(
+  path: string | null | undefined,
+  ancestor: string | null | undefined,
+  inclusive: boolean = false
+): boolean {
+  const segments = splitCategory(path);
+  const ancestorSegments = splitCategory(ancestor);
+  if (segments.length < ancestorSegments.length || (!inclusive && segments.length === ancestorSegments.length)) {
+    return false;
+  }
+  return ancestorSegments.every((segment, index) => segments[index] === segment);
+}
+
+/**
+ * Format a category path the way batchMoveCategory expects it
+ * @param path The category path
+ * @returns The path wrapped in slashes, such as /foo/bar/, or / for the root
+ */
+export function toBatchMovePath(path: string | null | undefined): string {
+  const normalized = normalizeCategory(path);
+  return normalized === '' ? '/' : `/${normalized}/`;
+}
+
+/**
+ * Category in a CategoryTree
+ */
+export interface CategoryNode {
+  /** Unescaped name of the last segment; '' for the root */
+  name: string;
+  /** Normalized path; '' for the root */
+  path: string;
+  /** Subcategories sorted by name */
+  children: CategoryNode[];
+  /** Posts directly in this category */
+  postCount: number;
+  /** WIP posts directly in this category */
+  wipCount: number;
+  /** Posts in this category and its descendants */
+  totalPostCount: number;
+  /** WIP posts in this category and its descendants */
+  totalWipCount: number;
+}
+
+/**
+ * Post fields needed to build a CategoryTree
+ */
+export type CategorizedPost = Pick<Post, 'category' | 'wip'>;
+
+/**
+ * Options for fetching a CategoryTree
+ */
+export interface FetchCategoryTreeOptions extends PaginateOptions {
+  /** Only count posts matching this query */
+  q?: PostsRequestParams['q'];
+}
+
+/**
+ * Category hierarchy with post counts, built from posts
+ *
+ * @example
+ * const tree = await CategoryTree.fetch(client);
+ * for (const node of tree.children('dev')) {
+ *   console.log(node.path, node.totalPostCount, node.totalWipCount);
+ * }
+ */
+export class CategoryTree {
+  /** The root node, holding uncategorized posts */
+  public readonly root: CategoryNode = CategoryTree.createNode('', '');
+
+  private nodes = new Map<string, CategoryNode>([['', this.root]]);
+
+  /**
+   * Build a tree from posts
+   * @param posts Posts to count
+   */
+  public static fromPosts(posts: Iterable<CategorizedPost>): CategoryTree {
+    const tree = new CategoryTree();
+    for (const post of posts) {
+      tree.add(post);
+    }
+    return tree;
+  }
+
+  /**
+   * Build a tree by walking every post of a team
+   * @param client The client used to list posts
+   * @param options Query, pagination and per-call request options
+   * @param teamName The team name (subdomain)
+   */
+  public static async fetch(
+    client: EsaClient,
+    options: FetchCategoryTreeOptions = {},
+    teamName?: string
+  ): Promise<CategoryTree> {
+    const tree = new CategoryTree();
+    for await (const post of client.iteratePosts(options, teamName)) {
+      tree.add(post);
+    }
+    return tree;
+  }
+
+  private static createNode(name: string, path: string): CategoryNode {
+    return { name, path, children: [], postCount: 0, wipCount: 0, totalPostCount: 0, totalWipCount: 0 };
+  }
+
+  /**
+   * Count a post in its category and every ancestor
+   * @param post The post to count
+   */
+  public add(post: CategorizedPost): this {
+    const wip = post.wip ? 1 : 0;
+    let node = this.root;
+    node.totalPostCount++;
+    node.totalWipCount += wip;
+
+    for (const segment of splitCategory(post.category)) {
+      const path = node.path === '' ? segment : `${node.path}/${segment}`;
+      let child = this.nodes.get(path);
+      if (!child) {
+        child = CategoryTree.createNode(unescapeCategorySegment(segment), path);
+        node.children.push(child);
+        node.children.sort((a, b) => a.name.localeCompare(b.name));
+        this.nodes.set(path, child);
+      }
+      node = child;
+      node.totalPostCount++;
+      node.totalWipCount += wip;
+    }
+
+    node.postCount++;
+    node.wipCount += wip;
+    return this;
+  }
+
+  /**
+   * Find a category
+   * @param path The category path; '' for the root
+   */
+  public get(path: string | null | undefined): CategoryNode | undefined {
+    return this.nodes.get(normalizeCategory(path));
+  }
+
+  /**
+   * List the direct subcategories of a category
+   * @param path The category path; omit for top-level categories
+   */
+  public children(path: string = ''): CategoryNode[] {
+    return [...(this.get(path)?.children ?? [])];
+  }
+
+  /**
+   * Visit every category below a node, parents before children
+   * @param path The category to start from; omit for the whole tree
+   */
+  public *walk(path: string = ''): Generator<CategoryNode> {
+    const start = this.get(path);
+    if (!start) {
+      return;
+    }
+    const stack = [...start.children].reverse();
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      yield node;
+      stack.push(...[...node.children].reverse());
+    }
+  }
+
+  /**
+   * Find categories that hold few posts, including their descendants
+   * @param maxPosts Largest total post count to report
+   */
+  public findSparse(maxPosts: number = 1): CategoryNode[] {
+    return [...this.walk()].filter(node => node.totalPostCount <= maxPosts);
+  }
+
+  /**
+   * Find categories that only contain subcategories and no posts of their own
+   */
+  public findEmpty(): CategoryNode[] {
+    return [...this.walk()].filter(node => node.postCount === 0);
+  }
+}
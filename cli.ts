@@ -0,0 +1,571 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { parseArgs } from 'util';
+import { EsaClient, EsaClientOptions } from './esa-client.js';
+import { EsaError } from './errors.js';
+import type { Comment, Post } from './types.js';
+
+/**
+ * Output formats supported by the CLI
+ */
+export type CliFormat = 'table' | 'json' | 'markdown';
+
+/**
+ * Environment the CLI runs in, injectable for tests
+ */
+export interface CliIO {
+  /** Write to standard output */
+  stdout: (text: string) => void;
+  /** Write to standard error */
+  stderr: (text: string) => void;
+  /** Read all of standard input */
+  readStdin: () => Promise<string>;
+  /** Open a file in the user's editor and wait until it is closed */
+  editFile: (file: string) => Promise<void>;
+  /** Environment variables */
+  env: Record<string, string | undefined>;
+  /** Create the API client */
+  createClient: (options: EsaClientOptions) => EsaClient;
+}
+
+/**
+ * Settings read from the config file
+ */
+export interface CliConfig {
+  token?: string;
+  team?: string;
+}
+
+/**
+ * Data returned by a command, rendered in the selected format
+ */
+interface CliOutput {
+  /** Value printed as JSON */
+  json: unknown;
+  /** Rows printed as a table */
+  rows: object[];
+  /** Column order for the table */
+  columns: string[];
+  /** Markdown rendering, when a table is not the natural form */
+  markdown?: string;
+}
+
+/**
+ * Parsed command line flags
+ */
+type CliFlags = ReturnType<typeof parseCliArgs>['values'];
+
+interface CliContext {
+  client: EsaClient;
+  args: string[];
+  flags: CliFlags;
+  io: CliIO;
+}
+
+type CliCommand = (context: CliContext) => Promise<CliOutput | void>;
+
+/**
+ * Invalid command line usage
+ */
+class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+const USAGE = `Usage: esa <command> [subcommand] [options]
+
+Commands:
+  posts list [--q <query>] [--sort <field>] [--order asc|desc] [--limit <n>]
+  posts get <number>
+  posts create --name <name> [--category <path>] [--tag <tag>]... [--wip|--no-wip] < body.md
+  posts create --full-name "<category/name #tag (WIP)>" < body.md
+  posts edit <number> [--message <message>]
+  posts delete <number> --yes
+  comments list <post>
+  comments create <post> < body.md
+  comments delete <id> --yes
+  star add|rm <post>
+  watch add|rm <post>
+  tags list
+  members list
+  invite <email>...
+  emoji add <code> (--image <file> | --alias <code>)
+  emoji rm <code>
+  categories move <from> <to>
+
+Options:
+  --token <token>       Access token (or ESA_API_TOKEN, or "token" in the config file)
+  --team <team>         Team name (or ESA_TEAM_NAME, or "team" in the config file)
+  --config <file>       Config file (defaults to ~/.config/esa/config.json, or ESA_CONFIG)
+  -f, --format <format> Output format: table, json or markdown (defaults to table)
+  -h, --help            Show this help
+`;
+
+/**
+ * Parse command line arguments
+ */
+function parseCliArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      token: { type: 'string' },
+      team: { type: 'string' },
+      config: { type: 'string' },
+      format: { type: 'string', short: 'f' },
+      help: { type: 'boolean', short: 'h' },
+      q: { type: 'string' },
+      sort: { type: 'string' },
+      order: { type: 'string' },
+      limit: { type: 'string' },
+      name: { type: 'string' },
+      'full-name': { type: 'string' },
+      category: { type: 'string' },
+      tag: { type: 'string', multiple: true },
+      wip: { type: 'boolean' },
+      'no-wip': { type: 'boolean' },
+      message: { type: 'string' },
+      image: { type: 'string' },
+      alias: { type: 'string' },
+      yes: { type: 'boolean', short: 'y' },
+    },
+  });
+}
+
+/**
+ * Read the config file
+ * @param file The config file path
+ * @returns The settings, or an empty object when the file does not exist
+ */
+export async function loadCliConfig(file: string): Promise<CliConfig> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+}
+
+/**
+ * Default config file location
+ */
+function defaultConfigPath(env: Record<string, string | undefined>): string {
+  if (env.ESA_CONFIG) {
+    return env.ESA_CONFIG;
+  }
+  const base = env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(base, 'esa', 'config.json');
+}
+
+/**
+ * Width of a string in a monospace terminal, counting wide characters as two columns
+ */
+function displayWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    width += /[\u1100-\u115F\u2E80-\uA4CF\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFF60\uFFE0-\uFFE6]/.test(char)
+      || char.codePointAt(0)! > 0xFFFF
+      ? 2
+      : 1;
+  }
+  return width;
+}
+
+/**
+ * Convert a cell value to a single line of text
+ */
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.join(', ');
+  }
+  return String(value).replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Render rows as an aligned plain text table
+ */
+function formatTable(rows: object[], columns: string[]): string {
+  const cells = rows.map(row => columns.map(column => formatCell((row as Record<string, unknown>)[column])));
+  const widths = columns.map((column, index) =>
+    Math.max(displayWidth(column), ...cells.map(row => displayWidth(row[index])))
+  );
+  const line = (values: string[]) =>
+    values.map((value, index) => value + ' '.repeat(widths[index] - displayWidth(value))).join('  ').trimEnd();
+  return [line(columns.map(column => column.toUpperCase())), ...cells.map(line)].join('\n');
+}
+
+/**
+ * Render rows as a Markdown table
+ */
+function formatMarkdownTable(rows: object[], columns: string[]): string {
+  const escape = (value: string) => value.replace(/\|/g, '\\|');
+  return [
+    `| ${columns.join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map(row =>
+      `| ${columns.map(column => escape(formatCell((row as Record<string, unknown>)[column]))).join(' | ')} |`
+    ),
+  ].join('\n');
+}
+
+/**
+ * Render command output in the selected format
+ */
+function formatOutput(output: CliOutput, format: CliFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(output.json, null, 2);
+    case 'markdown':
+      return output.markdown ?? formatMarkdownTable(output.rows, output.columns);
+    case 'table':
+      return formatTable(output.rows, output.columns);
+  }
+}
+
+/**
+ * Read a required positional argument
+ */
+function requireArg(args: string[], index: number, name: string): string {
+  const value = args[index];
+  if (value === undefined) {
+    throw new CliUsageError(`Missing <${name}>`);
+  }
+  return value;
+}
+
+/**
+ * Parse an argument or flag value that must be a positive integer
+ */
+function parsePositiveInteger(text: string, name: string): number {
+  const value = Number(text);
+  if (text.trim() === '' || !Number.isInteger(value) || value <= 0) {
+    throw new CliUsageError(`${name} must be a positive integer`);
+  }
+  return value;
+}
+
+/**
+ * Read a required positional number argument
+ */
+function requireNumber(args: string[], index: number, name: string): number {
+  return parsePositiveInteger(requireArg(args, index, name), `<${name}>`);
+}
+
+/**
+ * Refuse destructive commands unless --yes was given
+ */
+function requireConfirmation(flags: CliFlags, action: string): void {
+  if (!flags.yes) {
+    throw new CliUsageError(`Refusing to ${action} without --yes`);
+  }
+}
+
+/**
+ * Output for a single post
+ */
+function postOutput(post: Post): CliOutput {
+  const row = {
+    number: post.number,
+    full_name: post.full_name,
+    wip: post.wip,
+    revision: post.revision_number,
+    updated_at: post.updated_at,
+    url: post.url,
+  };
+  return {
+    json: post,
+    rows: [row],
+    columns: Object.keys(row),
+    markdown: `# ${post.full_name}\n\n${post.body_md}`,
+  };
+}
+
+/**
+ * Output for a list of comments
+ */
+function commentsOutput(comments: Comment[]): CliOutput {
+  return {
+    json: comments,
+    rows: comments.map(comment => ({
+      id: comment.id,
+      user: comment.created_by.screen_name,
+      created_at: comment.created_at,
+      body: comment.body_md,
+    })),
+    columns: ['id', 'user', 'created_at', 'body'],
+    markdown: comments
+      .map(comment => `### @${comment.created_by.screen_name} (${comment.created_at})\n\n${comment.body_md}`)
+      .join('\n\n'),
+  };
+}
+
+/**
+ * Read a body from standard input, refusing an empty one
+ */
+async function readBody(io: CliIO): Promise<string> {
+  const body = await io.readStdin();
+  if (body.trim() === '') {
+    throw new CliUsageError('Expected the body on standard input');
+  }
+  return body;
+}
+
+const COMMANDS: Record<string, Record<string, CliCommand>> = {
+  posts: {
+    list: async ({ client, flags }) => {
+      const limit = flags.limit === undefined ? 20 : parsePositiveInteger(flags.limit, '--limit');
+      const posts: Post[] = [];
+      for await (const post of client.iteratePosts({
+        q: flags.q,
+        sort: flags.sort as 'updated' | undefined,
+        order: flags.order as 'asc' | 'desc' | undefined,
+        per_page: Math.min(limit, 100),
+        limit,
+      })) {
+        posts.push(post);
+      }
+      return {
+        json: posts,
+        rows: posts.map(post => ({
+          number: post.number,
+          full_name: post.full_name,
+          wip: post.wip,
+          updated_at: post.updated_at,
+        })),
+        columns: ['number', 'full_name', 'wip', 'updated_at'],
+      };
+    },
+    get: async ({ client, args }) => postOutput(await client.getPost(requireNumber(args, 0, 'number'))),
+    create: async ({ client, flags, io }) => {
+      const body_md = await readBody(io);
+      const wip = flags.wip ? true : flags['no-wip'] ? false : undefined;
+      const fields = {
+        body_md,
+        ...(flags.category !== undefined ? { category: flags.category } : {}),
+        ...(flags.tag !== undefined ? { tags: flags.tag } : {}),
+        ...(wip !== undefined ? { wip } : {}),
+        ...(flags.message !== undefined ? { message: flags.message } : {}),
+      };
+      if (flags['full-name'] !== undefined) {
+        return postOutput(await client.createPost({ ...fields, fullName: flags['full-name'] }));
+      }
+      if (flags.name === undefined) {
+        throw new CliUsageError('Either --name or --full-name is required');
+      }
+      return postOutput(await client.createPost({ ...fields, name: flags.name }));
+    },
+    edit: async ({ client, args, flags, io }) => {
+      const number = requireNumber(args, 0, 'number');
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'esa-edit-'));
+      const file = path.join(dir, `${number}.md`);
+      try {
+        const post = await client.editPost(number, async current => {
+          await fs.writeFile(file, current.body_md);
+          await io.editFile(file);
+          const body_md = await fs.readFile(file, 'utf8');
+          if (body_md === current.body_md) {
+            return null;
+          }
+          return { body_md, ...(flags.message !== undefined ? { message: flags.message } : {}) };
+        });
+        return postOutput(post);
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    },
+    delete: async ({ client, args, flags }) => {
+      const number = requireNumber(args, 0, 'number');
+      requireConfirmation(flags, `delete post #${number}`);
+      await client.deletePost(number);
+    },
+  },
+  comments: {
+    list: async ({ client, args }) => {
+      const comments: Comment[] = [];
+      for await (const comment of client.iteratePostComments(requireNumber(args, 0, 'post'))) {
+        comments.push(comment);
+      }
+      return commentsOutput(comments);
+    },
+    create: async ({ client, args, io }) => {
+      const number = requireNumber(args, 0, 'post');
+      return commentsOutput([await client.createComment(number, { body_md: await readBody(io) })]);
+    },
+    delete: async ({ client, args, flags }) => {
+      const id = requireNumber(args, 0, 'id');
+      requireConfirmation(flags, `delete comment ${id}`);
+      await client.deleteComment(id);
+    },
+  },
+  star: {
+    add: async ({ client, args }) => {
+      await client.starPost(requireNumber(args, 0, 'post'));
+    },
+    rm: async ({ client, args }) => {
+      await client.unstarPost(requireNumber(args, 0, 'post'));
+    },
+  },
+  watch: {
+    add: async ({ client, args }) => {
+      await client.watchPost(requireNumber(args, 0, 'post'));
+    },
+    rm: async ({ client, args }) => {
+      await client.unwatchPost(requireNumber(args, 0, 'post'));
+    },
+  },
+  tags: {
+    list: async ({ client }) => {
+      const tags = [];
+      for await (const tag of client.iterateTags()) {
+        tags.push(tag);
+      }
+      return { json: tags, rows: tags, columns: ['name', 'posts_count'] };
+    },
+  },
+  members: {
+    list: async ({ client }) => {
+      const members = [];
+      for await (const member of client.iterateMembers()) {
+        members.push(member);
+      }
+      return { json: members, rows: members, columns: ['screen_name', 'name', 'role', 'posts_count'] };
+    },
+  },
+  invite: {
+    '': async ({ client, args }) => {
+      if (args.length === 0) {
+        throw new CliUsageError('Missing <email>');
+      }
+      const { invitations } = await client.inviteMembers({ emails: args });
+      return { json: invitations, rows: invitations, columns: ['email', 'expires_at', 'url'] };
+    },
+  },
+  emoji: {
+    add: async ({ client, args, flags }) => {
+      const code = requireArg(args, 0, 'code');
+      if (flags.alias !== undefined) {
+        return toOutput(await client.createEmoji({ code, origin_code: flags.alias }));
+      }
+      if (flags.image === undefined) {
+        throw new CliUsageError('Either --image or --alias is required');
+      }
+      const image = new File([await fs.readFile(flags.image)], path.basename(flags.image));
+      return toOutput(await client.createEmoji({ code, image }));
+    },
+    rm: async ({ client, args }) => {
+      await client.deleteEmoji(requireArg(args, 0, 'code'));
+    },
+  },
+  categories: {
+    move: async ({ client, args }) => {
+      const result = await client.batchMoveCategory({
+        from: requireArg(args, 0, 'from'),
+        to: requireArg(args, 1, 'to'),
+      });
+      return toOutput(result);
+    },
+  },
+};
+
+/**
+ * Output for a flat object
+ */
+function toOutput(value: object): CliOutput {
+  return { json: value, rows: [value], columns: Object.keys(value) };
+}
+
+/**
+ * Default environment: the real process, terminal and editor
+ */
+export const defaultCliIO: CliIO = {
+  stdout: text => process.stdout.write(`${text}\n`),
+  stderr: text => process.stderr.write(`${text}\n`),
+  readStdin: async () => {
+    if (process.stdin.isTTY) {
+      return '';
+    }
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  },
+  editFile: file => new Promise((resolve, reject) => {
+    const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+    // Run through the shell so editors configured with arguments, like "code --wait", work
+    const child = spawn(`${editor} "${file}"`, { shell: true, stdio: 'inherit' });
+    child.on('error', reject);
+    child.on('exit', code => (code === 0 ? resolve() : reject(new Error(`Editor exited with code ${code}`))));
+  }),
+  env: process.env,
+  createClient: options => new EsaClient(options),
+};
+
+/**
+ * Run the esa command line interface
+ * @param argv Arguments after the program name
+ * @param io Environment to run in
+ * @returns The process exit code
+ */
+export async function runCli(argv: string[], io: CliIO = defaultCliIO): Promise<number> {
+  try {
+    const { values: flags, positionals } = parseCliArgs(argv);
+    const [group, ...rest] = positionals;
+    if (flags.help || !group) {
+      io.stdout(USAGE);
+      return flags.help ? 0 : 2;
+    }
+
+    const commands = COMMANDS[group];
+    if (!commands) {
+      throw new CliUsageError(`Unknown command: ${group}`);
+    }
+    const [name, args] = '' in commands ? ['', rest] : [rest[0], rest.slice(1)];
+    const command = name === undefined ? undefined : commands[name];
+    if (!command) {
+      throw new CliUsageError(`Unknown command: ${[group, name].filter(Boolean).join(' ')}`);
+    }
+
+    const format = (flags.format ?? 'table') as CliFormat;
+    if (!['table', 'json', 'markdown'].includes(format)) {
+      throw new CliUsageError(`Unknown format: ${format}`);
+    }
+
+    // Flags win over the environment, which wins over the config file
+    const config = await loadCliConfig(flags.config ?? defaultConfigPath(io.env));
+    const token = flags.token ?? io.env.ESA_API_TOKEN ?? config.token;
+    const teamName = flags.team ?? io.env.ESA_TEAM_NAME ?? config.team;
+    if (!token) {
+      throw new CliUsageError('No access token; pass --token, set ESA_API_TOKEN or add "token" to the config file');
+    }
+    if (!teamName) {
+      throw new CliUsageError('No team; pass --team, set ESA_TEAM_NAME or add "team" to the config file');
+    }
+
+    const client = io.createClient({ token, teamName, userAgent: 'esa-api-client-cli' });
+    const output = await command({ client, args, flags, io });
+    if (output) {
+      io.stdout(formatOutput(output, format));
+    }
+    return 0;
+  } catch (error) {
+    if (error instanceof CliUsageError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+      io.stderr(`esa: ${(error as Error).message}\nRun "esa --help" for usage.`);
+      return 2;
+    }
+    if (error instanceof EsaError) {
+      io.stderr(`esa: ${error.message}`);
+      return 1;
+    }
+    throw error;
+  }
+}
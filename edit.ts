@@ -0,0 +1,174 @@
+import type { EsaClient, RequestOptions } from './esa-client.js';
+import type { Post, UpdatePostParams } from './types.js';
+import { EsaApiError, EsaConflictHunk, EsaEditConflictError } from './errors.js';
+
+/**
+ * What to do when an edit conflicts with a concurrent update
+ * - retry: re-fetch the post and apply the transform again
+ * - fail: throw an EsaEditConflictError with the conflicting hunks
+ */
+export type EditConflictStrategy = 'retry' | 'fail';
+
+/**
+ * Options for editing a post
+ */
+export interface EditPostOptions extends RequestOptions {
+  /** How to handle conflicts (defaults to retry) */
+  strategy?: EditConflictStrategy;
+  /** Maximum number of times the transform is applied (defaults to 3) */
+  maxAttempts?: number;
+}
+
+/**
+ * Compute the changes to make to a post
+ * @returns The changes, or null to leave the post untouched
+ */
+export type PostTransform = (
+  post: Post
+) => UpdatePostParams | null | undefined | Promise<UpdatePostParams | null | undefined>;
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * Extract the conflicting hunks from a body containing conflict markers
+ * @param body Markdown body returned with overlapped: true
+ */
+export function parseConflictHunks(body: string): EsaConflictHunk[] {
+  const hunks: EsaConflictHunk[] = [];
+  resolveConflicts(body, hunk => {
+    hunks.push(hunk);
+    return '';
+  });
+  return hunks;
+}
+
+/**
+ * Replace every conflict in a body with one of its sides
+ * @param body Markdown body containing conflict markers
+ * @param pick Chooses the text that replaces a hunk
+ */
+export function resolveConflicts(body: string, pick: (hunk: EsaConflictHunk) => string): string {
+  const output: string[] = [];
+  let hunk: { ours: string[]; theirs: string[] } | null = null;
+  let side: 'ours' | 'theirs' = 'ours';
+
+  for (const line of body.split('\n')) {
+    if (line.startsWith('<<<<<<<')) {
+      hunk = { ours: [], theirs: [] };
+      side = 'ours';
+    } else if (hunk && line.startsWith('=======')) {
+      side = 'theirs';
+    } else if (hunk && line.startsWith('>>>>>>>')) {
+      const text = pick({ ours: hunk.ours.join('\n'), theirs: hunk.theirs.join('\n') });
+      if (text !== '') {
+        output.push(text);
+      }
+      hunk = null;
+    } else if (hunk) {
+      hunk[side].push(line);
+    } else {
+      output.push(line);
+    }
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Pick the side of a hunk that holds the concurrent change rather than the text we submitted
+ */
+function concurrentSide(hunk: EsaConflictHunk, submitted: string): string {
+  const submittedText = (text: string) => text !== '' && submitted.includes(text);
+  if (submittedText(hunk.theirs) && !submittedText(hunk.ours)) {
+    return hunk.ours;
+  }
+  if (submittedText(hunk.ours) && !submittedText(hunk.theirs)) {
+    return hunk.theirs;
+  }
+  return hunk.ours;
+}
+
+/**
+ * Build the original_revision that lets esa detect concurrent edits
+ */
+function originalRevision(post: Post): UpdatePostParams['original_revision'] {
+  return {
+    body_md: post.body_md,
+    number: post.revision_number,
+    user: post.updated_by.screen_name,
+  };
+}
+
+/**
+ * Fetch a post, apply a transform and save it, guarding against concurrent edits
+ *
+ * The update carries original_revision, so esa merges or flags concurrent changes
+ * instead of silently overwriting them. A 409 response or overlapped: true counts
+ * as a conflict. When esa has already saved the post with conflict markers, the
+ * retry strategy drops our side of each hunk and applies the transform again to
+ * the other side, so the concurrent change is kept.
+ *
+ * @param client The client used to read and write the post
+ * @param postNumber The post number
+ * @param transform Computes the changes from the latest post
+ * @param teamName The team name (subdomain)
+ * @param options Conflict handling and per-call request options
+ * @returns The updated post, or the latest post when the transform made no changes
+ */
+export async function editPost(
+  client: EsaClient,
+  postNumber: number,
+  transform: PostTransform,
+  teamName?: string,
+  options: EditPostOptions = {}
+): Promise<Post> {
+  const { strategy = 'retry', maxAttempts = DEFAULT_MAX_ATTEMPTS, ...requestOptions } = options;
+
+  // The revision we edit against, and the post as the transform should see it
+  let base = await client.getPost(postNumber, undefined, teamName, requestOptions);
+  let current = base;
+
+  for (let attempt = 1; ; attempt++) {
+    const changes = await transform(current);
+    if (!changes) {
+      return current;
+    }
+
+    let updated: Post;
+    try {
+      updated = await client.updatePost(
+        postNumber,
+        { ...changes, original_revision: originalRevision(base) },
+        teamName,
+        requestOptions
+      );
+    } catch (error) {
+      if (!(error instanceof EsaApiError) || error.status !== 409) {
+        throw error;
+      }
+      // esa rejected the update, so re-read the post and start over
+      const latest = await client.getPost(postNumber, undefined, teamName, requestOptions);
+      if (strategy === 'fail' || attempt >= maxAttempts) {
+        throw new EsaEditConflictError(postNumber, latest, [], attempt);
+      }
+      base = current = latest;
+      continue;
+    }
+
+    if (!updated.overlapped) {
+      return updated;
+    }
+
+    const hunks = parseConflictHunks(updated.body_md);
+    if (strategy === 'fail' || attempt >= maxAttempts) {
+      throw new EsaEditConflictError(postNumber, updated, hunks, attempt);
+    }
+
+    base = updated;
+    current = {
+      ...updated,
+      overlapped: false,
+      body_md: resolveConflicts(updated.body_md, hunk => concurrentSide(hunk, changes.body_md ?? '')),
+    };
+  }
+}
@@ -0,0 +1,442 @@
+import { parseRetryAfter } from './retry.js';
+import type { Post } from './types.js';
+import type { SchemaIssue } from './validation.js';
+
+/**
+ * Error body returned by the ESA API
+ */
+export interface EsaErrorBody {
+  error: string;
+  message: string;
+  [key: string]: unknown;
+}
+
+/**
+ * The request that caused an error
+ */
+export interface EsaRequestInfo {
+  method: string;
+  url: string;
+}
+
+/**
+ * Base class for every error thrown by the client
+ */
+export class EsaError extends Error {
+  method?: string;
+  url?: string;
+  /** Number of attempts the client made, including the first one, when the error came from a request */
+  attempts?: number;
+
+  constructor(message: string, request?: EsaRequestInfo) {
+    super(message);
+    this.name = 'EsaError';
+    this.method = request?.method;
+    this.url = request?.url;
+  }
+}
+
+/**
+ * Normalize an error response into an { error, message } body, taking the
+ * message from error_description for OAuth errors
+ */
+function toErrorBody(data: any): EsaErrorBody {
+  if (data && typeof data === 'object') {
+    const message = typeof data.message === 'string' ? data.message : data.error_description;
+    return {
+      ...data,
+      error: typeof data.error === 'string' ? data.error : 'unknown_error',
+      message: typeof message === 'string' ? message : '',
+    };
+  }
+  return { error: 'unknown_error', message: data == null ? '' : String(data) };
+}
+
+/**
+ * ESA API Error class
+ */
+export class EsaApiError extends EsaError {
+  status: number;
+  /** The response body as received */
+  data: any;
+  /** The response body normalized into { error, message } */
+  body: EsaErrorBody;
+  headers?: Headers;
+
+  constructor(status: number, data: any, headers?: Headers, request?: EsaRequestInfo) {
+    super(`ESA API Error (${status}): ${JSON.stringify(data)}`, request);
+    this.name = 'EsaApiError';
+    this.status = status;
+    this.data = data;
+    this.body = toErrorBody(data);
+    this.headers = headers;
+  }
+}
+
+/**
+ * 400 Bad Request or 422 Unprocessable Entity
+ */
+export class EsaValidationError extends EsaApiError {
+  constructor(status: number, data: any, headers?: Headers, request?: EsaRequestInfo) {
+    super(status, data, headers, request);
+    this.name = 'EsaValidationError';
+  }
+}
+
+/**
+ * 401 Unauthorized
+ */
+export class EsaUnauthorizedError extends EsaApiError {
+  constructor(status: number, data: any, headers?: Headers, request?: EsaRequestInfo) {
+    super(status, data, headers, request);
+    this.name = 'EsaUnauthorizedError';
+  }
+}
+
+/**
+ * 403 Forbidden
+ */
+export class EsaForbiddenError extends EsaApiError {
+  constructor(status: number, data: any, headers?: Headers, request?: EsaRequestInfo) {
+    super(status, data, headers, request);
+    this.name = 'EsaForbiddenError';
+  }
+}
+
+/**
+ * 404 Not Found
+ */
+export class EsaNotFoundError extends EsaApiError {
+  constructor(status: number, data: any, headers?: Headers, request?: EsaRequestInfo) {
+    super(status, data, headers, request);
+    this.name = 'EsaNotFoundError';
+  }
+}
+
+/**
+ * 429 Too Many Requests
+ */
+export class EsaRateLimitError extends EsaApiError {
+  /** Delay requested by the Retry-After header in milliseconds */
+  retryAfterMs?: number;
+
+  constructor(status: number, data: any, headers?: Headers, request?: EsaRequestInfo) {
+    super(status, data, headers, request);
+    this.name = 'EsaRateLimitError';
+    this.retryAfterMs = parseRetryAfter(headers?.get('retry-after'));
+  }
+}
+
+/**
+ * 5xx server errors
+ */
+export class EsaServerError extends EsaApiError {
+  constructor(status: number, data: any, headers?: Headers, request?: EsaRequestInfo) {
+    super(status, data, headers, request);
+    this.name = 'EsaServerError';
+  }
+}
+
+/**
+ * fetch failed before a response was received
+ */
+export class EsaNetworkError extends EsaError {
+  cause: unknown;
+
+  constructor(cause: unknown, request?: EsaRequestInfo) {
+    super(`Network error: ${cause instanceof Error ? cause.message : String(cause)}`, request);
+    this.name = 'EsaNetworkError';
+    this.cause = cause;
+  }
+}
+
+/**
+ * The request did not complete in time
+ */
+export class EsaTimeoutError extends EsaNetworkError {
+  constructor(cause: unknown, request?: EsaRequestInfo) {
+    super(cause, request);
+    this.name = 'EsaTimeoutError';
+    this.message = `Request timed out${request ? ` (${request.method.toUpperCase()} ${request.url})` : ''}`;
+  }
+}
+
+/**
+ * The request was cancelled through an AbortSignal
+ */
+export class EsaAbortError extends EsaError {
+  reason: unknown;
+
+  constructor(reason: unknown, request?: EsaRequestInfo) {
+    super(
+      `Request was aborted${reason instanceof Error ? `: ${reason.message}` : ''}`,
+      request
+    );
+    this.name = 'EsaAbortError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * A search query could not be parsed
+ */
+export class EsaQuerySyntaxError extends EsaError {
+  /** The query that failed to parse */
+  query: string;
+  /** Zero-based offset of the offending character */
+  position: number;
+
+  constructor(message: string, query: string, position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'EsaQuerySyntaxError';
+    this.query = query;
+    this.position = position;
+  }
+}
+
+/**
+ * Conflicting side of an edit, taken from esa's conflict markers
+ */
+export interface EsaConflictHunk {
+  /** Text from the first side of the conflict */
+  ours: string;
+  /** Text from the second side of the conflict */
+  theirs: string;
+}
+
+/**
+ * An edit conflicted with a concurrent update and could not be applied
+ */
+export class EsaEditConflictError extends EsaError {
+  /** The post being edited */
+  postNumber: number;
+  /** The post as last returned by esa, which may contain conflict markers */
+  post: Post;
+  /** Conflicting hunks, empty when esa rejected the update outright */
+  hunks: EsaConflictHunk[];
+  /** Number of times the edit was attempted */
+  attempts: number;
+
+  constructor(postNumber: number, post: Post, hunks: EsaConflictHunk[], attempts: number) {
+    super(`Edit of post #${postNumber} conflicted with a concurrent update after ${attempts} attempt${attempts === 1 ? '' : 's'}`);
+    this.name = 'EsaEditConflictError';
+    this.postNumber = postNumber;
+    this.post = post;
+    this.hunks = hunks;
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * No task in a post matches the given matcher
+ */
+export class EsaTaskNotFoundError extends EsaError {
+  postNumber: number;
+
+  constructor(postNumber: number, description: string) {
+    super(`Post #${postNumber} has no task ${description}`);
+    this.name = 'EsaTaskNotFoundError';
+    this.postNumber = postNumber;
+  }
+}
+
+/**
+ * A request replayed from fixtures does not match the recorded one
+ */
+export class EsaFixtureMismatchError extends EsaError {
+  /** Zero-based position of the request in the fixture file */
+  index: number;
+  /** Lines describing how the request differs from the recording */
+  diff: string[];
+
+  constructor(message: string, index: number, diff: string[]) {
+    super([message, ...diff].join('\n'));
+    this.name = 'EsaFixtureMismatchError';
+    this.index = index;
+    this.diff = diff;
+  }
+}
+
+/**
+ * A response does not match the declared type of its endpoint
+ */
+export class EsaResponseValidationError extends EsaError {
+  /** HTTP method of the request */
+  method: string;
+  /** API path of the request, such as /teams/:team_name/posts */
+  path: string;
+  /** Values that failed validation, with their JSON paths */
+  issues: SchemaIssue[];
+
+  constructor(method: string, path: string, issues: SchemaIssue[]) {
+    super([
+      `Response from ${method.toUpperCase()} ${path} does not match the expected schema`,
+      ...issues.map(issue => `  ${issue.path}: ${issue.message}`),
+    ].join('\n'));
+    this.name = 'EsaResponseValidationError';
+    this.method = method;
+    this.path = path;
+    this.issues = issues;
+  }
+}
+
+/**
+ * The OAuth authorization callback reports an error or cannot be trusted
+ */
+export class EsaOAuthError extends EsaError {
+  /** OAuth error code, such as access_denied or state_mismatch */
+  error: string;
+
+  constructor(message: string, error: string) {
+    super(message);
+    this.name = 'EsaOAuthError';
+    this.error = error;
+  }
+}
+
+/**
+ * A webhook delivery has a missing or wrong X-Esa-Signature header
+ */
+export class EsaWebhookSignatureError extends EsaError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EsaWebhookSignatureError';
+  }
+}
+
+/**
+ * A webhook delivery does not carry a webhook payload
+ */
+export class EsaWebhookPayloadError extends EsaError {
+  cause: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = 'EsaWebhookPayloadError';
+    this.cause = cause;
+  }
+}
+
+/**
+ * Create the error class matching an HTTP status
+ * @param status HTTP status
+ * @param data Parsed error response
+ * @param headers Response headers
+ * @param request The request that failed
+ */
+export function createEsaApiError(
+  status: number,
+  data: any,
+  headers?: Headers,
+  request?: EsaRequestInfo
+): EsaApiError {
+  if (status === 400 || status === 422) {
+    return new EsaValidationError(status, data, headers, request);
+  }
+  if (status === 401) {
+    return new EsaUnauthorizedError(status, data, headers, request);
+  }
+  if (status === 403) {
+    return new EsaForbiddenError(status, data, headers, request);
+  }
+  if (status === 404) {
+    return new EsaNotFoundError(status, data, headers, request);
+  }
+  if (status === 429) {
+    return new EsaRateLimitError(status, data, headers, request);
+  }
+  if (status >= 500) {
+    return new EsaServerError(status, data, headers, request);
+  }
+  return new EsaApiError(status, data, headers, request);
+}
+
+/**
+ * Wrap an error thrown by fetch
+ * @param error The error thrown by fetch
+ * @param request The request that failed
+ */
+export function createEsaNetworkError(error: unknown, request?: EsaRequestInfo): EsaNetworkError {
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    return new EsaTimeoutError(error, request);
+  }
+  return new EsaNetworkError(error, request);
+}
+
+// Type guards
+
+export function isEsaError(error: unknown): error is EsaError {
+  return error instanceof EsaError;
+}
+
+export function isEsaApiError(error: unknown): error is EsaApiError {
+  return error instanceof EsaApiError;
+}
+
+export function isEsaValidationError(error: unknown): error is EsaValidationError {
+  return error instanceof EsaValidationError;
+}
+
+export function isEsaUnauthorizedError(error: unknown): error is EsaUnauthorizedError {
+  return error instanceof EsaUnauthorizedError;
+}
+
+export function isEsaForbiddenError(error: unknown): error is EsaForbiddenError {
+  return error instanceof EsaForbiddenError;
+}
+
+export function isEsaNotFoundError(error: unknown): error is EsaNotFoundError {
+  return error instanceof EsaNotFoundError;
+}
+
+export function isEsaRateLimitError(error: unknown): error is EsaRateLimitError {
+  return error instanceof EsaRateLimitError;
+}
+
+export function isEsaServerError(error: unknown): error is EsaServerError {
+  return error instanceof EsaServerError;
+}
+
+export function isEsaNetworkError(error: unknown): error is EsaNetworkError {
+  return error instanceof EsaNetworkError;
+}
+
+export function isEsaTimeoutError(error: unknown): error is EsaTimeoutError {
+  return error instanceof EsaTimeoutError;
+}
+
+export function isEsaAbortError(error: unknown): error is EsaAbortError {
+  return error instanceof EsaAbortError;
+}
+
+export function isEsaQuerySyntaxError(error: unknown): error is EsaQuerySyntaxError {
+  return error instanceof EsaQuerySyntaxError;
+}
+
+export function isEsaEditConflictError(error: unknown): error is EsaEditConflictError {
+  return error instanceof EsaEditConflictError;
+}
+
+export function isEsaTaskNotFoundError(error: unknown): error is EsaTaskNotFoundError {
+  return error instanceof EsaTaskNotFoundError;
+}
+
+export function isEsaFixtureMismatchError(error: unknown): error is EsaFixtureMismatchError {
+  return error instanceof EsaFixtureMismatchError;
+}
+
+export function isEsaResponseValidationError(error: unknown): error is EsaResponseValidationError {
+  return error instanceof EsaResponseValidationError;
+}
+
+export function isEsaOAuthError(error: unknown): error is EsaOAuthError {
+  return error instanceof EsaOAuthError;
+}
+
+export function isEsaWebhookSignatureError(error: unknown): error is EsaWebhookSignatureError {
+  return error instanceof EsaWebhookSignatureError;
+}
+
+export function isEsaWebhookPayloadError(error: unknown): error is EsaWebhookPayloadError {
+  return error instanceof EsaWebhookPayloadError;
+}
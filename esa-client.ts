@@ -1,7 +1,7 @@
 import {
   Team, TeamsResponse, TeamResponse, Stats,
   Member, MembersResponse,
-  Post, PostsResponse, CreatePostParams, UpdatePostParams,
+  Post, PostsResponse, CreatePostParams, UpdatePostParams, FullNameParam,
   Comment, CommentsResponse, CreateCommentParams, UpdateCommentParams,
   StargazersResponse, CreateStarParams, WatchersResponse,
   BatchMoveCategoryParams, BatchMoveResponse,
@@ -9,22 +9,85 @@ import {
   InvitationUrlResponse, Invitation, InvitationsResponse, InviteMembersParams, CreateInvitationsResponse,
   EmojisResponse, CreateEmojiParams, CreateEmojiResponse,
   AuthenticatedUser, PostsRequestParams,
-  PostItem, PostsSearchResult
+  PostItem, PostsSearchResult,
+  Star, Watcher, Tag
 } from './types.js';
+import { PaginateOptions, paginatePages, paginateItems } from './pagination.js';
+import {
+  RetryOptions, ResolvedRetryOptions,
+  resolveRetryOptions, computeRetryDelay, parseRetryAfter, isIdempotentMethod, sleep
+} from './retry.js';
+import { RateLimiter, RateLimitState, ThrottleOptions } from './rate-limit.js';
+import {
+  EsaError, EsaApiError, EsaNetworkError, EsaAbortError, EsaTimeoutError,
+  EsaResponseValidationError, createEsaApiError, createEsaNetworkError
+} from './errors.js';
+import { Logger, silentLogger } from './logger.js';
+import { EsaMiddleware, EsaRequest, EsaResponse, composeMiddleware } from './middleware.js';
+import { EditPostOptions, PostTransform, editPost } from './edit.js';
+import { TaskMatcher, TogglePostTaskOptions, togglePostTask } from './tasks.js';
+import { CreatePostFromTemplateOptions, createPostFromTemplate } from './template.js';
+import { expandFullName } from './full-name.js';
+import { ValidationMode, validateResponse } from './validation.js';
+
+// Re-exported for backwards compatibility with code importing from this module
+export { EsaApiError } from './errors.js';
 
 /**
- * ESA API Error class
+ * fetch implementation used by the client
  */
-export class EsaApiError extends Error {
-  status: number;
-  data: any;
+export type FetchLike = (url: string, init: RequestInit) => Promise<Response>;
 
-  constructor(status: number, data: any) {
-    super(`ESA API Error (${status}): ${JSON.stringify(data)}`);
-    this.name = 'EsaApiError';
-    this.status = status;
-    this.data = data;
-  }
+/**
+ * Function returning the access token to send, called before every request
+ */
+export type EsaTokenProvider = () => string | Promise<string>;
+
+/**
+ * Options accepted by every API method
+ */
+export interface RequestOptions {
+  /** Retry policy for this call; false disables retries */
+  retry?: RetryOptions | false;
+  /** Signal that cancels the request, including any retry wait */
+  signal?: AbortSignal;
+  /** Timeout for each attempt in milliseconds; 0 disables the timeout */
+  timeoutMs?: number;
+}
+
+/**
+ * ESA API client configuration options
+ */
+export interface EsaClientOptions {
+  /** Access token, or a provider called before every request so rotated tokens are picked up */
+  token: string | EsaTokenProvider;
+  teamName?: string;
+  /** fetch implementation used for every request (defaults to the global fetch) */
+  fetch?: FetchLike;
+  /** API base URL (defaults to https://api.esa.io/v1) */
+  baseUrl?: string;
+  /** User-Agent header sent with every request */
+  userAgent?: string;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  /** Default retry policy; false disables retries */
+  retry?: RetryOptions | false;
+  /** Pace requests before the rate limit runs out */
+  throttle?: boolean | ThrottleOptions;
+  /** Default timeout for each attempt in milliseconds */
+  timeoutMs?: number;
+  /** Logger for request diagnostics (silent by default) */
+  logger?: Logger;
+  /** Check responses against the declared types: strict throws, warn logs (defaults to off) */
+  validation?: ValidationMode;
+}
+
+/**
+ * Events emitted by the client and their payloads
+ */
+export interface EsaClientEvents {
+  /** Emitted whenever a response carries X-RateLimit-* headers */
+  rateLimit: RateLimitState;
 }
 
 /**
@@ -33,16 +96,39 @@ export class EsaApiError extends Error {
  */
 export class EsaClient {
   private baseUrl: string = 'https://api.esa.io/v1';
-  private token: string;
+  private token: string | EsaTokenProvider;
   private teamName: string | null;
+  private fetch: FetchLike | undefined;
+  private userAgent: string | undefined;
+  private headers: Record<string, string>;
+  private retry: RetryOptions | false | undefined;
+  private timeoutMs: number | undefined;
+  private middlewares: EsaMiddleware[] = [];
+  private logger: Logger;
+  private validation: ValidationMode;
+  private rateLimiter: RateLimiter;
+  private listeners: {
+    [K in keyof EsaClientEvents]?: Set<(payload: EsaClientEvents[K]) => void>;
+  } = {};
   
   /**
    * Create a new ESA API client
    * @param options Client configuration options
    */
-  constructor(options: { token: string; teamName?: string }) {
+  constructor(options: EsaClientOptions) {
     this.token = options.token;
     this.teamName = options.teamName || null;
+    if (options.baseUrl) {
+      this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    }
+    this.fetch = options.fetch;
+    this.userAgent = options.userAgent;
+    this.headers = options.headers || {};
+    this.retry = options.retry;
+    this.timeoutMs = options.timeoutMs;
+    this.logger = options.logger ?? silentLogger;
+    this.validation = options.validation ?? 'off';
+    this.rateLimiter = new RateLimiter(options.throttle);
   }
   
   /**
@@ -61,12 +147,66 @@ export class EsaClient {
     return this.teamName;
   }
   
+  /**
+   * Get the rate limit state reported by the latest response
+   * @returns The rate limit state, or null before the first response
+   */
+  public getRateLimit(): RateLimitState | null {
+    return this.rateLimiter.getState();
+  }
+  
+  /**
+   * Register an event listener
+   * @param event The event name
+   * @param listener The listener to call
+   * @returns A function that removes the listener
+   */
+  public on<K extends keyof EsaClientEvents>(
+    event: K,
+    listener: (payload: EsaClientEvents[K]) => void
+  ): () => void {
+    const listeners = (this.listeners[event] ??= new Set()) as Set<(payload: EsaClientEvents[K]) => void>;
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+  
+  /**
+   * Remove an event listener
+   * @param event The event name
+   * @param listener The listener to remove
+   */
+  public off<K extends keyof EsaClientEvents>(
+    event: K,
+    listener: (payload: EsaClientEvents[K]) => void
+  ): void {
+    this.listeners[event]?.delete(listener);
+  }
+  
+  /**
+   * Add a middleware to the end of the chain
+   * Middlewares run in the order they were added and wrap the retry logic
+   * @param middleware The middleware to add
+   * @returns This client, for chaining
+   */
+  public use(middleware: EsaMiddleware): this {
+    this.middlewares.push(middleware);
+    return this;
+  }
+  
+  /**
+   * Call every listener registered for an event
+   */
+  private emit<K extends keyof EsaClientEvents>(event: K, payload: EsaClientEvents[K]): void {
+    this.listeners[event]?.forEach(listener => listener(payload));
+  }
+  
   /**
    * Make a request to the ESA API
    * @param method HTTP method
    * @param path API path
    * @param params Request parameters
    * @param teamName Optional team name (overrides the default)
+   * @param options Per-call request options
    * @returns Promise resolving to the API response
    */
   private async request<T>(
@@ -74,19 +214,68 @@ export class EsaClient {
     path: string,
     params: any = {},
     teamName?: string,
+    options: RequestOptions = {},
   ): Promise<T> {
-    const team = teamName || this.teamName;
+    const token = typeof this.token === 'function' ? await this.token() : this.token;
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...(this.userAgent ? { 'User-Agent': this.userAgent } : {}),
+      ...this.headers,
+      'Authorization': `Bearer ${token}`,
+    };
+    
+    const handler = composeMiddleware(this.middlewares, request => this.dispatch(request));
+    const response = await handler({
+      method,
+      path,
+      teamName: teamName || this.teamName,
+      params,
+      headers,
+      options,
+    });
+    this.validate(method, path, response.data);
+    return response.data as T;
+  }
+  
+  /**
+   * Check a response against the schema of its endpoint according to the validation mode
+   * @param method HTTP method
+   * @param path API path
+   * @param data Parsed response body
+   */
+  private validate(method: string, path: string, data: unknown): void {
+    if (this.validation === 'off') {
+      return;
+    }
+    const issues = validateResponse(method, path, data);
+    if (issues.length === 0) {
+      return;
+    }
+    if (this.validation === 'strict') {
+      throw new EsaResponseValidationError(method, path, issues);
+    }
+    this.logger.warn('ESA API response does not match the expected schema', {
+      method: method.toUpperCase(),
+      path,
+      issues: issues.map(issue => `${issue.path}: ${issue.message}`),
+    });
+  }
+  
+  /**
+   * Send a request that has passed through the middleware chain, retrying failed attempts
+   * @param request The request to send
+   * @returns Promise resolving to the API response
+   */
+  private async dispatch(request: EsaRequest): Promise<EsaResponse> {
+    const { method, path, params, options } = request;
+    const headers = { ...request.headers };
     
     // Replace :team_name in the path with the actual team name
-    const processedPath = team ? path.replace(':team_name', team) : path;
+    const processedPath = request.teamName ? path.replace(':team_name', request.teamName) : path;
     
     // Create the URL with query parameters for GET requests
     let url = `${this.baseUrl}${processedPath}`;
     let body: string | FormData | null = null;
-    let headers: HeadersInit = {
-      'Authorization': `Bearer ${this.token}`,
-      'Content-Type': 'application/json',
-    };
     
     // Add parameters based on the HTTP method
     if (method.toLowerCase() === 'get' && Object.keys(params).length > 0) {
@@ -105,28 +294,153 @@ export class EsaClient {
       body = JSON.stringify(params);
     }
     
+    const retry = resolveRetryOptions(this.retry, options.retry);
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    const start = Date.now();
+    let totalDelay = 0;
+    let attempt = 1;
+    
     try {
-      // Make the request
-      const response = await fetch(url, {
+      for (; ; attempt++) {
+        try {
+          await this.rateLimiter.wait(options.signal);
+          const response = await this.send(method, url, headers, body, options.signal, timeoutMs);
+          this.logger.debug('ESA API request completed', {
+            method,
+            path,
+            status: response.status,
+            durationMs: Date.now() - start,
+            retryCount: attempt - 1,
+          });
+          return response;
+        } catch (error) {
+          if (options.signal?.aborted && !(error instanceof EsaAbortError)) {
+            throw new EsaAbortError(options.signal.reason, { method, url });
+          }
+          if (!this.isRetryable(error, method, retry)) {
+            throw error;
+          }
+          
+          const retryAfter = error instanceof EsaApiError
+            ? parseRetryAfter(error.headers?.get('retry-after'))
+            : undefined;
+          const delay = computeRetryDelay(attempt, retry, retryAfter);
+          
+          // Give up once the attempts or the waiting budget run out, keeping the last error as is
+          if (attempt >= retry.maxAttempts || totalDelay + delay > retry.maxTotalDelayMs) {
+            throw error;
+          }
+          
+          await retry.onRetry?.({ method, path, attempt, delayMs: delay, error });
+          this.logger.warn('ESA API request failed, retrying', {
+            method,
+            path,
+            status: error instanceof EsaApiError ? error.status : undefined,
+            durationMs: Date.now() - start,
+            retryCount: attempt,
+            delayMs: delay,
+            error,
+          });
+          
+          try {
+            await sleep(delay, options.signal);
+          } catch (reason) {
+            throw new EsaAbortError(reason, { method, url });
+          }
+          totalDelay += delay;
+        }
+      }
+    } catch (error) {
+      if (error instanceof EsaError) {
+        error.attempts = attempt;
+      }
+      const fields = {
         method,
+        path,
+        status: error instanceof EsaApiError ? error.status : undefined,
+        durationMs: Date.now() - start,
+        retryCount: attempt - 1,
+        error,
+      };
+      if (error instanceof EsaAbortError) {
+        this.logger.debug('ESA API request aborted', fields);
+      } else {
+        this.logger.error('ESA API request failed', fields);
+      }
+      throw error;
+    }
+  }
+  
+  /**
+   * Whether a failed attempt should be retried
+   * @param error The error thrown by the attempt
+   * @param method HTTP method
+   * @param retry Resolved retry options
+   */
+  private isRetryable(error: unknown, method: string, retry: ResolvedRetryOptions): boolean {
+    if (error instanceof EsaApiError) {
+      if (!retry.retryOnStatus.includes(error.status)) {
+        return false;
+      }
+      // A rate limited request was never processed, so it is always safe to repeat
+      return error.status === 429 || retry.retryNonIdempotent || isIdempotentMethod(method);
+    }
+    if (error instanceof EsaNetworkError) {
+      return retry.retryOnNetworkError && (retry.retryNonIdempotent || isIdempotentMethod(method));
+    }
+    return false;
+  }
+  
+  /**
+   * Send a single request and parse the response
+   * @param method HTTP method
+   * @param url Request URL
+   * @param headers Request headers
+   * @param body Request body
+   * @param signal Signal that cancels the request
+   * @param timeoutMs Timeout in milliseconds
+   */
+  private async send(
+    method: string,
+    url: string,
+    headers: HeadersInit,
+    body: string | FormData | null,
+    signal?: AbortSignal,
+    timeoutMs?: number,
+  ): Promise<EsaResponse> {
+    if (signal?.aborted) {
+      throw new EsaAbortError(signal.reason, { method, url });
+    }
+    
+    // Combine the caller's signal with the timeout so either one cancels fetch
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    let timedOut = false;
+    const timer = timeoutMs
+      ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs)
+      : undefined;
+    
+    try {
+      // Make the request (the global fetch is looked up per call so it can be replaced at runtime)
+      const response = await (this.fetch ?? fetch)(url, {
+        // fetch upper-cases the other methods itself but sends patch as is, which servers reject
+        method: method.toLowerCase() === 'patch' ? 'PATCH' : method,
         headers,
         body: body as any,
+        signal: controller.signal,
       });
       
-      // Check if rate limited
-      if (response.status === 429) {
-        const retryAfter = parseInt(response.headers.get('retry-after') || '60', 10);
-        console.warn(`Rate limit exceeded. Retrying after ${retryAfter} seconds.`);
-        
-        // Wait for retryAfter seconds
-        await new Promise(resolve => setTimeout(resolve, retryAfter * 1000));
-        
-        // Retry the request
-        return this.request<T>(method, path, params, teamName);
+      const rateLimit = this.rateLimiter.update(response.headers);
+      if (rateLimit) {
+        this.emit('rateLimit', rateLimit);
       }
       
-      // Handle error responses before trying to parse JSON
-      if (!response.ok) {
+      // Handle error responses before trying to parse JSON (304 answers a conditional request from a cache)
+      if (!response.ok && response.status !== 304) {
         let errorData: any;
         try {
           errorData = await response.json();
@@ -139,12 +453,12 @@ export class EsaClient {
             errorData = { message: 'Failed to parse error response' };
           }
         }
-        throw new EsaApiError(response.status, errorData);
+        throw createEsaApiError(response.status, errorData, response.headers, { method, url });
       }
       
       // Parse the response for successful responses
       let data: any = null;
-      if (response.status !== 204) {
+      if (response.status !== 204 && response.status !== 304) {
         try {
           data = await response.json();
         } catch (e) {
@@ -153,51 +467,60 @@ export class EsaClient {
         }
       }
       
-      return data as T;
+      return { status: response.status, headers: response.headers, data };
     } catch (error) {
-      if (error instanceof EsaApiError) {
+      // API errors and errors raised by a fetch from this library (such as a fixture mismatch) are final
+      if (error instanceof EsaError) {
         throw error;
       }
+      if (signal?.aborted) {
+        throw new EsaAbortError(signal.reason, { method, url });
+      }
+      if (timedOut) {
+        throw new EsaTimeoutError(error, { method, url });
+      }
       
       // Handle fetch errors
-      console.error('Fetch Error:', error);
-      throw error;
+      throw createEsaNetworkError(error, { method, url });
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
     }
   }
   
   /**
    * GET request helper
    */
-  private get<T>(path: string, params?: any, teamName?: string | undefined): Promise<T> {
-    return this.request<T>('get', path, params || {}, teamName);
+  private get<T>(path: string, params?: any, teamName?: string | undefined, options?: RequestOptions): Promise<T> {
+    return this.request<T>('get', path, params || {}, teamName, options);
   }
   
   /**
    * POST request helper
    */
-  private post<T>(path: string, params?: any, teamName?: string): Promise<T> {
-    return this.request<T>('post', path, params || {}, teamName);
+  private post<T>(path: string, params?: any, teamName?: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>('post', path, params || {}, teamName, options);
   }
   
   /**
    * PATCH request helper
    */
-  private patch<T>(path: string, params?: any, teamName?: string): Promise<T> {
-    return this.request<T>('patch', path, params || {}, teamName);
+  private patch<T>(path: string, params?: any, teamName?: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>('patch', path, params || {}, teamName, options);
   }
   
   /**
    * PUT request helper
    */
-  private put<T>(path: string, params?: any, teamName?: string): Promise<T> {
-    return this.request<T>('put', path, params || {}, teamName);
+  private put<T>(path: string, params?: any, teamName?: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>('put', path, params || {}, teamName, options);
   }
   
   /**
    * DELETE request helper
    */
-  private delete<T>(path: string, params?: any, teamName?: string): Promise<T> {
-    return this.request<T>('delete', path, params || {}, teamName);
+  private delete<T>(path: string, params?: any, teamName?: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>('delete', path, params || {}, teamName, options);
   }
   
   // Teams API
@@ -205,26 +528,67 @@ export class EsaClient {
   /**
    * Get teams the authenticated user belongs to
    * @param role Filter teams by role (owner or member)
+   * @param options Pagination options
+   * @param requestOptions Per-call request options
+   */
+  public getTeams(
+    role?: 'owner' | 'member',
+    options?: { page?: number; per_page?: number },
+    requestOptions?: RequestOptions
+  ): Promise<TeamsResponse> {
+    const params = role ? { role, ...options } : { ...options };
+    return this.get<TeamsResponse>('/teams', params, undefined, requestOptions);
+  }
+
+  /**
+   * Iterate over pages of teams the authenticated user belongs to
+   * @param role Filter teams by role (owner or member)
+   * @param options Pagination options
+   */
+  public paginateTeams(
+    role?: 'owner' | 'member',
+    options?: { page?: number; per_page?: number } & PaginateOptions
+  ): AsyncGenerator<TeamsResponse, void, undefined> {
+    return paginatePages(
+      (page, per_page) => this.getTeams(role, { page, per_page }, options),
+      options,
+      options
+    );
+  }
+
+  /**
+   * Iterate over teams the authenticated user belongs to
+   * @param role Filter teams by role (owner or member)
+   * @param options Pagination options
    */
-  public getTeams(role?: 'owner' | 'member'): Promise<TeamsResponse> {
-    const params = role ? { role } : {};
-    return this.get<TeamsResponse>('/teams', params);
+  public iterateTeams(
+    role?: 'owner' | 'member',
+    options?: { page?: number; per_page?: number } & PaginateOptions
+  ): AsyncGenerator<Team, void, undefined> {
+    return paginateItems(
+      (page, per_page) => this.getTeams(role, { page, per_page }, options),
+      'teams',
+      options,
+      options
+    );
   }
 
   /**
    * Get specific team
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
-  public getTeam(teamName?: string): Promise<TeamResponse> {
-    return this.get<TeamResponse>('/teams/:team_name', {}, teamName);
+  public getTeam(teamName?: string, requestOptions?: RequestOptions): Promise<TeamResponse> {
+    return this.get<TeamResponse>('/teams/:team_name', {}, teamName, requestOptions);
   }
 
   /**
    * Get team stats
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
-  public getTeamStats(teamName?: string): Promise<Stats> {
-    return this.get<Stats>('/teams/:team_name/stats', {}, teamName);
+  public getTeamStats(teamName?: string, requestOptions?: RequestOptions): Promise<Stats> {
+    return this.get<Stats>('/teams/:team_name/stats', {}, teamName, requestOptions);
   }
 
   // Members API
@@ -233,6 +597,7 @@ export class EsaClient {
    * Get team members
    * @param options Sorting options
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
   public getMembers(
     options?: {
@@ -241,27 +606,83 @@ export class EsaClient {
       page?: number;
       per_page?: number;
     },
-    teamName?: string
+    teamName?: string,
+    requestOptions?: RequestOptions
   ): Promise<MembersResponse> {
-    return this.get<MembersResponse>('/teams/:team_name/members', options, teamName);
+    return this.get<MembersResponse>('/teams/:team_name/members', options, teamName, requestOptions);
+  }
+
+  /**
+   * Iterate over pages of team members
+   * @param options Sorting and pagination options
+   * @param teamName The team name (subdomain)
+   */
+  public paginateMembers(
+    options?: {
+      sort?: 'posts_count' | 'joined' | 'last_accessed';
+      order?: 'desc' | 'asc';
+      page?: number;
+      per_page?: number;
+    } & PaginateOptions,
+    teamName?: string
+  ): AsyncGenerator<MembersResponse, void, undefined> {
+    const { sort, order } = options || {};
+    return paginatePages(
+      (page, per_page) => this.getMembers({ sort, order, page, per_page }, teamName, options),
+      options,
+      options
+    );
+  }
+
+  /**
+   * Iterate over team members
+   * @param options Sorting and pagination options
+   * @param teamName The team name (subdomain)
+   */
+  public iterateMembers(
+    options?: {
+      sort?: 'posts_count' | 'joined' | 'last_accessed';
+      order?: 'desc' | 'asc';
+      page?: number;
+      per_page?: number;
+    } & PaginateOptions,
+    teamName?: string
+  ): AsyncGenerator<Member, void, undefined> {
+    const { sort, order } = options || {};
+    return paginateItems(
+      (page, per_page) => this.getMembers({ sort, order, page, per_page }, teamName, options),
+      'members',
+      options,
+      options
+    );
   }
 
   /**
    * Get a specific member
    * @param screenNameOrEmail The screen name or email of the member
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
-  public getMember(screenNameOrEmail: string, teamName?: string): Promise<Member> {
-    return this.get<Member>(`/teams/:team_name/members/${screenNameOrEmail}`, {}, teamName);
+  public getMember(
+    screenNameOrEmail: string,
+    teamName?: string,
+    requestOptions?: RequestOptions
+  ): Promise<Member> {
+    return this.get<Member>(`/teams/:team_name/members/${screenNameOrEmail}`, {}, teamName, requestOptions);
   }
 
   /**
    * Delete a member from team
    * @param screenNameOrEmail The screen name or email of the member
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
-  public deleteMember(screenNameOrEmail: string, teamName?: string): Promise<void> {
-    return this.delete<void>(`/teams/:team_name/members/${screenNameOrEmail}`, {}, teamName);
+  public deleteMember(
+    screenNameOrEmail: string,
+    teamName?: string,
+    requestOptions?: RequestOptions
+  ): Promise<void> {
+    return this.delete<void>(`/teams/:team_name/members/${screenNameOrEmail}`, {}, teamName, requestOptions);
   }
 
   // Posts API
@@ -270,9 +691,49 @@ export class EsaClient {
    * Get posts
    * @param params Request parameters
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
+   */
+  public getPosts(
+    params?: PostsRequestParams,
+    teamName?: string,
+    requestOptions?: RequestOptions
+  ): Promise<PostsResponse> {
+    return this.get<PostsResponse>('/teams/:team_name/posts', params, teamName, requestOptions);
+  }
+
+  /**
+   * Iterate over pages of posts
+   * @param params Request and pagination parameters
+   * @param teamName The team name (subdomain)
+   */
+  public paginatePosts(
+    params?: PostsRequestParams & PaginateOptions,
+    teamName?: string
+  ): AsyncGenerator<PostsResponse, void, undefined> {
+    const { q, include, sort, order } = params || {};
+    return paginatePages(
+      (page, per_page) => this.getPosts({ q, include, sort, order, page, per_page }, teamName, params),
+      params,
+      params
+    );
+  }
+
+  /**
+   * Iterate over posts
+   * @param params Request and pagination parameters
+   * @param teamName The team name (subdomain)
    */
-  public getPosts(params?: PostsRequestParams, teamName?: string): Promise<PostsResponse> {
-    return this.get<PostsResponse>('/teams/:team_name/posts', params, teamName);
+  public iteratePosts(
+    params?: PostsRequestParams & PaginateOptions,
+    teamName?: string
+  ): AsyncGenerator<Post, void, undefined> {
+    const { q, include, sort, order } = params || {};
+    return paginateItems(
+      (page, per_page) => this.getPosts({ q, include, sort, order, page, per_page }, teamName, params),
+      'posts',
+      params,
+      params
+    );
   }
 
   /**
@@ -280,42 +741,114 @@ export class EsaClient {
    * @param postNumber The post number
    * @param include Additional data to include
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
   public getPost(
     postNumber: number,
     include?: 'comments' | 'comments,comments.stargazers' | 'stargazers' | string,
-    teamName?: string
+    teamName?: string,
+    requestOptions?: RequestOptions
   ): Promise<Post> {
     const params = include ? { include } : {};
-    return this.get<Post>(`/teams/:team_name/posts/${postNumber}`, params, teamName);
+    return this.get<Post>(`/teams/:team_name/posts/${postNumber}`, params, teamName, requestOptions);
   }
 
   /**
    * Create a new post
-   * @param params Post parameters
+   * @param params Post parameters; fullName may be given instead of name, category, tags and wip
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
-  public createPost(params: CreatePostParams, teamName?: string): Promise<Post> {
-    return this.post<Post>('/teams/:team_name/posts', { post: params }, teamName);
+  public createPost(
+    params: CreatePostParams | (Partial<CreatePostParams> & FullNameParam),
+    teamName?: string,
+    requestOptions?: RequestOptions
+  ): Promise<Post> {
+    return this.post<Post>(
+      '/teams/:team_name/posts',
+      { post: expandFullName<Partial<CreatePostParams>>(params) },
+      teamName,
+      requestOptions
+    );
+  }
+
+  /**
+   * Create a post from a template post, expanding its placeholders locally
+   * @param templatePostNumber Number of the template post
+   * @param teamName The team name (subdomain)
+   * @param options Template context, overriding params and per-call request options
+   */
+  public createPostFromTemplate(
+    templatePostNumber: number,
+    teamName?: string,
+    options?: CreatePostFromTemplateOptions
+  ): Promise<Post> {
+    return createPostFromTemplate(this, templatePostNumber, teamName, options);
   }
 
   /**
    * Update a post
    * @param postNumber The post number
-   * @param params Post parameters
+   * @param params Post parameters; fullName may be given instead of name, category, tags and wip
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
-  public updatePost(postNumber: number, params: UpdatePostParams, teamName?: string): Promise<Post> {
-    return this.patch<Post>(`/teams/:team_name/posts/${postNumber}`, { post: params }, teamName);
+  public updatePost(
+    postNumber: number,
+    params: UpdatePostParams & Partial<FullNameParam>,
+    teamName?: string,
+    requestOptions?: RequestOptions
+  ): Promise<Post> {
+    return this.patch<Post>(
+      `/teams/:team_name/posts/${postNumber}`,
+      { post: expandFullName<UpdatePostParams>(params) },
+      teamName,
+      requestOptions
+    );
+  }
+
+  /**
+   * Edit a post without overwriting concurrent changes
+   * @param postNumber The post number
+   * @param transform Computes the changes from the latest post; return null to skip the update
+   * @param teamName The team name (subdomain)
+   * @param options Conflict handling and per-call request options
+   */
+  public editPost(
+    postNumber: number,
+    transform: PostTransform,
+    teamName?: string,
+    options?: EditPostOptions
+  ): Promise<Post> {
+    return editPost(this, postNumber, transform, teamName, options);
+  }
+
+  /**
+   * Check or uncheck a task in a post, rewriting only its line
+   * @param postNumber The post number
+   * @param matcher Index, contained text, pattern or predicate selecting the task
+   * @param done Whether the task should be checked
+   * @param teamName The team name (subdomain)
+   * @param options Change message, conflict handling and per-call request options
+   */
+  public togglePostTask(
+    postNumber: number,
+    matcher: TaskMatcher,
+    done: boolean,
+    teamName?: string,
+    options?: TogglePostTaskOptions
+  ): Promise<Post> {
+    return togglePostTask(this, postNumber, matcher, done, teamName, options);
   }
 
   /**
    * Delete a post
    * @param postNumber The post number
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
-  public deletePost(postNumber: number, teamName?: string): Promise<void> {
-    return this.delete<void>(`/teams/:team_name/posts/${postNumber}`, {}, teamName);
+  public deletePost(postNumber: number, teamName?: string, requestOptions?: RequestOptions): Promise<void> {
+    return this.delete<void>(`/teams/:team_name/posts/${postNumber}`, {}, teamName, requestOptions);
   }
 
   // Comments API
@@ -325,13 +858,57 @@ export class EsaClient {
    * @param postNumber The post number
    * @param options Pagination options
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
   public getPostComments(
     postNumber: number,
     options?: { page?: number; per_page?: number },
-    teamName?: string
+    teamName?: string,
+    requestOptions?: RequestOptions
   ): Promise<CommentsResponse> {
-    return this.get<CommentsResponse>(`/teams/:team_name/posts/${postNumber}/comments`, options, teamName);
+    return this.get<CommentsResponse>(
+      `/teams/:team_name/posts/${postNumber}/comments`,
+      options,
+      teamName,
+      requestOptions
+    );
+  }
+
+  /**
+   * Iterate over pages of comments for a post
+   * @param postNumber The post number
+   * @param options Pagination options
+   * @param teamName The team name (subdomain)
+   */
+  public paginatePostComments(
+    postNumber: number,
+    options?: { page?: number; per_page?: number } & PaginateOptions,
+    teamName?: string
+  ): AsyncGenerator<CommentsResponse, void, undefined> {
+    return paginatePages(
+      (page, per_page) => this.getPostComments(postNumber, { page, per_page }, teamName, options),
+      options,
+      options
+    );
+  }
+
+  /**
+   * Iterate over comments for a post
+   * @param postNumber The post number
+   * @param options Pagination options
+   * @param teamName The team name (subdomain)
+   */
+  public iteratePostComments(
+    postNumber: number,
+    options?: { page?: number; per_page?: number } & PaginateOptions,
+    teamName?: string
+  ): AsyncGenerator<Comment, void, undefined> {
+    return paginateItems(
+      (page, per_page) => this.getPostComments(postNumber, { page, per_page }, teamName, options),
+      'comments',
+      options,
+      options
+    );
   }
 
   /**
@@ -339,14 +916,16 @@ export class EsaClient {
    * @param commentId The comment ID
    * @param include Additional data to include
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
   public getComment(
     commentId: number,
     include?: 'stargazers',
-    teamName?: string
+    teamName?: string,
+    requestOptions?: RequestOptions
   ): Promise<Comment> {
     const params = include ? { include } : {};
-    return this.get<Comment>(`/teams/:team_name/comments/${commentId}`, params, teamName);
+    return this.get<Comment>(`/teams/:team_name/comments/${commentId}`, params, teamName, requestOptions);
   }
 
   /**
@@ -354,16 +933,19 @@ export class EsaClient {
    * @param postNumber The post number
    * @param params Comment parameters
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
   public createComment(
     postNumber: number,
     params: CreateCommentParams,
-    teamName?: string
+    teamName?: string,
+    requestOptions?: RequestOptions
   ): Promise<Comment> {
     return this.post<Comment>(
       `/teams/:team_name/posts/${postNumber}/comments`,
       { comment: params },
-      teamName
+      teamName,
+      requestOptions
     );
   }
 
@@ -372,16 +954,19 @@ export class EsaClient {
    * @param commentId The comment ID
    * @param params Comment parameters
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
   public updateComment(
     commentId: number,
     params: UpdateCommentParams,
-    teamName?: string
+    teamName?: string,
+    requestOptions?: RequestOptions
   ): Promise<Comment> {
     return this.patch<Comment>(
       `/teams/:team_name/comments/${commentId}`,
       { comment: params },
-      teamName
+      teamName,
+      requestOptions
     );
   }
 
@@ -389,21 +974,57 @@ export class EsaClient {
    * Delete a comment
    * @param commentId The comment ID
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
-  public deleteComment(commentId: number, teamName?: string): Promise<void> {
-    return this.delete<void>(`/teams/:team_name/comments/${commentId}`, {}, teamName);
+  public deleteComment(commentId: number, teamName?: string, requestOptions?: RequestOptions): Promise<void> {
+    return this.delete<void>(`/teams/:team_name/comments/${commentId}`, {}, teamName, requestOptions);
   }
 
   /**
    * Get all comments in team
    * @param options Pagination options
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
   public getAllComments(
     options?: { page?: number; per_page?: number },
-    teamName?: string
+    teamName?: string,
+    requestOptions?: RequestOptions
   ): Promise<CommentsResponse> {
-    return this.get<CommentsResponse>('/teams/:team_name/comments', options, teamName);
+    return this.get<CommentsResponse>('/teams/:team_name/comments', options, teamName, requestOptions);
+  }
+
+  /**
+   * Iterate over pages of all comments in team
+   * @param options Pagination options
+   * @param teamName The team name (subdomain)
+   */
+  public paginateAllComments(
+    options?: { page?: number; per_page?: number } & PaginateOptions,
+    teamName?: string
+  ): AsyncGenerator<CommentsResponse, void, undefined> {
+    return paginatePages(
+      (page, per_page) => this.getAllComments({ page, per_page }, teamName, options),
+      options,
+      options
+    );
+  }
+
+  /**
+   * Iterate over all comments in team
+   * @param options Pagination options
+   * @param teamName The team name (subdomain)
+   */
+  public iterateAllComments(
+    options?: { page?: number; per_page?: number } & PaginateOptions,
+    teamName?: string
+  ): AsyncGenerator<Comment, void, undefined> {
+    return paginateItems(
+      (page, per_page) => this.getAllComments({ page, per_page }, teamName, options),
+      'comments',
+      options,
+      options
+    );
   }
 
   // Star API
@@ -413,16 +1034,56 @@ export class EsaClient {
    * @param postNumber The post number
    * @param options Pagination options
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
   public getPostStargazers(
     postNumber: number,
     options?: { page?: number; per_page?: number },
-    teamName?: string
+    teamName?: string,
+    requestOptions?: RequestOptions
   ): Promise<StargazersResponse> {
     return this.get<StargazersResponse>(
       `/teams/:team_name/posts/${postNumber}/stargazers`,
       options,
-      teamName
+      teamName,
+      requestOptions
+    );
+  }
+
+  /**
+   * Iterate over pages of stargazers for a post
+   * @param postNumber The post number
+   * @param options Pagination options
+   * @param teamName The team name (subdomain)
+   */
+  public paginatePostStargazers(
+    postNumber: number,
+    options?: { page?: number; per_page?: number } & PaginateOptions,
+    teamName?: string
+  ): AsyncGenerator<StargazersResponse, void, undefined> {
+    return paginatePages(
+      (page, per_page) => this.getPostStargazers(postNumber, { page, per_page }, teamName, options),
+      options,
+      options
+    );
+  }
+
+  /**
+   * Iterate over stargazers for a post
+   * @param postNumber The post number
+   * @param options Pagination options
+   * @param teamName The team name (subdomain)
+   */
+  public iteratePostStargazers(
+    postNumber: number,
+    options?: { page?: number; per_page?: number } & PaginateOptions,
+    teamName?: string
+  ): AsyncGenerator<Star, void, undefined> {
+    return paginateItems(
+      (page, per_page) => this.getPostStargazers(postNumber, { page, per_page }, teamName, options),
+      'stargazers',
+      options,
+      options
     );
   }
 
@@ -431,16 +1092,19 @@ export class EsaClient {
    * @param postNumber The post number
    * @param params Star parameters
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
   public starPost(
     postNumber: number,
     params?: CreateStarParams,
-    teamName?: string
+    teamName?: string,
+    requestOptions?: RequestOptions
   ): Promise<void> {
     return this.post<void>(
       `/teams/:team_name/posts/${postNumber}/star`,
       params,
-      teamName
+      teamName,
+      requestOptions
     );
   }
 
@@ -448,12 +1112,14 @@ export class EsaClient {
    * Unstar a post
    * @param postNumber The post number
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
-  public unstarPost(postNumber: number, teamName?: string): Promise<void> {
+  public unstarPost(postNumber: number, teamName?: string, requestOptions?: RequestOptions): Promise<void> {
     return this.delete<void>(
       `/teams/:team_name/posts/${postNumber}/star`,
       {},
-      teamName
+      teamName,
+      requestOptions
     );
   }
 
@@ -462,16 +1128,56 @@ export class EsaClient {
    * @param commentId The comment ID
    * @param options Pagination options
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
   public getCommentStargazers(
     commentId: number,
     options?: { page?: number; per_page?: number },
-    teamName?: string
+    teamName?: string,
+    requestOptions?: RequestOptions
   ): Promise<StargazersResponse> {
     return this.get<StargazersResponse>(
       `/teams/:team_name/comments/${commentId}/stargazers`,
       options,
-      teamName
+      teamName,
+      requestOptions
+    );
+  }
+
+  /**
+   * Iterate over pages of stargazers for a comment
+   * @param commentId The comment ID
+   * @param options Pagination options
+   * @param teamName The team name (subdomain)
+   */
+  public paginateCommentStargazers(
+    commentId: number,
+    options?: { page?: number; per_page?: number } & PaginateOptions,
+    teamName?: string
+  ): AsyncGenerator<StargazersResponse, void, undefined> {
+    return paginatePages(
+      (page, per_page) => this.getCommentStargazers(commentId, { page, per_page }, teamName, options),
+      options,
+      options
+    );
+  }
+
+  /**
+   * Iterate over stargazers for a comment
+   * @param commentId The comment ID
+   * @param options Pagination options
+   * @param teamName The team name (subdomain)
+   */
+  public iterateCommentStargazers(
+    commentId: number,
+    options?: { page?: number; per_page?: number } & PaginateOptions,
+    teamName?: string
+  ): AsyncGenerator<Star, void, undefined> {
+    return paginateItems(
+      (page, per_page) => this.getCommentStargazers(commentId, { page, per_page }, teamName, options),
+      'stargazers',
+      options,
+      options
     );
   }
 
@@ -480,16 +1186,19 @@ export class EsaClient {
    * @param commentId The comment ID
    * @param params Star parameters
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
   public starComment(
     commentId: number,
     params?: CreateStarParams,
-    teamName?: string
+    teamName?: string,
+    requestOptions?: RequestOptions
   ): Promise<void> {
     return this.post<void>(
       `/teams/:team_name/comments/${commentId}/star`,
       params,
-      teamName
+      teamName,
+      requestOptions
     );
   }
 
@@ -497,12 +1206,14 @@ export class EsaClient {
    * Unstar a comment
    * @param commentId The comment ID
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
-  public unstarComment(commentId: number, teamName?: string): Promise<void> {
+  public unstarComment(commentId: number, teamName?: string, requestOptions?: RequestOptions): Promise<void> {
     return this.delete<void>(
       `/teams/:team_name/comments/${commentId}/star`,
       {},
-      teamName
+      teamName,
+      requestOptions
     );
   }
 
@@ -513,16 +1224,56 @@ export class EsaClient {
    * @param postNumber The post number
    * @param options Pagination options
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
   public getPostWatchers(
     postNumber: number,
     options?: { page?: number; per_page?: number },
-    teamName?: string
+    teamName?: string,
+    requestOptions?: RequestOptions
   ): Promise<WatchersResponse> {
     return this.get<WatchersResponse>(
       `/teams/:team_name/posts/${postNumber}/watchers`,
       options,
-      teamName
+      teamName,
+      requestOptions
+    );
+  }
+
+  /**
+   * Iterate over pages of watchers for a post
+   * @param postNumber The post number
+   * @param options Pagination options
+   * @param teamName The team name (subdomain)
+   */
+  public paginatePostWatchers(
+    postNumber: number,
+    options?: { page?: number; per_page?: number } & PaginateOptions,
+    teamName?: string
+  ): AsyncGenerator<WatchersResponse, void, undefined> {
+    return paginatePages(
+      (page, per_page) => this.getPostWatchers(postNumber, { page, per_page }, teamName, options),
+      options,
+      options
+    );
+  }
+
+  /**
+   * Iterate over watchers for a post
+   * @param postNumber The post number
+   * @param options Pagination options
+   * @param teamName The team name (subdomain)
+   */
+  public iteratePostWatchers(
+    postNumber: number,
+    options?: { page?: number; per_page?: number } & PaginateOptions,
+    teamName?: string
+  ): AsyncGenerator<Watcher, void, undefined> {
+    return paginateItems(
+      (page, per_page) => this.getPostWatchers(postNumber, { page, per_page }, teamName, options),
+      'watchers',
+      options,
+      options
     );
   }
 
@@ -530,12 +1281,14 @@ export class EsaClient {
    * Watch a post
    * @param postNumber The post number
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
-  public watchPost(postNumber: number, teamName?: string): Promise<void> {
+  public watchPost(postNumber: number, teamName?: string, requestOptions?: RequestOptions): Promise<void> {
     return this.post<void>(
       `/teams/:team_name/posts/${postNumber}/watch`,
       {},
-      teamName
+      teamName,
+      requestOptions
     );
   }
 
@@ -543,12 +1296,14 @@ export class EsaClient {
    * Unwatch a post
    * @param postNumber The post number
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
-  public unwatchPost(postNumber: number, teamName?: string): Promise<void> {
+  public unwatchPost(postNumber: number, teamName?: string, requestOptions?: RequestOptions): Promise<void> {
     return this.delete<void>(
       `/teams/:team_name/posts/${postNumber}/watch`,
       {},
-      teamName
+      teamName,
+      requestOptions
     );
   }
 
@@ -558,15 +1313,18 @@ export class EsaClient {
    * Batch move categories
    * @param params Batch move parameters
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
   public batchMoveCategory(
     params: BatchMoveCategoryParams,
-    teamName?: string
+    teamName?: string,
+    requestOptions?: RequestOptions
   ): Promise<BatchMoveResponse> {
     return this.post<BatchMoveResponse>(
       '/teams/:team_name/categories/batch_move',
       params,
-      teamName
+      teamName,
+      requestOptions
     );
   }
 
@@ -575,9 +1333,48 @@ export class EsaClient {
   /**
    * Get tags
    * @param teamName The team name (subdomain)
+   * @param options Pagination options
+   * @param requestOptions Per-call request options
+   */
+  public getTags(
+    teamName?: string,
+    options?: { page?: number; per_page?: number },
+    requestOptions?: RequestOptions
+  ): Promise<TagsResponse> {
+    return this.get<TagsResponse>('/teams/:team_name/tags', options, teamName, requestOptions);
+  }
+
+  /**
+   * Iterate over pages of tags
+   * @param options Pagination options
+   * @param teamName The team name (subdomain)
+   */
+  public paginateTags(
+    options?: { page?: number; per_page?: number } & PaginateOptions,
+    teamName?: string
+  ): AsyncGenerator<TagsResponse, void, undefined> {
+    return paginatePages(
+      (page, per_page) => this.getTags(teamName, { page, per_page }, options),
+      options,
+      options
+    );
+  }
+
+  /**
+   * Iterate over tags
+   * @param options Pagination options
+   * @param teamName The team name (subdomain)
    */
-  public getTags(teamName?: string): Promise<TagsResponse> {
-    return this.get<TagsResponse>('/teams/:team_name/tags', {}, teamName);
+  public iterateTags(
+    options?: { page?: number; per_page?: number } & PaginateOptions,
+    teamName?: string
+  ): AsyncGenerator<Tag, void, undefined> {
+    return paginateItems(
+      (page, per_page) => this.getTags(teamName, { page, per_page }, options),
+      'tags',
+      options,
+      options
+    );
   }
 
   // Invitation API
@@ -585,32 +1382,48 @@ export class EsaClient {
   /**
    * Get invitation URL
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
-  public getInvitationUrl(teamName?: string): Promise<InvitationUrlResponse> {
-    return this.get<InvitationUrlResponse>('/teams/:team_name/invitation', {}, teamName);
+  public getInvitationUrl(
+    teamName?: string,
+    requestOptions?: RequestOptions
+  ): Promise<InvitationUrlResponse> {
+    return this.get<InvitationUrlResponse>('/teams/:team_name/invitation', {}, teamName, requestOptions);
   }
 
   /**
    * Regenerate invitation URL
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
-  public regenerateInvitationUrl(teamName?: string): Promise<InvitationUrlResponse> {
-    return this.post<InvitationUrlResponse>('/teams/:team_name/invitation_regenerator', {}, teamName);
+  public regenerateInvitationUrl(
+    teamName?: string,
+    requestOptions?: RequestOptions
+  ): Promise<InvitationUrlResponse> {
+    return this.post<InvitationUrlResponse>(
+      '/teams/:team_name/invitation_regenerator',
+      {},
+      teamName,
+      requestOptions
+    );
   }
 
   /**
    * Invite members by email
    * @param params Invitation parameters
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
   public inviteMembers(
     params: InviteMembersParams,
-    teamName?: string
+    teamName?: string,
+    requestOptions?: RequestOptions
   ): Promise<CreateInvitationsResponse> {
     return this.post<CreateInvitationsResponse>(
       '/teams/:team_name/invitations',
       { member: params },
-      teamName
+      teamName,
+      requestOptions
     );
   }
 
@@ -618,21 +1431,57 @@ export class EsaClient {
    * Get pending invitations
    * @param options Pagination options
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
   public getInvitations(
     options?: { page?: number; per_page?: number },
-    teamName?: string
+    teamName?: string,
+    requestOptions?: RequestOptions
   ): Promise<InvitationsResponse> {
-    return this.get<InvitationsResponse>('/teams/:team_name/invitations', options, teamName);
+    return this.get<InvitationsResponse>('/teams/:team_name/invitations', options, teamName, requestOptions);
+  }
+
+  /**
+   * Iterate over pages of pending invitations
+   * @param options Pagination options
+   * @param teamName The team name (subdomain)
+   */
+  public paginateInvitations(
+    options?: { page?: number; per_page?: number } & PaginateOptions,
+    teamName?: string
+  ): AsyncGenerator<InvitationsResponse, void, undefined> {
+    return paginatePages(
+      (page, per_page) => this.getInvitations({ page, per_page }, teamName, options),
+      options,
+      options
+    );
+  }
+
+  /**
+   * Iterate over pending invitations
+   * @param options Pagination options
+   * @param teamName The team name (subdomain)
+   */
+  public iterateInvitations(
+    options?: { page?: number; per_page?: number } & PaginateOptions,
+    teamName?: string
+  ): AsyncGenerator<Invitation, void, undefined> {
+    return paginateItems(
+      (page, per_page) => this.getInvitations({ page, per_page }, teamName, options),
+      'invitations',
+      options,
+      options
+    );
   }
 
   /**
    * Delete invitation
    * @param code The invitation code
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
-  public deleteInvitation(code: string, teamName?: string): Promise<void> {
-    return this.delete<void>(`/teams/:team_name/invitations/${code}`, {}, teamName);
+  public deleteInvitation(code: string, teamName?: string, requestOptions?: RequestOptions): Promise<void> {
+    return this.delete<void>(`/teams/:team_name/invitations/${code}`, {}, teamName, requestOptions);
   }
 
   // Emoji API
@@ -641,20 +1490,27 @@ export class EsaClient {
    * Get emojis
    * @param includeAll Include all emojis (not just team-specific ones)
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
-  public getEmojis(includeAll?: boolean, teamName?: string): Promise<EmojisResponse> {
+  public getEmojis(
+    includeAll?: boolean,
+    teamName?: string,
+    requestOptions?: RequestOptions
+  ): Promise<EmojisResponse> {
     const params = includeAll ? { include: 'all' } : {};
-    return this.get<EmojisResponse>('/teams/:team_name/emojis', params, teamName);
+    return this.get<EmojisResponse>('/teams/:team_name/emojis', params, teamName, requestOptions);
   }
 
   /**
    * Create a new emoji
    * @param params Emoji parameters
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
   public createEmoji(
     params: CreateEmojiParams,
-    teamName?: string
+    teamName?: string,
+    requestOptions?: RequestOptions
   ): Promise<CreateEmojiResponse> {
     const team = teamName || this.teamName;
     if (!team) {
@@ -680,7 +1536,8 @@ export class EsaClient {
       'post',
       `/teams/:team_name/emojis`,
       formData,
-      team
+      team,
+      requestOptions
     );
   }
 
@@ -688,9 +1545,10 @@ export class EsaClient {
    * Delete an emoji
    * @param code The emoji code
    * @param teamName The team name (subdomain)
+   * @param requestOptions Per-call request options
    */
-  public deleteEmoji(code: string, teamName?: string): Promise<void> {
-    return this.delete<void>(`/teams/:team_name/emojis/${code}`, {}, teamName);
+  public deleteEmoji(code: string, teamName?: string, requestOptions?: RequestOptions): Promise<void> {
+    return this.delete<void>(`/teams/:team_name/emojis/${code}`, {}, teamName, requestOptions);
   }
 
   // User API
@@ -698,9 +1556,13 @@ export class EsaClient {
   /**
    * Get the authenticated user
    * @param includeTeams Include the user's teams
+   * @param requestOptions Per-call request options
    */
-  public getAuthenticatedUser(includeTeams?: boolean): Promise<AuthenticatedUser> {
+  public getAuthenticatedUser(
+    includeTeams?: boolean,
+    requestOptions?: RequestOptions
+  ): Promise<AuthenticatedUser> {
     const params = includeTeams ? { include: 'teams' } : {};
-    return this.get<AuthenticatedUser>('/user', params);
+    return this.get<AuthenticatedUser>('/user', params, undefined, requestOptions);
   }
 }
\ No newline at end of file
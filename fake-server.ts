@@ -0,0 +1,1322 @@
+import { createServer, Server } from 'http';
+import { createHash, randomBytes } from 'crypto';
+import type { AddressInfo } from 'net';
+import type { FetchLike } from './esa-client.js';
+import type {
+  Post, Comment, Member, Star, Watcher, Tag, Invitation, Emoji, User, Team, Stats,
+  PaginationResponse, CreatePostParams, UpdatePostParams
+} from './types.js';
+import type { EsaQueryNode } from './query.js';
+import { parseQueryNode } from './query-parser.js';
+import { isEsaQuerySyntaxError } from './errors.js';
+import { formatFullName } from './full-name.js';
+import { parseTasks } from './tasks.js';
+import { isDescendantCategory, joinCategory, normalizeCategory, splitCategory } from './category.js';
+
+/**
+ * Options for the fake esa server
+ */
+export interface FakeEsaServerOptions {
+  /** Team served by the fake (defaults to test-team) */
+  teamName?: string;
+  /** Access token of the team owner created with the fake (defaults to token) */
+  token?: string;
+  /** Screen name of the team owner (defaults to owner) */
+  ownerScreenName?: string;
+  /** Requests allowed per rate limit window; unlimited when omitted */
+  rateLimit?: number;
+  /** Length of a rate limit window in milliseconds (defaults to 15 minutes) */
+  rateLimitWindowMs?: number;
+  /** Clock used for timestamps and rate limit windows */
+  now?: () => Date;
+}
+
+/**
+ * A saved revision of a post
+ */
+export interface FakePostRevision {
+  number: number;
+  body_md: string;
+  message: string;
+  user: string;
+  created_at: string;
+}
+
+/**
+ * Member to add to the fake team
+ */
+export interface FakeMemberParams {
+  screen_name: string;
+  name?: string;
+  email?: string;
+  role?: Member['role'];
+}
+
+/**
+ * OAuth application registered with the fake
+ */
+export interface FakeOAuthApplication {
+  client_id: string;
+  /** Secret the application must send; public clients may omit it */
+  client_secret?: string;
+  redirect_uri: string;
+}
+
+interface StoredMember {
+  name: string;
+  screen_name: string;
+  email: string;
+  role: Member['role'];
+  joined_at: string;
+  last_accessed_at: string;
+}
+
+interface StoredStar {
+  screen_name: string;
+  body: string | null;
+  created_at: string;
+}
+
+interface StoredPost {
+  number: number;
+  name: string;
+  category: string | null;
+  tags: string[];
+  wip: boolean;
+  body_md: string;
+  message: string;
+  created_at: string;
+  updated_at: string;
+  created_by: string;
+  updated_by: string;
+  revisions: FakePostRevision[];
+  stars: StoredStar[];
+  watchers: StoredStar[];
+}
+
+interface StoredComment {
+  id: number;
+  post_number: number;
+  body_md: string;
+  created_at: string;
+  updated_at: string;
+  created_by: string;
+  stars: StoredStar[];
+}
+
+interface StoredAuthorizationCode {
+  client_id: string;
+  redirect_uri: string;
+  screen_name: string;
+  scopes: string[];
+  code_challenge: string | null;
+}
+
+interface StoredOAuthToken {
+  client_id: string;
+  screen_name: string;
+  scopes: string[];
+  created_at: number;
+}
+
+/**
+ * Parsed request passed to a route handler
+ */
+interface FakeRequest {
+  method: string;
+  url: URL;
+  params: string[];
+  viewer: StoredMember;
+  body: any;
+}
+
+type FakeRouteHandler = (request: FakeRequest) => unknown;
+
+interface FakeRoute {
+  method: string;
+  pattern: RegExp;
+  handler: FakeRouteHandler;
+  /** Status of a response with a body */
+  status: number;
+}
+
+/**
+ * Error response returned by a route handler
+ */
+class FakeHttpError extends Error {
+  constructor(public status: number, public error: string, message: string) {
+    super(message);
+    this.name = 'FakeHttpError';
+  }
+}
+
+const DEFAULT_PER_PAGE = 20;
+const MAX_PER_PAGE = 100;
+const DEFAULT_RATE_LIMIT_WINDOW_MS = 15 * 60 * 1000;
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const notFound = () => new FakeHttpError(404, 'not_found', 'Not found');
+const forbidden = () => new FakeHttpError(403, 'forbidden', 'Forbidden');
+const badRequest = (message: string) => new FakeHttpError(400, 'bad_request', message);
+
+/**
+ * Slice a list into the page requested by the page and per_page query parameters
+ */
+function paginate<K extends string, T>(
+  items: T[],
+  url: URL,
+  key: K
+): PaginationResponse & { [P in K]: T[] } {
+  const page = Math.max(Number(url.searchParams.get('page')) || 1, 1);
+  const perPage = Math.min(Math.max(Number(url.searchParams.get('per_page')) || DEFAULT_PER_PAGE, 1), MAX_PER_PAGE);
+  const lastPage = Math.max(Math.ceil(items.length / perPage), 1);
+  return {
+    [key]: items.slice((page - 1) * perPage, page * perPage),
+    prev_page: page > 1 ? page - 1 : null,
+    next_page: page < lastPage ? page + 1 : null,
+    total_count: items.length,
+    page,
+    per_page: perPage,
+    max_per_page: MAX_PER_PAGE,
+  } as PaginationResponse & { [P in K]: T[] };
+}
+
+/**
+ * Compare a value with a qualifier such as stars:>5 or created:<2024-01-01
+ */
+function compare(actual: string | number, operator: string, expected: string | number): boolean {
+  switch (operator) {
+    case '>':
+      return actual > expected;
+    case '>=':
+      return actual >= expected;
+    case '<':
+      return actual < expected;
+    case '<=':
+      return actual <= expected;
+    default:
+      return actual === expected;
+  }
+}
+
+/**
+ * Merge a submitted body with a concurrent change, marking the lines both sides changed
+ *
+ * This is much coarser than esa's own merge: once the common head and tail of the three
+ * texts are set aside, the rest only merges line by line when no lines were added or
+ * removed, and otherwise conflicts as a whole. The conflict markers are the same.
+ */
+function mergeBody(base: string, current: string, submitted: string): { body: string; overlapped: boolean } {
+  if (current === base || current === submitted) {
+    return { body: submitted, overlapped: false };
+  }
+  if (submitted === base) {
+    return { body: current, overlapped: false };
+  }
+
+  const lines = [base, current, submitted].map(text => text.split('\n'));
+  const shortest = Math.min(...lines.map(text => text.length));
+  let head = 0;
+  while (head < shortest && lines.every(text => text[head] === lines[0][head])) {
+    head++;
+  }
+  let tail = 0;
+  while (
+    tail < shortest - head
+    && lines.every(text => text[text.length - 1 - tail] === lines[0][lines[0].length - 1 - tail])
+  ) {
+    tail++;
+  }
+  const [baseMiddle, currentMiddle, submittedMiddle] = lines.map(text => text.slice(head, text.length - tail));
+  const prefix = lines[0].slice(0, head);
+  const suffix = lines[0].slice(lines[0].length - tail);
+
+  // When no lines were added or removed, merge line by line; otherwise the whole middle conflicts
+  const lineByLine = currentMiddle.length === baseMiddle.length && submittedMiddle.length === baseMiddle.length;
+  const middle: string[] = [];
+  let hunk: { current: string[]; submitted: string[] } | null = null;
+  let overlapped = false;
+  const flush = () => {
+    if (hunk) {
+      middle.push('<<<<<<<', ...hunk.current, '=======', ...hunk.submitted, '>>>>>>>');
+      hunk = null;
+      overlapped = true;
+    }
+  };
+
+  for (let i = 0; lineByLine && i < baseMiddle.length; i++) {
+    if (currentMiddle[i] === baseMiddle[i] || currentMiddle[i] === submittedMiddle[i]) {
+      flush();
+      middle.push(submittedMiddle[i]);
+    } else if (submittedMiddle[i] === baseMiddle[i]) {
+      flush();
+      middle.push(currentMiddle[i]);
+    } else {
+      hunk ??= { current: [], submitted: [] };
+      hunk.current.push(currentMiddle[i]);
+      hunk.submitted.push(submittedMiddle[i]);
+    }
+  }
+  if (!lineByLine) {
+    hunk = { current: currentMiddle, submitted: submittedMiddle };
+  }
+  flush();
+
+  return { body: [...prefix, ...middle, ...suffix].join('\n'), overlapped };
+}
+
+/**
+ * In-memory fake of the esa API v1 for offline tests
+ *
+ * It implements the endpoints EsaClient calls, keeping posts with their revisions,
+ * comments, stars, watches, members, invitations and emojis in memory. Tags are
+ * derived from the posts. Use it either as the client's fetch implementation or as
+ * a local HTTP server:
+ *
+ * ```typescript
+ * const server = new FakeEsaServer();
+ * const client = new EsaClient({ token: 'token', teamName: 'test-team', fetch: server.fetch });
+ * ```
+ */
+export class FakeEsaServer {
+  public readonly teamName: string;
+  private now: () => Date;
+  private rateLimit: number | undefined;
+  private rateLimitWindowMs: number;
+  private rateLimitWindow: { start: number; count: number } | null = null;
+  private tokens = new Map<string, string>();
+  private oauthApplications = new Map<string, FakeOAuthApplication>();
+  private authorizationCodes = new Map<string, StoredAuthorizationCode>();
+  private oauthTokens = new Map<string, StoredOAuthToken>();
+  private members = new Map<string, StoredMember>();
+  private formerMembers = new Map<string, StoredMember>();
+  private posts = new Map<number, StoredPost>();
+  private comments = new Map<number, StoredComment>();
+  private invitations = new Map<string, Invitation>();
+  private emojis = new Map<string, Emoji>();
+  private nextPostNumber = 1;
+  private nextCommentId = 1;
+  private nextInvitationId = 1;
+  private invitationUrlVersion = 1;
+  private server: Server | null = null;
+  private routes: FakeRoute[] = [];
+
+  /**
+   * Create a new fake server
+   * @param options Team, owner and rate limit settings
+   */
+  constructor(options: FakeEsaServerOptions = {}) {
+    this.teamName = options.teamName ?? 'test-team';
+    this.now = options.now ?? (() => new Date());
+    this.rateLimit = options.rateLimit;
+    this.rateLimitWindowMs = options.rateLimitWindowMs ?? DEFAULT_RATE_LIMIT_WINDOW_MS;
+    this.addMember({ screen_name: options.ownerScreenName ?? 'owner', role: 'owner' }, options.token ?? 'token');
+    this.defineRoutes();
+  }
+
+  /**
+   * fetch implementation that answers from the fake instead of the network
+   */
+  public readonly fetch: FetchLike = (url, init) => this.handle(new Request(url, init));
+
+  /**
+   * Add a member to the team
+   * @param params The member
+   * @param token Access token that authenticates as the member
+   */
+  public addMember(params: FakeMemberParams, token?: string): Member {
+    const timestamp = this.timestamp();
+    const member: StoredMember = {
+      name: params.name ?? params.screen_name,
+      screen_name: params.screen_name,
+      email: params.email ?? `${params.screen_name}@example.com`,
+      role: params.role ?? 'member',
+      joined_at: timestamp,
+      last_accessed_at: timestamp,
+    };
+    this.members.set(member.screen_name, member);
+    if (token !== undefined) {
+      this.tokens.set(token, member.screen_name);
+    }
+    return this.toMember(member, member);
+  }
+
+  /**
+   * Register an OAuth application
+   *
+   * GET /oauth/authorize approves every request for the application as the team
+   * owner and redirects back with a code, which POST /oauth/token exchanges for a
+   * token limited to the requested scopes.
+   * @param application Client credentials and redirect URI
+   */
+  public addOAuthApplication(application: FakeOAuthApplication): void {
+    this.oauthApplications.set(application.client_id, application);
+  }
+
+  /**
+   * Add a post without going through the API
+   * @param params Post parameters; wip defaults to false
+   * @param screenName Author of the post (defaults to the owner)
+   */
+  public addPost(params: CreatePostParams, screenName?: string): Post {
+    const author = this.member(screenName ?? this.owner().screen_name);
+    const post = this.createStoredPost({ wip: false, ...params }, author);
+    return this.toPost(post, author);
+  }
+
+  /**
+   * Add a comment without going through the API
+   * @param postNumber The post number
+   * @param body_md Comment body
+   * @param screenName Author of the comment (defaults to the owner)
+   */
+  public addComment(postNumber: number, body_md: string, screenName?: string): Comment {
+    const author = this.member(screenName ?? this.owner().screen_name);
+    return this.toComment(this.createStoredComment(this.findPost(postNumber), body_md, author), author);
+  }
+
+  /**
+   * Get a post as the owner sees it
+   * @param postNumber The post number
+   * @returns The post, or undefined when it does not exist
+   */
+  public getPost(postNumber: number): Post | undefined {
+    const post = this.posts.get(postNumber);
+    return post && this.toPost(post, this.owner());
+  }
+
+  /**
+   * Get every saved revision of a post, oldest first
+   * @param postNumber The post number
+   */
+  public getRevisions(postNumber: number): FakePostRevision[] {
+    return (this.posts.get(postNumber)?.revisions ?? []).map(revision => ({ ...revision }));
+  }
+
+  /**
+   * Answer a request
+   * @param request The request
+   * @returns The response esa would send
+   */
+  public async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    if (url.pathname.startsWith('/oauth/')) {
+      return this.handleOAuth(request, url);
+    }
+    const headers = new Headers({ 'Content-Type': 'application/json; charset=utf-8' });
+    try {
+      this.consumeRateLimit(headers);
+      const result = await this.route(request);
+      if (result === undefined) {
+        headers.delete('Content-Type');
+        return new Response(null, { status: 204, headers });
+      }
+      const [status, data] = result;
+      return new Response(JSON.stringify(data), { status, headers });
+    } catch (error) {
+      if (!(error instanceof FakeHttpError)) {
+        throw error;
+      }
+      return new Response(
+        JSON.stringify({ error: error.error, message: error.message }),
+        { status: error.status, headers }
+      );
+    }
+  }
+
+  /**
+   * Serve the fake over HTTP
+   * @param port Port to listen on; 0 picks a free one
+   * @param hostname Address to bind
+   * @returns The base URL to pass to EsaClient, such as http://127.0.0.1:3000/v1
+   */
+  public listen(port: number = 0, hostname: string = '127.0.0.1'): Promise<string> {
+    const server = createServer(async (req, res) => {
+      try {
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) {
+          chunks.push(chunk as Buffer);
+        }
+        const headers = new Headers();
+        for (const [name, value] of Object.entries(req.headers)) {
+          if (value !== undefined) {
+            headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+          }
+        }
+        const method = req.method ?? 'GET';
+        const response = await this.handle(new Request(`http://${hostname}${req.url}`, {
+          method,
+          headers,
+          body: method === 'GET' || method === 'HEAD' ? undefined : Buffer.concat(chunks),
+        }));
+        const responseHeaders: Record<string, string> = {};
+        response.headers.forEach((value, name) => {
+          responseHeaders[name] = value;
+        });
+        res.writeHead(response.status, responseHeaders);
+        res.end(Buffer.from(await response.arrayBuffer()));
+      } catch (error) {
+        res.writeHead(500, { 'Content-Type': 'application/json; charset=utf-8' });
+        res.end(JSON.stringify({ error: 'internal_server_error', message: String(error) }));
+      }
+    });
+    this.server = server;
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, hostname, () => {
+        const { port: actualPort } = server.address() as AddressInfo;
+        resolve(`http://${hostname}:${actualPort}/v1`);
+      });
+    });
+  }
+
+  /**
+   * Stop the HTTP server started by listen
+   */
+  public close(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+  }
+
+  /**
+   * Count a request against the rate limit and set the X-RateLimit-* headers
+   */
+  private consumeRateLimit(headers: Headers): void {
+    if (this.rateLimit === undefined) {
+      return;
+    }
+    const now = this.now().getTime();
+    if (!this.rateLimitWindow || now >= this.rateLimitWindow.start + this.rateLimitWindowMs) {
+      this.rateLimitWindow = { start: now, count: 0 };
+    }
+    const window = this.rateLimitWindow;
+    const reset = window.start + this.rateLimitWindowMs;
+    window.count++;
+    headers.set('X-RateLimit-Limit', String(this.rateLimit));
+    headers.set('X-RateLimit-Remaining', String(Math.max(this.rateLimit - window.count, 0)));
+    headers.set('X-RateLimit-Reset', String(Math.ceil(reset / 1000)));
+    if (window.count > this.rateLimit) {
+      headers.set('Retry-After', String(Math.ceil((reset - now) / 1000)));
+      throw new FakeHttpError(429, 'too_many_requests', 'Rate limit exceeded');
+    }
+  }
+
+  /**
+   * Authenticate a request and pass it to the matching route
+   * @returns The status and body, or undefined for 204 No Content
+   */
+  private async route(request: Request): Promise<[number, unknown] | undefined> {
+    const url = new URL(request.url);
+    const method = request.method.toUpperCase();
+    const path = url.pathname.replace(/^\/v1(?=\/)/, '').replace(/\/+$/, '');
+
+    const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+    const screenName = token === undefined ? undefined : this.tokens.get(token);
+    const viewer = screenName === undefined ? undefined : this.members.get(screenName);
+    if (!viewer) {
+      throw new FakeHttpError(401, 'unauthorized', 'Unauthorized');
+    }
+    // Personal access tokens may do anything; OAuth tokens need the write scope to change data
+    const scopes = this.oauthTokens.get(token!)?.scopes;
+    if (scopes && method !== 'GET' && !scopes.includes('write')) {
+      throw new FakeHttpError(403, 'forbidden', 'The access token does not have the write scope');
+    }
+
+    for (const route of this.routes) {
+      const match = route.method === method ? route.pattern.exec(path) : null;
+      if (!match) {
+        continue;
+      }
+      const [, team, ...params] = match;
+      if (team !== undefined && team !== this.teamName) {
+        throw notFound();
+      }
+      const result = await route.handler({ method, url, params, viewer, body: await this.readBody(request) });
+      return result === undefined ? undefined : [route.status, result];
+    }
+    throw notFound();
+  }
+
+  /**
+   * Read a JSON or multipart request body
+   */
+  private async readBody(request: Request): Promise<any> {
+    const contentType = request.headers.get('content-type') ?? '';
+    if (contentType.startsWith('multipart/form-data')) {
+      return request.formData();
+    }
+    const text = await request.text();
+    if (text === '') {
+      return {};
+    }
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw badRequest('Invalid JSON body');
+    }
+  }
+
+  /**
+   * Register the endpoints, with the team name as the first capture of team routes
+   */
+  private defineRoutes(): void {
+    const team = '/teams/([^/]+)';
+    const route = (method: string, path: string, handler: FakeRouteHandler, status: number = 200) => {
+      this.routes.push({ method, pattern: new RegExp(`^${path}$`), handler, status });
+    };
+
+    route('GET', '/user', ({ url, viewer }) => ({
+      id: this.userId(viewer.screen_name),
+      name: viewer.name,
+      screen_name: viewer.screen_name,
+      created_at: viewer.joined_at,
+      updated_at: viewer.joined_at,
+      icon: '',
+      email: viewer.email,
+      ...(url.searchParams.get('include') === 'teams' ? { teams: [this.toTeam()] } : {}),
+    }));
+    route('GET', '/teams', ({ url }) => paginate([this.toTeam()], url, 'teams'));
+    route('GET', team, () => this.toTeam());
+    route('GET', `${team}/stats`, () => this.stats());
+
+    // Members
+    route('GET', `${team}/members`, ({ url, viewer }) => {
+      const members = [...this.members.values()].map(member => this.toMember(member, viewer));
+      const sort = url.searchParams.get('sort') ?? 'posts_count';
+      const key = sort === 'joined' ? 'joined_at' : sort === 'last_accessed' ? 'last_accessed_at' : 'posts_count';
+      this.sortBy(members, member => member[key], url.searchParams.get('order'));
+      return paginate(members, url, 'members');
+    });
+    route('GET', `${team}/members/([^/]+)`, ({ params: [id], viewer }) =>
+      this.toMember(this.findMember(id), viewer));
+    route('DELETE', `${team}/members/([^/]+)`, ({ params: [id], viewer }) => {
+      this.requireOwner(viewer);
+      const member = this.findMember(id);
+      // Keep former members so their posts and comments still have an author
+      this.members.delete(member.screen_name);
+      this.formerMembers.set(member.screen_name, member);
+    });
+
+    // Posts
+    route('GET', `${team}/posts`, ({ url, viewer }) => {
+      const q = url.searchParams.get('q');
+      const node = q ? this.parseQuery(q) : null;
+      const posts = [...this.posts.values()].filter(post => !node || this.matches(post, node));
+      const sort = url.searchParams.get('sort') ?? 'updated';
+      this.sortBy(posts, post => this.sortKey(post, sort), url.searchParams.get('order'));
+      return paginate(posts.map(post => this.toPost(post, viewer, url)), url, 'posts');
+    });
+    route('GET', `${team}/posts/(\\d+)`, ({ params: [number], url, viewer }) =>
+      this.toPost(this.findPost(Number(number)), viewer, url));
+    route('POST', `${team}/posts`, ({ body, viewer }) => {
+      const params: CreatePostParams | undefined = body.post;
+      if (!params?.name) {
+        throw badRequest('name is required');
+      }
+      return this.toPost(this.createStoredPost(params, this.actingUser(viewer, params.user)), viewer);
+    }, 201);
+    route('PATCH', `${team}/posts/(\\d+)`, ({ params: [number], body, viewer }) => {
+      const params: UpdatePostParams | undefined = body.post;
+      if (!params) {
+        throw badRequest('post is required');
+      }
+      const post = this.findPost(Number(number));
+      const overlapped = this.updateStoredPost(post, params, this.actingUser(viewer, params.updated_by));
+      return { ...this.toPost(post, viewer), ...(params.original_revision ? { overlapped } : {}) };
+    });
+    route('DELETE', `${team}/posts/(\\d+)`, ({ params: [number] }) => {
+      const post = this.findPost(Number(number));
+      this.posts.delete(post.number);
+      for (const comment of this.comments.values()) {
+        if (comment.post_number === post.number) {
+          this.comments.delete(comment.id);
+        }
+      }
+    });
+
+    // Comments
+    route('GET', `${team}/posts/(\\d+)/comments`, ({ params: [number], url, viewer }) => {
+      const post = this.findPost(Number(number));
+      return paginate(this.commentsOf(post).map(comment => this.toComment(comment, viewer)), url, 'comments');
+    });
+    route('POST', `${team}/posts/(\\d+)/comments`, ({ params: [number], body, viewer }) => {
+      if (typeof body.comment?.body_md !== 'string') {
+        throw badRequest('body_md is required');
+      }
+      const post = this.findPost(Number(number));
+      const author = this.actingUser(viewer, body.comment.user);
+      return this.toComment(this.createStoredComment(post, body.comment.body_md, author), viewer);
+    }, 201);
+    route('GET', `${team}/comments`, ({ url, viewer }) => {
+      const comments = [...this.comments.values()].sort((a, b) => b.id - a.id);
+      return paginate(comments.map(comment => this.toComment(comment, viewer)), url, 'comments');
+    });
+    route('GET', `${team}/comments/(\\d+)`, ({ params: [id], url, viewer }) =>
+      this.toComment(this.findComment(Number(id)), viewer, url));
+    route('PATCH', `${team}/comments/(\\d+)`, ({ params: [id], body, viewer }) => {
+      const comment = this.findComment(Number(id));
+      this.requireAuthor(viewer, comment.created_by);
+      if (typeof body.comment?.body_md !== 'string') {
+        throw badRequest('body_md is required');
+      }
+      comment.body_md = body.comment.body_md;
+      comment.updated_at = this.timestamp();
+      return this.toComment(comment, viewer);
+    });
+    route('DELETE', `${team}/comments/(\\d+)`, ({ params: [id], viewer }) => {
+      const comment = this.findComment(Number(id));
+      this.requireAuthor(viewer, comment.created_by);
+      this.comments.delete(comment.id);
+    });
+
+    // Stars and watches
+    route('GET', `${team}/posts/(\\d+)/stargazers`, ({ params: [number], url, viewer }) =>
+      paginate(this.toStars(this.findPost(Number(number)).stars, viewer), url, 'stargazers'));
+    route('POST', `${team}/posts/(\\d+)/star`, ({ params: [number], body, viewer }) => {
+      this.addStar(this.findPost(Number(number)).stars, viewer, body.body);
+    });
+    route('DELETE', `${team}/posts/(\\d+)/star`, ({ params: [number], viewer }) => {
+      this.removeStar(this.findPost(Number(number)).stars, viewer);
+    });
+    route('GET', `${team}/comments/(\\d+)/stargazers`, ({ params: [id], url, viewer }) =>
+      paginate(this.toStars(this.findComment(Number(id)).stars, viewer), url, 'stargazers'));
+    route('POST', `${team}/comments/(\\d+)/star`, ({ params: [id], body, viewer }) => {
+      this.addStar(this.findComment(Number(id)).stars, viewer, body.body);
+    });
+    route('DELETE', `${team}/comments/(\\d+)/star`, ({ params: [id], viewer }) => {
+      this.removeStar(this.findComment(Number(id)).stars, viewer);
+    });
+    route('GET', `${team}/posts/(\\d+)/watchers`, ({ params: [number], url, viewer }) => {
+      const watchers: Watcher[] = this.findPost(Number(number)).watchers.map(watch => ({
+        created_at: watch.created_at,
+        user: this.toUser(this.member(watch.screen_name), viewer),
+      }));
+      return paginate(watchers, url, 'watchers');
+    });
+    route('POST', `${team}/posts/(\\d+)/watch`, ({ params: [number], viewer }) => {
+      this.addStar(this.findPost(Number(number)).watchers, viewer);
+    });
+    route('DELETE', `${team}/posts/(\\d+)/watch`, ({ params: [number], viewer }) => {
+      this.removeStar(this.findPost(Number(number)).watchers, viewer);
+    });
+
+    // Categories and tags
+    route('POST', `${team}/categories/batch_move`, ({ body }) => {
+      if (typeof body.from !== 'string' || typeof body.to !== 'string') {
+        throw badRequest('from and to are required');
+      }
+      let count = 0;
+      for (const post of this.posts.values()) {
+        if (isDescendantCategory(post.category, body.from, true)) {
+          const rest = splitCategory(post.category).slice(splitCategory(body.from).length);
+          post.category = joinCategory(body.to, ...rest) || null;
+          count++;
+        }
+      }
+      return { count, from: body.from, to: body.to };
+    });
+    route('GET', `${team}/tags`, ({ url }) => paginate(this.tags(), url, 'tags'));
+
+    // Invitations
+    route('GET', `${team}/invitation`, ({ viewer }) => {
+      this.requireOwner(viewer);
+      return { url: this.invitationUrl() };
+    });
+    route('POST', `${team}/invitation_regenerator`, ({ viewer }) => {
+      this.requireOwner(viewer);
+      this.invitationUrlVersion++;
+      return { url: this.invitationUrl() };
+    });
+    route('GET', `${team}/invitations`, ({ url, viewer }) => {
+      this.requireOwner(viewer);
+      return paginate([...this.invitations.values()], url, 'invitations');
+    });
+    route('POST', `${team}/invitations`, ({ body, viewer }) => {
+      this.requireOwner(viewer);
+      const emails: unknown = body.member?.emails;
+      if (!Array.isArray(emails) || emails.length === 0) {
+        throw badRequest('emails are required');
+      }
+      const expiresAt = new Date(this.now().getTime() + INVITATION_TTL_MS).toISOString();
+      const invitations = emails.map(email => {
+        const code = `invitation${this.nextInvitationId++}`;
+        const invitation: Invitation = {
+          email: String(email),
+          code,
+          expires_at: expiresAt,
+          url: `https://${this.teamName}.esa.io/team/invitations/${code}/join`,
+        };
+        this.invitations.set(code, invitation);
+        return invitation;
+      });
+      return { invitations };
+    }, 201);
+    route('DELETE', `${team}/invitations/([^/]+)`, ({ params: [code], viewer }) => {
+      this.requireOwner(viewer);
+      if (!this.invitations.delete(code)) {
+        throw notFound();
+      }
+    });
+
+    // Emojis
+    route('GET', `${team}/emojis`, () => ({ emojis: [...this.emojis.values()] }));
+    route('POST', `${team}/emojis`, ({ body }) => {
+      const field = (name: string) => body instanceof FormData ? body.get(`emoji[${name}]`) : body.emoji?.[name];
+      const code = field('code');
+      const originCode = field('origin_code');
+      if (typeof code !== 'string' || code === '') {
+        throw badRequest('code is required');
+      }
+      if (this.emojis.has(code)) {
+        throw badRequest(`Emoji :${code}: already exists`);
+      }
+      if (typeof originCode === 'string' && originCode !== '') {
+        const origin = this.emojis.get(originCode);
+        if (!origin) {
+          throw badRequest(`Emoji :${originCode}: does not exist`);
+        }
+        this.emojis.set(code, { ...origin, code, aliases: [] });
+        origin.aliases.push(code);
+      } else if (field('image')) {
+        this.emojis.set(code, {
+          code,
+          aliases: [],
+          category: 'Custom',
+          raw: null,
+          url: `https://${this.teamName}.esa.io/emojis/${code}.png`,
+        });
+      } else {
+        throw badRequest('image or origin_code is required');
+      }
+      return { code };
+    }, 201);
+    route('DELETE', `${team}/emojis/([^/]+)`, ({ params: [code] }) => {
+      if (!this.emojis.delete(code)) {
+        throw notFound();
+      }
+    });
+  }
+
+  /**
+   * Answer a request to the OAuth endpoints, which live outside /v1 and report
+   * errors as { error, error_description }
+   */
+  private async handleOAuth(request: Request, url: URL): Promise<Response> {
+    const method = request.method.toUpperCase();
+    const path = url.pathname.replace(/\/+$/, '');
+    const json = (status: number, data: unknown) => new Response(JSON.stringify(data), {
+      status,
+      headers: { 'Content-Type': 'application/json; charset=utf-8' },
+    });
+    const oauthError = (status: number, error: string, description: string) =>
+      json(status, { error, error_description: description });
+
+    if (method === 'GET' && path === '/oauth/authorize') {
+      const query = url.searchParams;
+      const application = this.oauthApplications.get(query.get('client_id') ?? '');
+      if (!application) {
+        return oauthError(401, 'invalid_client', 'Unknown client');
+      }
+      if (query.get('redirect_uri') !== application.redirect_uri) {
+        return oauthError(400, 'invalid_redirect_uri', 'The redirect URI does not match the application');
+      }
+      if (query.get('response_type') !== 'code') {
+        return oauthError(400, 'unsupported_response_type', 'Only the code response type is supported');
+      }
+      const challengeMethod = query.get('code_challenge_method');
+      if (query.has('code_challenge') && challengeMethod !== 'S256') {
+        return oauthError(400, 'invalid_request', 'Only the S256 code challenge method is supported');
+      }
+
+      const code = randomBytes(16).toString('hex');
+      this.authorizationCodes.set(code, {
+        client_id: application.client_id,
+        redirect_uri: application.redirect_uri,
+        screen_name: this.owner().screen_name,
+        scopes: (query.get('scope') || 'read').split(/\s+/),
+        code_challenge: query.get('code_challenge'),
+      });
+      const location = new URL(application.redirect_uri);
+      location.searchParams.set('code', code);
+      if (query.has('state')) {
+        location.searchParams.set('state', query.get('state')!);
+      }
+      return new Response(null, { status: 302, headers: { Location: location.toString() } });
+    }
+
+    if (method === 'GET' && path === '/oauth/token/info') {
+      const token = this.oauthTokens.get(request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') ?? '');
+      if (!token) {
+        return oauthError(401, 'invalid_token', 'The access token is invalid');
+      }
+      const userId = this.userId(token.screen_name);
+      return json(200, {
+        resource_owner_id: userId,
+        scope: token.scopes,
+        expires_in_seconds: null,
+        application: { uid: token.client_id },
+        created_at: token.created_at,
+        user: { id: userId },
+      });
+    }
+
+    if (method !== 'POST' || (path !== '/oauth/token' && path !== '/oauth/revoke')) {
+      return oauthError(404, 'not_found', 'Not found');
+    }
+
+    const contentType = request.headers.get('content-type') ?? '';
+    const text = await request.text();
+    let form: Record<string, string>;
+    if (contentType.includes('json')) {
+      try {
+        form = JSON.parse(text || '{}');
+      } catch {
+        return oauthError(400, 'invalid_request', 'Invalid JSON body');
+      }
+      if (typeof form !== 'object' || form === null || Array.isArray(form)) {
+        return oauthError(400, 'invalid_request', 'The request body must be a JSON object');
+      }
+    } else {
+      form = Object.fromEntries(new URLSearchParams(text));
+    }
+    const application = this.oauthApplications.get(form.client_id ?? '');
+    if (!application || (application.client_secret !== undefined && form.client_secret !== application.client_secret)) {
+      return oauthError(401, 'invalid_client', 'Client authentication failed');
+    }
+
+    if (path === '/oauth/revoke') {
+      const token = this.oauthTokens.get(form.token ?? '');
+      if (token?.client_id === application.client_id) {
+        this.oauthTokens.delete(form.token);
+        this.tokens.delete(form.token);
+      }
+      return json(200, {});
+    }
+
+    if (form.grant_type !== 'authorization_code') {
+      return oauthError(400, 'unsupported_grant_type', 'Only the authorization_code grant is supported');
+    }
+    const grant = this.authorizationCodes.get(form.code ?? '');
+    // A code can be used once, even when the exchange fails
+    this.authorizationCodes.delete(form.code ?? '');
+    if (!grant || grant.client_id !== application.client_id || grant.redirect_uri !== form.redirect_uri) {
+      return oauthError(400, 'invalid_grant', 'The authorization code is invalid');
+    }
+    if (grant.code_challenge !== null) {
+      const challenge = createHash('sha256').update(form.code_verifier ?? '').digest('base64url');
+      if (challenge !== grant.code_challenge) {
+        return oauthError(400, 'invalid_grant', 'The code verifier does not match the code challenge');
+      }
+    }
+
+    const accessToken = randomBytes(32).toString('hex');
+    const createdAt = Math.floor(this.now().getTime() / 1000);
+    this.tokens.set(accessToken, grant.screen_name);
+    this.oauthTokens.set(accessToken, {
+      client_id: application.client_id,
+      screen_name: grant.screen_name,
+      scopes: grant.scopes,
+      created_at: createdAt,
+    });
+    return json(200, {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      scope: grant.scopes.join(' '),
+      created_at: createdAt,
+    });
+  }
+
+  /**
+   * Current time as an ISO 8601 string
+   */
+  private timestamp(): string {
+    return this.now().toISOString();
+  }
+
+  private userId(screenName: string): number {
+    return [...this.members.keys()].indexOf(screenName) + 1;
+  }
+
+  private owner(): StoredMember {
+    return [...this.members.values()].find(member => member.role === 'owner') ?? this.members.values().next().value!;
+  }
+
+  private member(screenName: string): StoredMember {
+    const member = this.members.get(screenName) ?? this.formerMembers.get(screenName);
+    if (!member) {
+      throw new Error(`Unknown member: ${screenName}`);
+    }
+    return member;
+  }
+
+  private findMember(screenNameOrEmail: string): StoredMember {
+    const member = [...this.members.values()]
+      .find(candidate => candidate.screen_name === screenNameOrEmail || candidate.email === screenNameOrEmail);
+    if (!member) {
+      throw notFound();
+    }
+    return member;
+  }
+
+  private findPost(postNumber: number): StoredPost {
+    const post = this.posts.get(postNumber);
+    if (!post) {
+      throw notFound();
+    }
+    return post;
+  }
+
+  private findComment(commentId: number): StoredComment {
+    const comment = this.comments.get(commentId);
+    if (!comment) {
+      throw notFound();
+    }
+    return comment;
+  }
+
+  private requireOwner(viewer: StoredMember): void {
+    if (viewer.role !== 'owner') {
+      throw forbidden();
+    }
+  }
+
+  private requireAuthor(viewer: StoredMember, screenName: string): void {
+    if (viewer.screen_name !== screenName) {
+      throw forbidden();
+    }
+  }
+
+  /**
+   * Resolve the user a write is made as; only owners may act as someone else
+   */
+  private actingUser(viewer: StoredMember, screenName: string | undefined): StoredMember {
+    if (screenName === undefined || screenName === viewer.screen_name) {
+      return viewer;
+    }
+    this.requireOwner(viewer);
+    return this.findMember(screenName);
+  }
+
+  private createStoredPost(params: CreatePostParams, author: StoredMember): StoredPost {
+    const template = params.template_post_id === undefined ? undefined : this.findPost(params.template_post_id);
+    const timestamp = this.timestamp();
+    const body_md = params.body_md ?? template?.body_md ?? '';
+    const message = params.message ?? '';
+    const post: StoredPost = {
+      number: this.nextPostNumber++,
+      name: params.name,
+      category: normalizeCategory(params.category ?? template?.category) || null,
+      tags: params.tags ?? template?.tags ?? [],
+      wip: params.wip ?? true,
+      body_md,
+      message,
+      created_at: timestamp,
+      updated_at: timestamp,
+      created_by: author.screen_name,
+      updated_by: author.screen_name,
+      revisions: [{ number: 1, body_md, message, user: author.screen_name, created_at: timestamp }],
+      stars: [],
+      // Authors watch their own posts
+      watchers: [{ screen_name: author.screen_name, body: null, created_at: timestamp }],
+    };
+    this.posts.set(post.number, post);
+    return post;
+  }
+
+  /**
+   * Apply an update, merging it with concurrent changes when original_revision is given
+   * @returns Whether the merge left conflict markers in the body
+   */
+  private updateStoredPost(post: StoredPost, params: UpdatePostParams, author: StoredMember): boolean {
+    let overlapped = false;
+    if (params.body_md !== undefined) {
+      const original = params.original_revision;
+      const merged = original && original.number !== post.revisions.length
+        ? mergeBody(original.body_md, post.body_md, params.body_md)
+        : { body: params.body_md, overlapped: false };
+      post.body_md = merged.body;
+      overlapped = merged.overlapped;
+    }
+    if (params.name !== undefined) {
+      post.name = params.name;
+    }
+    if (params.category !== undefined) {
+      post.category = normalizeCategory(params.category) || null;
+    }
+    if (params.tags !== undefined) {
+      post.tags = params.tags;
+    }
+    if (params.wip !== undefined) {
+      post.wip = params.wip;
+    }
+
+    const timestamp = this.timestamp();
+    post.message = params.message ?? '';
+    post.updated_at = timestamp;
+    post.updated_by = author.screen_name;
+    post.revisions.push({
+      number: post.revisions.length + 1,
+      body_md: post.body_md,
+      message: post.message,
+      user: author.screen_name,
+      created_at: timestamp,
+    });
+    return overlapped;
+  }
+
+  private createStoredComment(post: StoredPost, body_md: string, author: StoredMember): StoredComment {
+    const timestamp = this.timestamp();
+    const comment: StoredComment = {
+      id: this.nextCommentId++,
+      post_number: post.number,
+      body_md,
+      created_at: timestamp,
+      updated_at: timestamp,
+      created_by: author.screen_name,
+      stars: [],
+    };
+    this.comments.set(comment.id, comment);
+    return comment;
+  }
+
+  private commentsOf(post: StoredPost): StoredComment[] {
+    return [...this.comments.values()].filter(comment => comment.post_number === post.number);
+  }
+
+  private addStar(stars: StoredStar[], viewer: StoredMember, body?: string): void {
+    if (!stars.some(star => star.screen_name === viewer.screen_name)) {
+      stars.push({ screen_name: viewer.screen_name, body: body ?? null, created_at: this.timestamp() });
+    }
+  }
+
+  private removeStar(stars: StoredStar[], viewer: StoredMember): void {
+    const index = stars.findIndex(star => star.screen_name === viewer.screen_name);
+    if (index === -1) {
+      throw notFound();
+    }
+    stars.splice(index, 1);
+  }
+
+  /**
+   * Parse a search query, answering a malformed one with 400 like esa
+   */
+  private parseQuery(q: string): EsaQueryNode | null {
+    try {
+      return parseQueryNode(q);
+    } catch (error) {
+      if (isEsaQuerySyntaxError(error)) {
+        throw badRequest(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether a post matches a search query
+   */
+  private matches(post: StoredPost, node: EsaQueryNode): boolean {
+    const contains = (text: string, value: string) => text.toLowerCase().includes(value.toLowerCase());
+    switch (node.type) {
+      case 'and':
+        return node.operands.every(operand => this.matches(post, operand));
+      case 'or':
+        return node.operands.some(operand => this.matches(post, operand));
+      case 'not':
+        return !this.matches(post, node.operand);
+      case 'term':
+        return contains(post.name, node.value) || contains(post.body_md, node.value);
+    }
+
+    const { name, operator, value } = node;
+    switch (name) {
+      case 'in':
+        return isDescendantCategory(post.category, value, true);
+      case 'on':
+        return normalizeCategory(post.category) === normalizeCategory(value);
+      case 'category':
+        return contains(post.category ?? '', value);
+      case 'title':
+      case 'name':
+        return contains(post.name, value);
+      case 'body':
+        return contains(post.body_md, value);
+      case 'tag':
+        return value === '' ? post.tags.length === 0 : post.tags.includes(value);
+      case 'wip':
+        return String(post.wip) === value;
+      case 'user':
+        return post.created_by === value;
+      case 'updated_by':
+        return post.updated_by === value;
+      case 'stars':
+        return compare(post.stars.length, operator, Number(value));
+      case 'watches':
+        return compare(post.watchers.length, operator, Number(value));
+      case 'comments':
+        return compare(this.commentsOf(post).length, operator, Number(value));
+      case 'created':
+      case 'updated':
+        // Compare only as many characters as the query gives, so created:2024-01 matches the whole month
+        return compare(post[`${name}_at`].slice(0, value.length), operator, value);
+      default:
+        return contains(post.name, `${name}:${value}`) || contains(post.body_md, `${name}:${value}`);
+    }
+  }
+
+  private sortKey(post: StoredPost, sort: string): string | number {
+    switch (sort) {
+      case 'created':
+        return post.created_at;
+      case 'number':
+        return post.number;
+      case 'stars':
+        return post.stars.length;
+      case 'watches':
+        return post.watchers.length;
+      case 'comments':
+        return this.commentsOf(post).length;
+      default:
+        return post.updated_at;
+    }
+  }
+
+  /**
+   * Sort in place, newest first unless order is asc; ties keep insertion order
+   */
+  private sortBy<T>(items: T[], key: (item: T) => string | number, order: string | null): void {
+    const direction = order === 'asc' ? 1 : -1;
+    items.sort((a, b) => {
+      const left = key(a);
+      const right = key(b);
+      return left < right ? -direction : left > right ? direction : 0;
+    });
+  }
+
+  private tags(): Tag[] {
+    const counts = new Map<string, number>();
+    for (const post of this.posts.values()) {
+      for (const tag of post.tags) {
+        counts.set(tag, (counts.get(tag) ?? 0) + 1);
+      }
+    }
+    return [...counts]
+      .map(([name, posts_count]) => ({ name, posts_count }))
+      .sort((a, b) => b.posts_count - a.posts_count || a.name.localeCompare(b.name));
+  }
+
+  private invitationUrl(): string {
+    return `https://${this.teamName}.esa.io/team/invitations/member-${this.invitationUrlVersion}/join`;
+  }
+
+  private stats(): Stats {
+    const posts = [...this.posts.values()];
+    const wip = posts.filter(post => post.wip).length;
+    return {
+      members: this.members.size,
+      posts: posts.length,
+      posts_wip: wip,
+      posts_shipped: posts.length - wip,
+      comments: this.comments.size,
+      stars: posts.reduce((sum, post) => sum + post.stars.length, 0)
+        + [...this.comments.values()].reduce((sum, comment) => sum + comment.stars.length, 0),
+      daily_active_users: this.members.size,
+      weekly_active_users: this.members.size,
+      monthly_active_users: this.members.size,
+    };
+  }
+
+  private toTeam(): Team {
+    return {
+      name: this.teamName,
+      privacy: 'closed',
+      description: '',
+      icon: '',
+      url: `https://${this.teamName}.esa.io/`,
+    };
+  }
+
+  private toUser(member: StoredMember, viewer: StoredMember): User {
+    return { myself: member === viewer, name: member.name, screen_name: member.screen_name, icon: '' };
+  }
+
+  private toMember(member: StoredMember, viewer: StoredMember): Member {
+    return {
+      ...this.toUser(member, viewer),
+      email: member.email,
+      role: member.role,
+      posts_count: [...this.posts.values()].filter(post => post.created_by === member.screen_name).length,
+      joined_at: member.joined_at,
+      last_accessed_at: member.last_accessed_at,
+    };
+  }
+
+  private toStars(stars: StoredStar[], viewer: StoredMember): Star[] {
+    return stars.map(star => ({
+      created_at: star.created_at,
+      body: star.body,
+      user: this.toUser(this.member(star.screen_name), viewer),
+    }));
+  }
+
+  /**
+   * Serialize a post; body_html is not rendered and is always empty
+   * @param url Request URL, whose include parameter embeds comments or stargazers
+   */
+  private toPost(post: StoredPost, viewer: StoredMember, url?: URL): Post {
+    const include = (url?.searchParams.get('include') ?? '').split(',');
+    const comments = this.commentsOf(post);
+    const tasks = parseTasks(post.body_md);
+    return {
+      number: post.number,
+      name: post.name,
+      full_name: formatFullName({ category: post.category, name: post.name, tags: post.tags }),
+      wip: post.wip,
+      body_md: post.body_md,
+      body_html: '',
+      created_at: post.created_at,
+      message: post.message,
+      url: `https://${this.teamName}.esa.io/posts/${post.number}`,
+      updated_at: post.updated_at,
+      tags: [...post.tags],
+      category: post.category,
+      revision_number: post.revisions.length,
+      created_by: this.toUser(this.member(post.created_by), viewer),
+      updated_by: this.toUser(this.member(post.updated_by), viewer),
+      kind: 'stock',
+      comments_count: comments.length,
+      tasks_count: tasks.length,
+      done_tasks_count: tasks.filter(task => task.done).length,
+      stargazers_count: post.stars.length,
+      watchers_count: post.watchers.length,
+      star: post.stars.some(star => star.screen_name === viewer.screen_name),
+      watch: post.watchers.some(watch => watch.screen_name === viewer.screen_name),
+      ...(include.includes('comments')
+        ? { comments: comments.map(comment => this.toComment(comment, viewer, url)) }
+        : {}),
+      ...(include.includes('stargazers') ? { stargazers: this.toStars(post.stars, viewer) } : {}),
+    } as Post;
+  }
+
+  private toComment(comment: StoredComment, viewer: StoredMember, url?: URL): Comment {
+    const include = (url?.searchParams.get('include') ?? '').split(',');
+    return {
+      id: comment.id,
+      body_md: comment.body_md,
+      body_html: '',
+      created_at: comment.created_at,
+      updated_at: comment.updated_at,
+      url: `https://${this.teamName}.esa.io/posts/${comment.post_number}#comment-${comment.id}`,
+      created_by: this.toUser(this.member(comment.created_by), viewer),
+      stargazers_count: comment.stars.length,
+      star: comment.stars.some(star => star.screen_name === viewer.screen_name),
+      ...(include.some(value => value.endsWith('stargazers'))
+        ? { stargazers: this.toStars(comment.stars, viewer) }
+        : {}),
+    } as Comment;
+  }
+}
@@ -0,0 +1,307 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { FetchLike } from './esa-client.js';
+import { EsaFixtureMismatchError } from './errors.js';
+
+/**
+ * Whether a fixture transport captures real traffic or serves it back
+ */
+export type FixtureMode = 'record' | 'replay';
+
+/**
+ * Request as stored in a fixture file
+ */
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  /** Parsed JSON body, form fields, or null without a body */
+  body: unknown;
+}
+
+/**
+ * Response as stored in a fixture file
+ */
+export interface RecordedResponse {
+  status: number;
+  headers: Record<string, string>;
+  /** Parsed JSON body, raw text when the body was not JSON, or null without a body */
+  body: unknown;
+}
+
+/**
+ * Recorded request/response pair
+ */
+export interface FixtureEntry {
+  request: RecordedRequest;
+  response: RecordedResponse;
+}
+
+/**
+ * Contents of a fixture file
+ */
+export interface FixtureFile {
+  version: 1;
+  entries: FixtureEntry[];
+}
+
+/**
+ * Options for a fixture transport
+ */
+export interface FixtureTransportOptions {
+  mode: FixtureMode;
+  /** Fixture file to write when recording or read when replaying */
+  file: string;
+  /** fetch implementation that reaches the API while recording (defaults to the global fetch) */
+  fetch?: FetchLike;
+  /** Strings to replace in recorded requests and responses, such as the real team name */
+  replacements?: Record<string, string>;
+}
+
+const REDACTED = '[REDACTED]';
+const REDACTED_EMAIL = 'redacted@example.com';
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+const SENSITIVE_HEADERS = ['authorization', 'cookie'];
+// Response headers the client reads; the rest, such as Set-Cookie, are dropped
+const RECORDED_RESPONSE_HEADERS = [
+  'content-type', 'etag', 'last-modified', 'retry-after',
+  'x-ratelimit-limit', 'x-ratelimit-remaining', 'x-ratelimit-reset',
+];
+
+/**
+ * Redact email addresses and apply replacements to every string in a value
+ */
+function redact(value: unknown, replacements: Record<string, string>): unknown {
+  if (typeof value === 'string') {
+    let text = value.replace(EMAIL_PATTERN, REDACTED_EMAIL);
+    for (const [from, to] of Object.entries(replacements)) {
+      text = text.split(from).join(to);
+    }
+    return text;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, replacements));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redact(item, replacements)]));
+  }
+  return value;
+}
+
+/**
+ * Parse a body as JSON, falling back to the raw text
+ */
+function parseBody(text: string): unknown {
+  if (text === '') {
+    return null;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Convert a fetch request body into its recorded form
+ */
+function recordRequestBody(body: RequestInit['body']): unknown {
+  if (body instanceof FormData) {
+    const fields: Record<string, string> = {};
+    body.forEach((value, key) => {
+      fields[key] = typeof value === 'string' ? value : `[file ${value.name}, ${value.size} bytes]`;
+    });
+    return fields;
+  }
+  return typeof body === 'string' ? parseBody(body) : null;
+}
+
+/**
+ * Convert a fetch request into its recorded form
+ */
+function recordRequest(url: string, init: RequestInit, replacements: Record<string, string>): RecordedRequest {
+  const headers: Record<string, string> = {};
+  new Headers(init.headers).forEach((value, name) => {
+    headers[name] = SENSITIVE_HEADERS.includes(name) ? REDACTED : value;
+  });
+  return redact({
+    method: (init.method ?? 'GET').toUpperCase(),
+    url,
+    headers,
+    body: recordRequestBody(init.body),
+  }, replacements) as RecordedRequest;
+}
+
+/**
+ * Flatten a value into dotted paths and JSON leaves for diffing
+ */
+function flatten(value: unknown, prefix: string, output: Map<string, string>): Map<string, string> {
+  if (value && typeof value === 'object' && Object.keys(value).length > 0) {
+    for (const [key, item] of Object.entries(value)) {
+      flatten(item, prefix === '' ? key : `${prefix}.${key}`, output);
+    }
+  } else {
+    output.set(prefix, JSON.stringify(value));
+  }
+  return output;
+}
+
+/**
+ * Describe how a request differs from the recorded one
+ * @returns Diff lines, empty when the requests match
+ */
+function diffRequests(expected: RecordedRequest, actual: RecordedRequest): string[] {
+  const diff: string[] = [];
+  if (expected.method !== actual.method || expected.url !== actual.url) {
+    diff.push(`- ${expected.method} ${expected.url}`, `+ ${actual.method} ${actual.url}`);
+  }
+
+  const expectedBody = flatten(expected.body, 'body', new Map());
+  const actualBody = flatten(actual.body, 'body', new Map());
+  for (const key of new Set([...expectedBody.keys(), ...actualBody.keys()])) {
+    const before = expectedBody.get(key);
+    const after = actualBody.get(key);
+    if (before !== after) {
+      diff.push(
+        `  ${key}:`,
+        ...(before === undefined ? [] : [`-   ${before}`]),
+        ...(after === undefined ? [] : [`+   ${after}`])
+      );
+    }
+  }
+  return diff;
+}
+
+/**
+ * Transport that records real API traffic into a fixture file and replays it without a network
+ *
+ * Pass its fetch to EsaClient. While recording, every request is forwarded and the
+ * request/response pair is kept with the Authorization header and email addresses
+ * redacted; call save to write the file. While replaying, requests must arrive in the
+ * recorded order, and one that differs throws an EsaFixtureMismatchError with a diff.
+ * The client passes the mismatch through without retrying it. Replayed error
+ * responses are retried like real ones, so disable retries on the replaying client.
+ *
+ * ```typescript
+ * const transport = await FixtureTransport.open({ mode: 'replay', file: 'test/fixtures/posts.json' });
+ * const client = new EsaClient({ token: 'token', teamName: 'test-team', fetch: transport.fetch, retry: false });
+ * ```
+ */
+export class FixtureTransport {
+  public readonly mode: FixtureMode;
+  public readonly file: string;
+  private upstream: FetchLike | undefined;
+  private replacements: Record<string, string>;
+  private entries: FixtureEntry[];
+  private position = 0;
+
+  private constructor(options: FixtureTransportOptions, entries: FixtureEntry[]) {
+    this.mode = options.mode;
+    this.file = options.file;
+    this.upstream = options.fetch;
+    this.replacements = options.replacements ?? {};
+    this.entries = entries;
+  }
+
+  /**
+   * Create a transport, reading the fixture file when replaying
+   * @param options Mode, file and recording options
+   */
+  public static async open(options: FixtureTransportOptions): Promise<FixtureTransport> {
+    if (options.mode === 'record') {
+      return new FixtureTransport(options, []);
+    }
+    const fixture: FixtureFile = JSON.parse(await fs.readFile(options.file, 'utf8'));
+    if (fixture.version !== 1) {
+      throw new Error(`Unsupported fixture version ${fixture.version} in ${options.file}`);
+    }
+    return new FixtureTransport(options, fixture.entries);
+  }
+
+  /**
+   * fetch implementation to pass to EsaClient
+   */
+  public readonly fetch: FetchLike = (url, init) =>
+    this.mode === 'record' ? this.record(url, init) : this.replay(url, init);
+
+  /**
+   * Get a copy of the recorded or loaded entries
+   */
+  public getEntries(): FixtureEntry[] {
+    return structuredClone(this.entries);
+  }
+
+  /**
+   * Write the recorded entries to the fixture file
+   */
+  public async save(): Promise<void> {
+    if (this.mode !== 'record') {
+      throw new Error('Only a recording transport can be saved');
+    }
+    const fixture: FixtureFile = { version: 1, entries: this.entries };
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.writeFile(this.file, `${JSON.stringify(fixture, null, 2)}\n`);
+  }
+
+  /**
+   * Check that every recorded request was replayed
+   * @throws EsaFixtureMismatchError when some recorded requests were never made
+   */
+  public assertDone(): void {
+    const remaining = this.entries.slice(this.position);
+    if (this.mode === 'replay' && remaining.length > 0) {
+      throw new EsaFixtureMismatchError(
+        `${remaining.length} recorded request${remaining.length === 1 ? ' was' : 's were'} never made (${this.file})`,
+        this.position,
+        remaining.map(entry => `- ${entry.request.method} ${entry.request.url}`)
+      );
+    }
+  }
+
+  private async record(url: string, init: RequestInit): Promise<Response> {
+    const request = recordRequest(url, init, this.replacements);
+    const response = await (this.upstream ?? fetch)(url, init);
+    const text = await response.text();
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      if (RECORDED_RESPONSE_HEADERS.includes(name)) {
+        headers[name] = value;
+      }
+    });
+    this.entries.push({
+      request,
+      response: redact({ status: response.status, headers, body: parseBody(text) }, this.replacements) as RecordedResponse,
+    });
+
+    // The body has been read, so hand the client an unredacted copy
+    return new Response(text === '' ? null : text, { status: response.status, headers: response.headers });
+  }
+
+  private async replay(url: string, init: RequestInit): Promise<Response> {
+    const request = recordRequest(url, init, this.replacements);
+    const index = this.position;
+    const entry = this.entries[index];
+    if (!entry) {
+      throw new EsaFixtureMismatchError(
+        `Request #${index + 1} was not recorded; ${this.entries.length} requests are in ${this.file}`,
+        index,
+        [`+ ${request.method} ${request.url}`]
+      );
+    }
+
+    const diff = diffRequests(entry.request, request);
+    if (diff.length > 0) {
+      throw new EsaFixtureMismatchError(
+        `Request #${index + 1} does not match the recording in ${this.file}; record the fixtures again if this is intended`,
+        index,
+        diff
+      );
+    }
+
+    this.position++;
+    const { status, headers, body } = entry.response;
+    const text = body === null ? null : typeof body === 'string' ? body : JSON.stringify(body);
+    return new Response(status === 204 ? null : text, { status, headers });
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * Value that can appear in front matter
+ */
+export type FrontMatterValue = string | number | boolean | null | Array<string | number | boolean | null>;
+
+/**
+ * Front matter fields
+ */
+export type FrontMatter = Record<string, FrontMatterValue>;
+
+/**
+ * Document split into front matter and body
+ */
+export interface FrontMatterDocument {
+  data: FrontMatter;
+  body: string;
+}
+
+const DELIMITER = '---';
+
+/**
+ * Format a scalar as YAML, quoting strings so they always read back as strings
+ */
+function formatScalar(value: string | number | boolean | null): string {
+  if (typeof value === 'string') {
+    // A JSON string is also a valid double-quoted YAML scalar
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+/**
+ * Parse a YAML scalar from the supported subset
+ */
+function parseScalar(text: string): string | number | boolean | null {
+  const value = text.trim();
+  if (value.startsWith('"')) {
+    return JSON.parse(value);
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (value === '' || value === 'null' || value === '~') {
+    return null;
+  }
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  if (/^-?\d+(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  return value;
+}
+
+/**
+ * Split a flow sequence body on commas outside quotes
+ */
+function splitFlowSequence(text: string): string[] {
+  const items: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      current += char;
+      if (char === '\\' && quote === '"') {
+        current += text[++i] ?? '';
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === ',') {
+      items.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim() !== '') {
+    items.push(current);
+  }
+  return items;
+}
+
+/**
+ * Strip a byte order mark and convert CRLF line endings
+ */
+function normalizeText(text: string): string {
+  return text.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n');
+}
+
+/**
+ * Render front matter and a body as a Markdown document
+ * @param data Front matter fields, written in insertion order
+ * @param body Markdown body
+ */
+export function formatFrontMatter(data: FrontMatter, body: string): string {
+  const lines = Object.entries(data).map(([key, value]) =>
+    Array.isArray(value) ? `${key}: [${value.map(formatScalar).join(', ')}]` : `${key}: ${formatScalar(value)}`
+  );
+  return `${DELIMITER}\n${lines.join('\n')}\n${DELIMITER}\n${body}`;
+}
+
+/**
+ * Set one front matter field, leaving the rest of the document untouched
+ * @param text The document
+ * @param key The field name
+ * @param value The new value
+ * @returns The document with the field replaced, or added when missing
+ */
+export function setFrontMatterField(text: string, key: string, value: FrontMatterValue): string {
+  const line = formatFrontMatter({ [key]: value }, '').split('\n')[1];
+  const normalized = normalizeText(text);
+  const end = normalized.startsWith(`${DELIMITER}\n`) ? normalized.indexOf(`\n${DELIMITER}`, DELIMITER.length) : -1;
+  if (end < 0) {
+    return `${DELIMITER}\n${line}\n${DELIMITER}\n${normalized}`;
+  }
+
+  const lines = end > DELIMITER.length ? normalized.slice(DELIMITER.length + 1, end).split('\n') : [];
+  const index = lines.findIndex(existing => existing.startsWith(`${key}:`));
+  if (index < 0) {
+    lines.push(line);
+  } else {
+    // Drop the items of a block sequence along with its key
+    let next = index + 1;
+    while (next < lines.length && /^\s+-|^-\s/.test(lines[next])) {
+      next++;
+    }
+    lines.splice(index, next - index, line);
+  }
+  return `${DELIMITER}\n${lines.join('\n')}${normalized.slice(end)}`;
+}
+
+/**
+ * Split a Markdown document into front matter and body
+ *
+ * Supports the YAML subset written by formatFrontMatter plus unquoted scalars
+ * and block sequences, which is what hand-edited files usually contain.
+ *
+ * @param text The document
+ * @returns The fields, or empty data when the document has no front matter
+ */
+export function parseFrontMatter(text: string): FrontMatterDocument {
+  const normalized = normalizeText(text);
+  if (!normalized.startsWith(`${DELIMITER}\n`)) {
+    return { data: {}, body: normalized };
+  }
+
+  const end = normalized.indexOf(`\n${DELIMITER}`, DELIMITER.length);
+  if (end < 0) {
+    return { data: {}, body: normalized };
+  }
+
+  const data: FrontMatter = {};
+  let listKey: string | null = null;
+
+  for (const line of normalized.slice(DELIMITER.length + 1, end).split('\n')) {
+    if (line.trim() === '' || line.trimStart().startsWith('#')) {
+      continue;
+    }
+
+    const item = /^\s*-\s*(.*)$/.exec(line);
+    if (item && listKey) {
+      const list = (data[listKey] ?? []) as Array<string | number | boolean | null>;
+      list.push(parseScalar(item[1]));
+      data[listKey] = list;
+      continue;
+    }
+
+    const field = /^([A-Za-z0-9_-]+):\s*(.*)$/.exec(line);
+    if (!field) {
+      continue;
+    }
+    const [, key, value] = field;
+    listKey = null;
+
+    if (value.startsWith('[') && value.trimEnd().endsWith(']')) {
+      data[key] = splitFlowSequence(value.trim().slice(1, -1)).map(parseScalar);
+    } else if (value.trim() === '') {
+      // Either null or the start of a block sequence
+      data[key] = null;
+      listKey = key;
+    } else {
+      data[key] = parseScalar(value);
+    }
+  }
+
+  const bodyStart = normalized.indexOf('\n', end + 1);
+  return { data, body: bodyStart < 0 ? '' : normalized.slice(bodyStart + 1) };
+}
@@ -0,0 +1,101 @@
+import type { CreatePostParams, FullNameParam, UpdatePostParams } from './types.js';
+import { escapeCategorySegment, normalizeCategory, unescapeCategorySegment } from './category.js';
+
+/**
+ * Parts of a post's full name
+ */
+export interface FullNameParts {
+  /** Category path, or null for uncategorized posts */
+  category: string | null;
+  /** Post title with slashes unescaped */
+  name: string;
+  /** Tag names without the leading # */
+  tags: string[];
+  /** Whether the post is WIP */
+  wip: boolean;
+}
+
+// Trailing " (WIP)", accepting full-width parentheses and spaces
+const WIP_SUFFIX = /[\s　]*[(（]WIP[)）]$/;
+// Trailing " #tag", accepting a full-width # and spaces
+const TAG_SUFFIX = /[\s　]+[#＃]([^\s　#＃]+)$/;
+
+/**
+ * Split a full name such as dev/infra/Runbook #ops #oncall (WIP) into its parts
+ * @param fullName The full name, as in Post.full_name
+ */
+export function parseFullName(fullName: string): FullNameParts {
+  let rest = fullName.trim();
+  let wip = false;
+  const tags: string[] = [];
+
+  // Tags and the WIP marker may appear in either order at the end
+  for (;;) {
+    const wipMatch = WIP_SUFFIX.exec(rest);
+    if (wipMatch) {
+      wip = true;
+      rest = rest.slice(0, wipMatch.index);
+      continue;
+    }
+    const tagMatch = TAG_SUFFIX.exec(rest);
+    if (tagMatch) {
+      tags.unshift(tagMatch[1]);
+      rest = rest.slice(0, tagMatch.index);
+      continue;
+    }
+    break;
+  }
+
+  const slash = rest.lastIndexOf('/');
+  const category = slash >= 0 ? normalizeCategory(rest.slice(0, slash)) : '';
+  return {
+    category: category === '' ? null : category,
+    name: unescapeCategorySegment(rest.slice(slash + 1).trim()),
+    tags,
+    wip,
+  };
+}
+
+/**
+ * Build a full name from its parts
+ * @param parts The parts; tags and wip are optional
+ */
+export function formatFullName(parts: Pick<FullNameParts, 'name'> & Partial<FullNameParts>): string {
+  const category = normalizeCategory(parts.category);
+  return [
+    `${category === '' ? '' : `${category}/`}${escapeCategorySegment(parts.name)}`,
+    ...(parts.tags ?? []).map(tag => `#${tag.replace(/^[#＃]/, '')}`),
+    ...(parts.wip ? ['(WIP)'] : []),
+  ].join(' ');
+}
+
+/**
+ * Replace the fullName shortcut with the name, category, tags and wip it describes
+ *
+ * Fields given explicitly alongside fullName take precedence. A full name without
+ * a category moves the post to the root, and one without (WIP) ships it.
+ *
+ * @param params Post parameters that may contain fullName
+ */
+export function expandFullName<T extends Partial<CreatePostParams> | UpdatePostParams>(
+  params: T & Partial<FullNameParam>
+): T {
+  const { fullName, ...rest } = params;
+  if (fullName === undefined) {
+    return rest as T;
+  }
+
+  const parts = parseFullName(fullName);
+  const expanded: Record<string, unknown> = {
+    name: escapeCategorySegment(parts.name),
+    category: parts.category ?? '',
+    tags: parts.tags,
+    wip: parts.wip,
+  };
+  for (const [key, value] of Object.entries(rest)) {
+    if (value !== undefined) {
+      expanded[key] = value;
+    }
+  }
+  return expanded as T;
+}
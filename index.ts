@@ -1,5 +1,112 @@
 // Export main client class
-export { EsaClient, EsaApiError } from './esa-client.js';
+export { EsaClient } from './esa-client.js';
+export type { EsaClientOptions, EsaClientEvents, RequestOptions, FetchLike, EsaTokenProvider } from './esa-client.js';
+
+// Export error classes and type guards
+export * from './errors.js';
+
+// Export pagination helpers
+export { paginatePages, paginateItems, ESA_MAX_PER_PAGE } from './pagination.js';
+export type { PaginateOptions, PageFetcher } from './pagination.js';
+
+// Export retry helpers
+export { DEFAULT_RETRY_OPTIONS, computeRetryDelay, parseRetryAfter } from './retry.js';
+export type { RetryOptions, RetryInfo } from './retry.js';
 
 // Export types
 export * from './types.js';
+
+// Export rate limit helpers
+export { RateLimiter, parseRateLimitHeaders, DEFAULT_THROTTLE_OPTIONS } from './rate-limit.js';
+export type { RateLimitState, ThrottleOptions } from './rate-limit.js';
+
+// Export middleware helpers
+export { composeMiddleware, loggingMiddleware, timingMiddleware } from './middleware.js';
+export type {
+  EsaMiddleware, EsaNext, EsaRequest, EsaResponse, LoggingMiddlewareOptions, RequestTiming
+} from './middleware.js';
+
+// Export logger helpers
+export { silentLogger, consoleLogger } from './logger.js';
+export type { Logger, LogFields } from './logger.js';
+
+// Export search query builder
+export { EsaQuery, quoteQueryValue, stringifyQueryNode } from './query.js';
+export type {
+  EsaQueryNode, EsaTermNode, EsaQualifierNode, EsaNotNode, EsaAndNode, EsaOrNode, EsaComparisonOperator
+} from './query.js';
+
+// Export search query parser
+export { parseQuery, parseQueryNode, normalizeQuery } from './query-parser.js';
+
+// Export post editing helpers
+export { parseConflictHunks, resolveConflicts } from './edit.js';
+export type { EditPostOptions, EditConflictStrategy, PostTransform } from './edit.js';
+
+// Export task list helpers
+export { parseTasks, findTask, setTaskDone } from './tasks.js';
+export type { PostTask, TaskMatcher, TogglePostTaskOptions } from './tasks.js';
+
+// Export template helpers
+export { expandTemplate, expandTemplatePost, dateVariables } from './template.js';
+export type { TemplateContext, CreatePostFromTemplateOptions } from './template.js';
+
+// Export category helpers
+export {
+  CategoryTree, normalizeCategory, splitCategory, joinCategory, parentCategory, isDescendantCategory,
+  escapeCategorySegment, unescapeCategorySegment, toBatchMovePath
+} from './category.js';
+export type { CategoryNode, CategorizedPost, FetchCategoryTreeOptions } from './category.js';
+
+// Export bulk tag operations
+export { renameTag, mergeTags, removeTag, replaceTags, formatTagOperationReport } from './tag-operations.js';
+export type { TagOperationAction, TagOperationEntry, TagOperationOptions } from './tag-operations.js';
+
+// Export full name helpers
+export { parseFullName, formatFullName, expandFullName } from './full-name.js';
+export type { FullNameParts } from './full-name.js';
+
+// Export front matter helpers
+export { formatFrontMatter, parseFrontMatter, setFrontMatterField } from './front-matter.js';
+export type { FrontMatter, FrontMatterValue, FrontMatterDocument } from './front-matter.js';
+
+// Export local mirror helpers
+export { syncPosts, loadSyncState, saveSyncState, defaultPostFilePath, formatPostMarkdown } from './sync.js';
+export type { SyncPostsOptions, SyncResult, SyncState, SyncedPostEntry } from './sync.js';
+
+// Export publishing helpers
+export { publishPosts, formatPublishPlan } from './publish.js';
+export type { PublishPostsOptions, PublishEntry, PublishAction } from './publish.js';
+
+// Export response cache
+export { cacheMiddleware, MemoryCacheStore, FileCacheStore } from './cache.js';
+export type { CacheOptions, CacheStore, CacheEntry } from './cache.js';
+
+// Export response validation
+export {
+  validateResponse, responseSchemaFor,
+  userSchema, teamSchema, teamsResponseSchema, teamResponseSchema, statsSchema,
+  memberSchema, membersResponseSchema, postSchema, postsResponseSchema,
+  commentSchema, commentsResponseSchema, starSchema, stargazersResponseSchema,
+  watcherSchema, watchersResponseSchema, batchMoveResponseSchema, tagSchema, tagsResponseSchema,
+  invitationUrlResponseSchema, invitationSchema, invitationsResponseSchema, createInvitationsResponseSchema,
+  emojiSchema, emojisResponseSchema, createEmojiResponseSchema,
+  postItemSchema, postsSearchResultSchema, authenticatedUserSchema
+} from './validation.js';
+export type { ValidationMode, Schema, SchemaIssue } from './validation.js';
+
+// Export OAuth helpers
+export { EsaOAuth, createCodeChallenge } from './oauth.js';
+export type {
+  EsaOAuthOptions, EsaOAuthScope, EsaAuthorizationOptions, EsaAuthorizationRequest, EsaOAuthToken, EsaTokenInfo
+} from './oauth.js';
+
+// Export webhook helpers
+export {
+  EsaWebhookHandler, createNodeWebhookListener, computeEsaSignature, verifyEsaSignature, ESA_SIGNATURE_HEADER
+} from './webhook.js';
+export type {
+  EsaWebhookPayloads, EsaWebhookPayload, EsaWebhookEventKind, EsaWebhookListener, EsaWebhookRequest,
+  EsaWebhookHandlerOptions, NodeWebhookListenerOptions, EsaWebhookBase, EsaPostWebhookPayload,
+  EsaCommentWebhookPayload, EsaMemberWebhookPayload, EsaWebhookPost, EsaWebhookComment, EsaWebhookUser, EsaWebhookIcon
+} from './webhook.js';
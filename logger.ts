@@ -0,0 +1,41 @@
+/**
+ * Structured fields attached to a log entry
+ */
+export interface LogFields {
+  method?: string;
+  path?: string;
+  status?: number;
+  durationMs?: number;
+  retryCount?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Minimal logger interface, compatible with console and winston-style loggers
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * Logger that discards every entry
+ */
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+/**
+ * Logger that writes to the console
+ */
+export const consoleLogger: Logger = {
+  debug: (message, fields) => console.debug(message, ...(fields ? [fields] : [])),
+  info: (message, fields) => console.info(message, ...(fields ? [fields] : [])),
+  warn: (message, fields) => console.warn(message, ...(fields ? [fields] : [])),
+  error: (message, fields) => console.error(message, ...(fields ? [fields] : [])),
+};
@@ -0,0 +1,148 @@
+import type { RequestOptions } from './esa-client.js';
+import { EsaApiError } from './errors.js';
+import { Logger, consoleLogger } from './logger.js';
+
+/**
+ * Outgoing request passed through the middleware chain
+ */
+export interface EsaRequest {
+  /** HTTP method */
+  method: string;
+  /** API path, which may still contain :team_name */
+  path: string;
+  /** Team name substituted for :team_name */
+  teamName: string | null;
+  /** Query parameters for GET requests, otherwise the request body */
+  params: any;
+  /** Request headers */
+  headers: Record<string, string>;
+  /** Per-call request options */
+  options: RequestOptions;
+}
+
+/**
+ * Response returned through the middleware chain
+ */
+export interface EsaResponse<T = any> {
+  /** HTTP status */
+  status: number;
+  /** Response headers */
+  headers: Headers;
+  /** Parsed response body */
+  data: T;
+}
+
+/**
+ * Continue with the rest of the chain
+ */
+export type EsaNext = (request: EsaRequest) => Promise<EsaResponse>;
+
+/**
+ * Middleware that wraps every request, including its retries
+ */
+export type EsaMiddleware = (request: EsaRequest, next: EsaNext) => Promise<EsaResponse>;
+
+/**
+ * Compose middlewares around a terminal handler
+ * @param middlewares Middlewares in the order they see the request
+ * @param terminal Handler that sends the request
+ */
+export function composeMiddleware(middlewares: EsaMiddleware[], terminal: EsaNext): EsaNext {
+  return middlewares.reduceRight<EsaNext>(
+    (next, middleware) => request => middleware(request, next),
+    terminal
+  );
+}
+
+/**
+ * Options for the logging middleware
+ */
+export interface LoggingMiddlewareOptions {
+  /** Where to write log entries (defaults to the console) */
+  logger?: Logger;
+  /** Also log request and response bodies */
+  bodies?: boolean;
+}
+
+/**
+ * Middleware that logs every request and its outcome
+ * @param options Logging options
+ */
+export function loggingMiddleware(options: LoggingMiddlewareOptions = {}): EsaMiddleware {
+  const logger = options.logger ?? consoleLogger;
+
+  return async (request, next) => {
+    const label = `${request.method.toUpperCase()} ${request.path}`;
+    const start = Date.now();
+    logger.debug(`--> ${label}`, {
+      method: request.method,
+      path: request.path,
+      ...(options.bodies ? { body: request.params } : {}),
+    });
+
+    try {
+      const response = await next(request);
+      logger.debug(`<-- ${response.status} ${label}`, {
+        method: request.method,
+        path: request.path,
+        status: response.status,
+        durationMs: Date.now() - start,
+        ...(options.bodies ? { body: response.data } : {}),
+      });
+      return response;
+    } catch (error) {
+      const status = error instanceof EsaApiError ? error.status : undefined;
+      logger.debug(`<-- ${status ?? 'ERR'} ${label}`, {
+        method: request.method,
+        path: request.path,
+        status,
+        durationMs: Date.now() - start,
+        error,
+      });
+      throw error;
+    }
+  };
+}
+
+/**
+ * Timing of a single request
+ */
+export interface RequestTiming {
+  method: string;
+  path: string;
+  /** HTTP status, or undefined when no response was received */
+  status?: number;
+  /** Time from the first attempt to the final outcome in milliseconds */
+  durationMs: number;
+  /** The error thrown, if the request failed */
+  error?: unknown;
+}
+
+/**
+ * Middleware that reports how long every request took
+ * @param onTiming Called once per request with its timing
+ */
+export function timingMiddleware(onTiming: (timing: RequestTiming) => void): EsaMiddleware {
+  return async (request, next) => {
+    const start = Date.now();
+    try {
+      const response = await next(request);
+      onTiming({
+        method: request.method,
+        path: request.path,
+        status: response.status,
+        durationMs: Date.now() - start,
+      });
+      return response;
+    } catch (error) {
+      onTiming({
+        method: request.method,
+        path: request.path,
+        status: error instanceof EsaApiError ? error.status : undefined,
+        durationMs: Date.now() - start,
+        error,
+      });
+      throw error;
+    }
+  };
+}
@@ -0,0 +1,244 @@
+import { createHash, randomBytes } from 'crypto';
+import type { FetchLike } from './esa-client.js';
+import { EsaOAuthError, createEsaApiError, createEsaNetworkError } from './errors.js';
+
+/**
+ * Scope an application may request; admin scopes are written as admin:<resource>
+ */
+export type EsaOAuthScope = 'read' | 'write' | `admin:${string}`;
+
+/**
+ * Options for the OAuth helper
+ */
+export interface EsaOAuthOptions {
+  /** Client ID of the application registered with esa */
+  clientId: string;
+  /** Client secret; public clients using PKCE may omit it */
+  clientSecret?: string;
+  /** Redirect URI registered with the application */
+  redirectUri: string;
+  /** Base URL of the OAuth endpoints (defaults to https://api.esa.io) */
+  baseUrl?: string;
+  /** fetch implementation used for every request (defaults to the global fetch) */
+  fetch?: FetchLike;
+}
+
+/**
+ * Options for an authorization request
+ */
+export interface EsaAuthorizationOptions {
+  /** Scopes to request (defaults to read) */
+  scopes?: EsaOAuthScope[];
+  /** Value echoed back to the redirect URI (defaults to a random string) */
+  state?: string;
+  /** Send a PKCE code challenge (defaults to true) */
+  pkce?: boolean;
+}
+
+/**
+ * Authorization request to start the flow with
+ *
+ * Keep state and codeVerifier in the user's session until the redirect comes back.
+ */
+export interface EsaAuthorizationRequest {
+  /** URL to send the user to */
+  url: string;
+  state: string;
+  /** PKCE verifier to pass to exchangeCode, unless PKCE was disabled */
+  codeVerifier?: string;
+}
+
+/**
+ * Access token issued by esa
+ */
+export interface EsaOAuthToken {
+  access_token: string;
+  token_type: string;
+  /** Granted scopes separated by spaces */
+  scope: string;
+  /** Issue time in seconds since the epoch */
+  created_at: number;
+}
+
+/**
+ * Details of an access token
+ */
+export interface EsaTokenInfo {
+  resource_owner_id: number;
+  scope: string[];
+  /** Seconds until the token expires, or null when it does not expire */
+  expires_in_seconds: number | null;
+  application: { uid: string };
+  /** Issue time in seconds since the epoch */
+  created_at: number;
+  user: { id: number };
+}
+
+const DEFAULT_BASE_URL = 'https://api.esa.io';
+
+/**
+ * Create the S256 code challenge of a PKCE verifier
+ * @param codeVerifier The verifier kept by the application
+ */
+export function createCodeChallenge(codeVerifier: string): string {
+  return createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+/**
+ * Helper for esa's OAuth2 authorization code flow
+ *
+ * ```typescript
+ * const oauth = new EsaOAuth({ clientId, clientSecret, redirectUri: 'https://example.com/callback' });
+ * const { url, state, codeVerifier } = oauth.createAuthorizationRequest({ scopes: ['read', 'write'] });
+ * // Redirect the user to url, then on the callback:
+ * const code = oauth.parseCallback(callbackUrl, state);
+ * const token = await oauth.exchangeCode(code, codeVerifier);
+ * const client = new EsaClient({ token: token.access_token, teamName: 'your-team' });
+ * ```
+ */
+export class EsaOAuth {
+  private clientId: string;
+  private clientSecret: string | undefined;
+  private redirectUri: string;
+  private baseUrl: string;
+  private fetch: FetchLike | undefined;
+
+  /**
+   * Create a new OAuth helper
+   * @param options Application credentials and endpoint settings
+   */
+  constructor(options: EsaOAuthOptions) {
+    this.clientId = options.clientId;
+    this.clientSecret = options.clientSecret;
+    this.redirectUri = options.redirectUri;
+    this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.fetch = options.fetch;
+  }
+
+  /**
+   * Build the URL that asks the user to authorize the application
+   * @param options Scopes, state and PKCE settings
+   * @returns The URL with the state and PKCE verifier to keep until the callback
+   */
+  public createAuthorizationRequest(options: EsaAuthorizationOptions = {}): EsaAuthorizationRequest {
+    const state = options.state ?? randomBytes(16).toString('base64url');
+    const query = new URLSearchParams({
+      client_id: this.clientId,
+      redirect_uri: this.redirectUri,
+      response_type: 'code',
+      scope: (options.scopes ?? ['read']).join(' '),
+      state,
+    });
+
+    let codeVerifier: string | undefined;
+    if (options.pkce !== false) {
+      codeVerifier = randomBytes(32).toString('base64url');
+      query.set('code_challenge', createCodeChallenge(codeVerifier));
+      query.set('code_challenge_method', 'S256');
+    }
+    return { url: `${this.baseUrl}/oauth/authorize?${query}`, state, codeVerifier };
+  }
+
+  /**
+   * Read the authorization code from the URL esa redirected the user to
+   * @param callbackUrl The redirect URL, or just its query string
+   * @param expectedState The state returned by createAuthorizationRequest
+   * @returns The authorization code
+   * @throws EsaOAuthError when the user denied access or the state does not match
+   */
+  public parseCallback(callbackUrl: string | URL, expectedState: string): string {
+    const query = new URL(String(callbackUrl), 'http://localhost').searchParams;
+    const error = query.get('error');
+    if (error) {
+      throw new EsaOAuthError(query.get('error_description') || `Authorization failed: ${error}`, error);
+    }
+    if (query.get('state') !== expectedState) {
+      throw new EsaOAuthError('The state in the callback does not match the authorization request', 'state_mismatch');
+    }
+    const code = query.get('code');
+    if (!code) {
+      throw new EsaOAuthError('The callback has no authorization code', 'missing_code');
+    }
+    return code;
+  }
+
+  /**
+   * Exchange an authorization code for an access token
+   * @param code The code from the callback
+   * @param codeVerifier The PKCE verifier from createAuthorizationRequest
+   */
+  public exchangeCode(code: string, codeVerifier?: string): Promise<EsaOAuthToken> {
+    return this.request<EsaOAuthToken>('POST', '/oauth/token', {
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.redirectUri,
+      ...(codeVerifier ? { code_verifier: codeVerifier } : {}),
+    });
+  }
+
+  /**
+   * Get the owner, scopes and application of an access token
+   * @param accessToken The token to inspect
+   */
+  public getTokenInfo(accessToken: string): Promise<EsaTokenInfo> {
+    return this.request<EsaTokenInfo>('GET', '/oauth/token/info', undefined, accessToken);
+  }
+
+  /**
+   * Revoke an access token so it can no longer be used
+   * @param accessToken The token to revoke
+   */
+  public async revokeToken(accessToken: string): Promise<void> {
+    await this.request<unknown>('POST', '/oauth/revoke', { token: accessToken });
+  }
+
+  /**
+   * Send a request to an OAuth endpoint
+   * @param method HTTP method
+   * @param path Endpoint path
+   * @param form Form fields; the client credentials are added to them
+   * @param accessToken Token sent as a bearer token instead of client credentials
+   */
+  private async request<T>(
+    method: string,
+    path: string,
+    form?: Record<string, string>,
+    accessToken?: string
+  ): Promise<T> {
+    const url = `${this.baseUrl}${path}`;
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    let body: string | undefined;
+    if (accessToken) {
+      headers.Authorization = `Bearer ${accessToken}`;
+    }
+    if (form) {
+      headers['Content-Type'] = 'application/x-www-form-urlencoded';
+      body = new URLSearchParams({
+        client_id: this.clientId,
+        ...(this.clientSecret ? { client_secret: this.clientSecret } : {}),
+        ...form,
+      }).toString();
+    }
+
+    let response: Response;
+    try {
+      response = await (this.fetch ?? fetch)(url, { method, headers, body });
+    } catch (error) {
+      throw createEsaNetworkError(error, { method, url });
+    }
+
+    const text = await response.text();
+    let data: any = null;
+    if (text !== '') {
+      try {
+        data = JSON.parse(text);
+      } catch {
+        data = text;
+      }
+    }
+    if (!response.ok) {
+      throw createEsaApiError(response.status, data, response.headers, { method, url });
+    }
+    return data as T;
+  }
+}
@@ -0,0 +1,105 @@
+import { PaginationResponse } from './types.js';
+import type { RequestOptions } from './esa-client.js';
+import { EsaAbortError } from './errors.js';
+
+/**
+ * Largest per_page value accepted by the ESA API
+ */
+export const ESA_MAX_PER_PAGE = 100;
+
+/**
+ * Options for the paginate and iterate helpers
+ */
+export interface PaginateOptions extends RequestOptions {
+  /** Maximum number of items to yield before stopping */
+  limit?: number;
+}
+
+/**
+ * Fetches a single page
+ * @param page The page number to fetch
+ * @param perPage The number of items per page
+ */
+export type PageFetcher<TPage extends PaginationResponse> = (
+  page: number,
+  perPage: number
+) => Promise<TPage>;
+
+/**
+ * Throw if the signal has been aborted
+ */
+function checkAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new EsaAbortError(signal.reason);
+  }
+}
+
+/**
+ * Count the items a page holds in its item array (posts, comments, ...)
+ */
+function countItems(page: PaginationResponse): number {
+  return Object.values(page).reduce((count: number, value) => count + (Array.isArray(value) ? value.length : 0), 0);
+}
+
+/**
+ * Iterate over every page of a paginated endpoint by following next_page
+ * @param fetchPage Function that fetches a single page
+ * @param params The page and per_page to start from
+ * @param options Pagination options
+ */
+export async function* paginatePages<TPage extends PaginationResponse>(
+  fetchPage: PageFetcher<TPage>,
+  params: { page?: number; per_page?: number } = {},
+  options: PaginateOptions = {}
+): AsyncGenerator<TPage, void, undefined> {
+  let page: number | null = params.page ?? 1;
+  let perPage = Math.min(params.per_page ?? ESA_MAX_PER_PAGE, ESA_MAX_PER_PAGE);
+  let seen = 0;
+
+  while (page !== null) {
+    checkAborted(options.signal);
+
+    const response: TPage = await fetchPage(page, perPage);
+    yield response;
+
+    // The server clamps per_page to max_per_page, so keep requesting what it actually served
+    if (response.max_per_page && perPage > response.max_per_page) {
+      perPage = response.max_per_page;
+    }
+
+    seen += countItems(response);
+    if (options.limit !== undefined && seen >= options.limit) {
+      return;
+    }
+    page = response.next_page;
+  }
+}
+
+/**
+ * Iterate over every item of a paginated endpoint
+ * @param fetchPage Function that fetches a single page
+ * @param key The property of the page that holds the items
+ * @param params The page and per_page to start from
+ * @param options Pagination options
+ */
+export async function* paginateItems<K extends string, TItem>(
+  fetchPage: PageFetcher<PaginationResponse & { [P in K]: TItem[] }>,
+  key: K,
+  params: { page?: number; per_page?: number } = {},
+  options: PaginateOptions = {}
+): AsyncGenerator<TItem, void, undefined> {
+  if (options.limit !== undefined && options.limit <= 0) {
+    return;
+  }
+
+  let count = 0;
+  for await (const page of paginatePages(fetchPage, params, options)) {
+    for (const item of page[key]) {
+      yield item;
+      count++;
+      if (options.limit !== undefined && count >= options.limit) {
+        return;
+      }
+    }
+  }
+}
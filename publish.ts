@@ -0,0 +1,260 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { EsaClient, RequestOptions } from './esa-client.js';
+import type { CreatePostParams, Post, UpdatePostParams } from './types.js';
+import { EsaApiError } from './errors.js';
+import { FrontMatter, parseFrontMatter, setFrontMatterField } from './front-matter.js';
+import { normalizeCategory } from './category.js';
+
+/**
+ * What publishing a file does, or would do in a dry run
+ * - create: the file has no number and becomes a new post
+ * - update: the post differs from the file and is updated
+ * - unchanged: the post already matches the file
+ * - conflict: the post changed on esa since the file was last synced, or the file
+ *   records no revision to compare with, so it is left alone
+ */
+export type PublishAction = 'create' | 'update' | 'unchanged' | 'conflict';
+
+/**
+ * Outcome of publishing one file
+ */
+export interface PublishEntry {
+  /** File path relative to the published directory */
+  file: string;
+  action: PublishAction;
+  /** Post number, or null for a post not created yet */
+  number: number | null;
+  /** Fields that differ from the remote post */
+  changes: string[];
+  /** Why the file was not published, for conflicts */
+  reason?: string;
+}
+
+/**
+ * Options for publishing Markdown files
+ */
+export interface PublishPostsOptions extends RequestOptions {
+  /** Directory containing the Markdown files */
+  dir: string;
+  /** Compute the plan without creating, updating or rewriting anything */
+  dryRun?: boolean;
+  /** Change message sent with every create and update */
+  message?: string;
+}
+
+/**
+ * Post fields described by a file
+ */
+interface LocalPost {
+  number: number | null;
+  /** revision_number recorded in the file, if any */
+  revision: number | null;
+  name: string;
+  category: string | undefined;
+  tags: string[] | undefined;
+  wip: boolean | undefined;
+  body_md: string;
+}
+
+/**
+ * List Markdown files below a directory, skipping dotfiles
+ */
+async function listMarkdownFiles(root: string, dir: string = root): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of entries) {
+    if (entry.name.startsWith('.')) {
+      continue;
+    }
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listMarkdownFiles(root, full));
+    } else if (entry.isFile() && entry.name.endsWith('.md')) {
+      files.push(path.relative(root, full).split(path.sep).join('/'));
+    }
+  }
+  return files;
+}
+
+/**
+ * Read the post fields from a file's front matter, falling back to its location
+ */
+function toLocalPost(file: string, data: FrontMatter, body: string): LocalPost {
+  const optionalNumber = (value: unknown) => (value === null || value === undefined || value === '' ? null : Number(value));
+  const directory = path.posix.dirname(file);
+  return {
+    number: optionalNumber(data.number),
+    revision: optionalNumber(data.revision_number),
+    name: typeof data.name === 'string' ? data.name : path.posix.basename(file, '.md'),
+    category: typeof data.category === 'string' || data.category === null
+      ? normalizeCategory(data.category)
+      : directory === '.' ? undefined : directory,
+    tags: Array.isArray(data.tags) ? data.tags.map(String) : undefined,
+    wip: typeof data.wip === 'boolean' ? data.wip : undefined,
+    body_md: body,
+  };
+}
+
+/**
+ * Compare a file with its remote post
+ * @returns The update needed, keyed by field
+ */
+function diffPost(local: LocalPost, remote: Post): UpdatePostParams {
+  const changes: UpdatePostParams = {};
+  if (local.body_md.trimEnd() !== remote.body_md.trimEnd()) {
+    changes.body_md = local.body_md;
+  }
+  if (local.name !== remote.name) {
+    changes.name = local.name;
+  }
+  if (local.category !== undefined && local.category !== normalizeCategory(remote.category)) {
+    changes.category = local.category;
+  }
+  if (local.tags !== undefined && [...local.tags].sort().join('\n') !== [...remote.tags].sort().join('\n')) {
+    changes.tags = local.tags;
+  }
+  if (local.wip !== undefined && local.wip !== remote.wip) {
+    changes.wip = local.wip;
+  }
+  return changes;
+}
+
+/**
+ * Publish a directory of Markdown files with front matter to esa
+ *
+ * Files with a number in their front matter update that post, others create
+ * a new post. The assigned number and the revision_number of every created or
+ * updated post are written back to the file. Only files that differ from their
+ * post are sent, and updates carry the file's revision_number as
+ * original_revision so edits made on esa are not overwritten. A file whose post
+ * has moved past that revision, or that records no revision_number to base the
+ * update on, is reported as a conflict instead.
+ *
+ * @param client The client used to read and write posts
+ * @param options Publish and per-call request options
+ * @param teamName The team name (subdomain)
+ * @returns One entry per file, in path order
+ */
+export async function publishPosts(
+  client: EsaClient,
+  options: PublishPostsOptions,
+  teamName?: string
+): Promise<PublishEntry[]> {
+  const { dir, dryRun = false, message, ...requestOptions } = options;
+  const entries: PublishEntry[] = [];
+
+  for (const file of await listMarkdownFiles(dir)) {
+    const target = path.join(dir, file);
+    const text = await fs.readFile(target, 'utf8');
+    const { data, body } = parseFrontMatter(text);
+    const local = toLocalPost(file, data, body);
+
+    if (local.number === null) {
+      const params: CreatePostParams = {
+        name: local.name,
+        body_md: local.body_md,
+        ...(local.category !== undefined ? { category: local.category } : {}),
+        ...(local.tags !== undefined ? { tags: local.tags } : {}),
+        ...(local.wip !== undefined ? { wip: local.wip } : {}),
+      };
+
+      let number: number | null = null;
+      if (!dryRun) {
+        const created = await client.createPost({ ...params, message }, teamName, requestOptions);
+        number = created.number;
+        const updatedText = setFrontMatterField(text, 'number', created.number);
+        await fs.writeFile(target, setFrontMatterField(updatedText, 'revision_number', created.revision_number));
+      }
+      entries.push({ file, action: 'create', number, changes: Object.keys(params) });
+      continue;
+    }
+
+    const remote = await client.getPost(local.number, undefined, teamName, requestOptions);
+    const changes = diffPost(local, remote);
+    const changed = Object.keys(changes);
+    if (changed.length === 0) {
+      entries.push({ file, action: 'unchanged', number: local.number, changes: [] });
+      continue;
+    }
+    if (local.revision === null) {
+      entries.push({
+        file,
+        action: 'conflict',
+        number: local.number,
+        changes: changed,
+        reason: 'the file has no revision_number to base the update on',
+      });
+      continue;
+    }
+    if (local.revision !== remote.revision_number) {
+      entries.push({
+        file,
+        action: 'conflict',
+        number: local.number,
+        changes: changed,
+        reason: `post is at revision ${remote.revision_number} but the file was based on revision ${local.revision}`,
+      });
+      continue;
+    }
+
+    if (!dryRun) {
+      let updated: Post;
+      try {
+        updated = await client.updatePost(local.number, {
+          ...changes,
+          ...(message !== undefined ? { message } : {}),
+          // The base the file was edited from, so esa merges edits made after it was fetched
+          original_revision: {
+            body_md: remote.body_md,
+            number: local.revision,
+            user: remote.updated_by.screen_name,
+          },
+        }, teamName, requestOptions);
+      } catch (error) {
+        if (!(error instanceof EsaApiError) || error.status !== 409) {
+          throw error;
+        }
+        entries.push({ file, action: 'conflict', number: local.number, changes: changed, reason: 'esa rejected the update' });
+        continue;
+      }
+
+      await fs.writeFile(target, setFrontMatterField(text, 'revision_number', updated.revision_number));
+      if (updated.overlapped) {
+        entries.push({
+          file,
+          action: 'conflict',
+          number: local.number,
+          changes: changed,
+          reason: 'the post was edited concurrently and saved with conflict markers',
+        });
+        continue;
+      }
+    }
+    entries.push({ file, action: 'update', number: local.number, changes: changed });
+  }
+
+  return entries;
+}
+
+/**
+ * Format publish entries as a plan for review
+ * @param entries Entries returned by publishPosts
+ */
+export function formatPublishPlan(entries: PublishEntry[]): string {
+  const symbols: Record<PublishAction, string> = { create: '+', update: '~', unchanged: '=', conflict: '!' };
+  const lines = entries.map(entry => {
+    const number = entry.number === null ? '' : ` #${entry.number}`;
+    const detail = entry.reason ?? entry.changes.join(', ');
+    return `${symbols[entry.action]} ${entry.action} ${entry.file}${number}${detail ? ` (${detail})` : ''}`;
+  });
+
+  const count = (action: PublishAction) => entries.filter(entry => entry.action === action).length;
+  lines.push(
+    `${count('create')} to create, ${count('update')} to update, ` +
+    `${count('unchanged')} unchanged, ${count('conflict')} conflicting`
+  );
+  return lines.join('\n');
+}
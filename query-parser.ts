@@ -0,0 +1,213 @@
+import { EsaQuery, EsaQueryNode, EsaComparisonOperator } from './query.js';
+import { EsaQuerySyntaxError } from './errors.js';
+
+type Token =
+  | { type: 'word'; value: string; start: number; end: number }
+  | { type: 'phrase'; value: string; start: number; end: number }
+  | { type: 'qualifier'; name: string; operator: EsaComparisonOperator; value: string; start: number; end: number }
+  | { type: 'or' | 'not' | 'lparen' | 'rparen'; start: number; end: number };
+
+const WHITESPACE = /[\s　]/;
+const DELIMITER = /[\s　()"]/;
+const QUALIFIER = /^([a-z_]+):(>=|<=|>|<)?(.*)$/;
+
+/**
+ * Read a double quoted string starting at the given position
+ * @returns The unescaped value and the position after the closing quote
+ */
+function readQuoted(input: string, start: number): { value: string; end: number } {
+  let value = '';
+  let i = start + 1;
+  while (i < input.length) {
+    const char = input[i];
+    if (char === '\\' && i + 1 < input.length) {
+      value += input[i + 1];
+      i += 2;
+    } else if (char === '"') {
+      return { value, end: i + 1 };
+    } else {
+      value += char;
+      i++;
+    }
+  }
+  throw new EsaQuerySyntaxError('Unterminated quoted string', input, start);
+}
+
+/**
+ * Split a query string into tokens
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+    const start = i;
+
+    if (WHITESPACE.test(char)) {
+      i++;
+    } else if (char === '(') {
+      tokens.push({ type: 'lparen', start, end: ++i });
+    } else if (char === ')') {
+      tokens.push({ type: 'rparen', start, end: ++i });
+    } else if (char === '-' && i + 1 < input.length && !WHITESPACE.test(input[i + 1])) {
+      tokens.push({ type: 'not', start, end: ++i });
+    } else if (char === '"') {
+      const quoted = readQuoted(input, i);
+      tokens.push({ type: 'phrase', value: quoted.value, start, end: quoted.end });
+      i = quoted.end;
+    } else {
+      while (i < input.length && !DELIMITER.test(input[i])) {
+        i++;
+      }
+      const word = input.slice(start, i);
+      const qualifier = QUALIFIER.exec(word);
+
+      if (word === 'OR') {
+        tokens.push({ type: 'or', start, end: i });
+      } else if (qualifier) {
+        let value = qualifier[3];
+        // A qualifier value may be quoted, as in title:"release notes"
+        if (value === '' && input[i] === '"') {
+          const quoted = readQuoted(input, i);
+          value = quoted.value;
+          i = quoted.end;
+        }
+        if (value === '') {
+          throw new EsaQuerySyntaxError(`Missing value for qualifier "${qualifier[1]}"`, input, start);
+        }
+        tokens.push({
+          type: 'qualifier',
+          name: qualifier[1],
+          operator: (qualifier[2] ?? '') as EsaComparisonOperator,
+          value,
+          start,
+          end: i,
+        });
+      } else if (word === '-') {
+        throw new EsaQuerySyntaxError('Expected a term after "-"', input, start);
+      } else {
+        tokens.push({ type: 'word', value: word, start, end: i });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser over the token list
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private input: string, private tokens: Token[]) {}
+
+  public parse(): EsaQueryNode | null {
+    const node = this.parseAnd();
+    const token = this.tokens[this.index];
+    if (token) {
+      // parseAnd only stops early at a closing parenthesis
+      throw new EsaQuerySyntaxError('Unexpected ")"', this.input, token.start);
+    }
+    return node;
+  }
+
+  // and := or*
+  private parseAnd(): EsaQueryNode | null {
+    const operands: EsaQueryNode[] = [];
+    while (this.index < this.tokens.length && this.tokens[this.index].type !== 'rparen') {
+      operands.push(this.parseOr());
+    }
+    if (operands.length === 0) {
+      return null;
+    }
+    return operands.length === 1 ? operands[0] : { type: 'and', operands };
+  }
+
+  // or := unary ('OR' unary)*
+  private parseOr(): EsaQueryNode {
+    const operands = [this.parseUnary()];
+    while (this.tokens[this.index]?.type === 'or') {
+      this.index++;
+      operands.push(this.parseUnary());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'or', operands };
+  }
+
+  // unary := '-' unary | primary
+  private parseUnary(): EsaQueryNode {
+    const token = this.tokens[this.index];
+    if (token?.type === 'not') {
+      this.index++;
+      return { type: 'not', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  // primary := '(' and ')' | word | phrase | qualifier
+  private parsePrimary(): EsaQueryNode {
+    const token = this.tokens[this.index];
+    if (!token) {
+      throw new EsaQuerySyntaxError('Unexpected end of query', this.input, this.input.length);
+    }
+    this.index++;
+
+    switch (token.type) {
+      case 'word':
+        return { type: 'term', value: token.value, phrase: false };
+      case 'phrase':
+        return { type: 'term', value: token.value, phrase: true };
+      case 'qualifier':
+        return { type: 'qualifier', name: token.name, operator: token.operator, value: token.value };
+      case 'lparen': {
+        const node = this.parseAnd();
+        const closing = this.tokens[this.index];
+        if (closing?.type !== 'rparen') {
+          throw new EsaQuerySyntaxError('Unclosed "("', this.input, token.start);
+        }
+        this.index++;
+        if (!node) {
+          throw new EsaQuerySyntaxError('Empty group', this.input, token.start);
+        }
+        return node;
+      }
+      case 'or':
+        throw new EsaQuerySyntaxError('Unexpected "OR"', this.input, token.start);
+      default:
+        throw new EsaQuerySyntaxError(`Unexpected "${this.input.slice(token.start, token.end)}"`, this.input, token.start);
+    }
+  }
+}
+
+/**
+ * Parse an esa search query into an AST
+ * @param input The query string
+ * @returns The root node, or null for an empty query
+ * @throws EsaQuerySyntaxError when the query is malformed
+ */
+export function parseQueryNode(input: string): EsaQueryNode | null {
+  return new Parser(input, tokenize(input)).parse();
+}
+
+/**
+ * Parse an esa search query into an EsaQuery that can be inspected, rewritten and serialized
+ * @param input The query string
+ * @throws EsaQuerySyntaxError when the query is malformed
+ */
+export function parseQuery(input: string): EsaQuery {
+  const node = parseQueryNode(input);
+  if (!node) {
+    return new EsaQuery();
+  }
+  return new EsaQuery(node.type === 'and' ? node.operands : [node]);
+}
+
+/**
+ * Normalize a query string into its canonical form
+ * @param input The query string
+ * @throws EsaQuerySyntaxError when the query is malformed
+ */
+export function normalizeQuery(input: string): string {
+  return parseQuery(input).toString();
+}
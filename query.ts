@@ -0,0 +1,466 @@
+/**
+ * Comparison operators accepted by numeric and date qualifiers
+ */
+export type EsaComparisonOperator = '' | '>' | '>=' | '<' | '<=';
+
+/**
+ * Free text keyword or "quoted phrase"
+ */
+export interface EsaTermNode {
+  type: 'term';
+  value: string;
+  /** Whether the term must match as an exact phrase */
+  phrase: boolean;
+}
+
+/**
+ * Qualifier such as tag:foo or stars:>5
+ */
+export interface EsaQualifierNode {
+  type: 'qualifier';
+  name: string;
+  operator: EsaComparisonOperator;
+  value: string;
+}
+
+/**
+ * Negated node, written as -node
+ */
+export interface EsaNotNode {
+  type: 'not';
+  operand: EsaQueryNode;
+}
+
+/**
+ * Nodes that must all match
+ */
+export interface EsaAndNode {
+  type: 'and';
+  operands: EsaQueryNode[];
+}
+
+/**
+ * Nodes of which at least one must match
+ */
+export interface EsaOrNode {
+  type: 'or';
+  operands: EsaQueryNode[];
+}
+
+/**
+ * Node of an esa search query
+ */
+export type EsaQueryNode = EsaTermNode | EsaQualifierNode | EsaNotNode | EsaAndNode | EsaOrNode;
+
+// Qualifiers whose values are category paths, where slashes are part of the value
+const CATEGORY_QUALIFIERS = ['in', 'on', 'category'];
+
+/**
+ * Quote a value when esa would otherwise split or misread it
+ * @param value The raw value
+ * @param allowSlash Whether a slash can appear unquoted
+ */
+export function quoteQueryValue(value: string, allowSlash: boolean = false): string {
+  const unsafe = allowSlash ? /[\s"()\u3000]|^-|^$/ : /[\s"()\u3000/]|^-|^$/;
+  if (!unsafe.test(value)) {
+    return value;
+  }
+  return quote(value);
+}
+
+/**
+ * Wrap a value in double quotes, escaping backslashes and quotes
+ */
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Serialize a query node into esa search syntax
+ * @param node The node to serialize
+ * @param nested Whether the node is an operand of another node
+ */
+export function stringifyQueryNode(node: EsaQueryNode, nested: boolean = false): string {
+  switch (node.type) {
+    case 'term':
+      // A bare OR or a colon would be read as an operator or a qualifier
+      return node.phrase || node.value === 'OR' || node.value.includes(':')
+        ? quote(node.value)
+        : quoteQueryValue(node.value, true);
+    case 'qualifier':
+      return `${node.name}:${node.operator}${
+        quoteQueryValue(node.value, CATEGORY_QUALIFIERS.includes(node.name))
+      }`;
+    case 'not':
+      return `-${stringifyQueryNode(node.operand, true)}`;
+    case 'and': {
+      const text = node.operands.map(operand => stringifyQueryNode(operand, true)).join(' ');
+      return nested && node.operands.length > 1 ? `(${text})` : text;
+    }
+    case 'or': {
+      const text = node.operands.map(operand => stringifyQueryNode(operand, true)).join(' OR ');
+      return nested && node.operands.length > 1 ? `(${text})` : text;
+    }
+  }
+}
+
+/**
+ * Format a date as YYYY-MM-DD
+ */
+function formatDate(date: Date | string): string {
+  if (typeof date === 'string') {
+    return date;
+  }
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Check whether a node is a qualifier, or its negation, with the given name
+ */
+function isQualifierCondition(node: EsaQueryNode, name: string): boolean {
+  const target = node.type === 'not' ? node.operand : node;
+  return target.type === 'qualifier' && target.name === name;
+}
+
+/**
+ * Fluent builder for esa search queries
+ *
+ * @example
+ * const q = new EsaQuery()
+ *   .in('dev/infra')
+ *   .wip(false)
+ *   .not(q => q.tag('archived'))
+ *   .or(q => q.tag('ops'), q => q.tag('oncall'))
+ *   .stars('>=', 5);
+ * await client.getPosts({ q });
+ */
+export class EsaQuery {
+  private nodes: EsaQueryNode[] = [];
+
+  /**
+   * Create a new query, optionally starting from existing nodes
+   * @param nodes Nodes that must all match
+   */
+  constructor(nodes: EsaQueryNode[] = []) {
+    this.nodes = [...nodes];
+  }
+
+  /**
+   * Add a raw node
+   * @param node The node to add
+   */
+  public node(node: EsaQueryNode): this {
+    this.nodes.push(node);
+    return this;
+  }
+
+  /**
+   * Add a free text keyword
+   * @param value The keyword
+   */
+  public keyword(value: string): this {
+    return this.node({ type: 'term', value, phrase: false });
+  }
+
+  /**
+   * Add an exact phrase
+   * @param value The phrase
+   */
+  public phrase(value: string): this {
+    return this.node({ type: 'term', value, phrase: true });
+  }
+
+  /**
+   * Add a qualifier
+   * @param name The qualifier name
+   * @param value The qualifier value
+   * @param operator Comparison operator
+   */
+  public qualifier(name: string, value: string | number | boolean, operator: EsaComparisonOperator = ''): this {
+    return this.node({ type: 'qualifier', name, operator, value: String(value) });
+  }
+
+  /**
+   * Match posts in a category or its descendants (in:)
+   * @param category The category path
+   */
+  public in(category: string): this {
+    return this.qualifier('in', category.replace(/^\/+|\/+$/g, ''));
+  }
+
+  /**
+   * Match posts directly in a category (on:)
+   * @param category The category path
+   */
+  public on(category: string): this {
+    return this.qualifier('on', category.replace(/^\/+|\/+$/g, ''));
+  }
+
+  /**
+   * Match posts whose category contains the value (category:)
+   * @param category Part of the category path
+   */
+  public category(category: string): this {
+    return this.qualifier('category', category);
+  }
+
+  /**
+   * Match posts with a tag (tag:)
+   * @param tag The tag name, with or without a leading #
+   */
+  public tag(tag: string): this {
+    return this.qualifier('tag', tag.replace(/^#/, ''));
+  }
+
+  /**
+   * Match posts created by a user (user:)
+   * @param screenName The user's screen name, with or without a leading @
+   */
+  public user(screenName: string): this {
+    return this.qualifier('user', screenName.replace(/^@/, ''));
+  }
+
+  /**
+   * Match posts last updated by a user (updated_by:)
+   * @param screenName The user's screen name, with or without a leading @
+   */
+  public updatedBy(screenName: string): this {
+    return this.qualifier('updated_by', screenName.replace(/^@/, ''));
+  }
+
+  /**
+   * Match posts whose title contains the value (title:)
+   * @param title Part of the title
+   */
+  public title(title: string): this {
+    return this.qualifier('title', title);
+  }
+
+  /**
+   * Match posts whose body contains the value (body:)
+   * @param body Part of the body
+   */
+  public body(body: string): this {
+    return this.qualifier('body', body);
+  }
+
+  /**
+   * Match posts with a comment containing the value (comment:)
+   * @param comment Part of a comment
+   */
+  public comment(comment: string): this {
+    return this.qualifier('comment', comment);
+  }
+
+  /**
+   * Match WIP or shipped posts (wip:)
+   * @param wip Whether the posts are WIP
+   */
+  public wip(wip: boolean = true): this {
+    return this.qualifier('wip', wip);
+  }
+
+  /**
+   * Match stock or flow posts (kind:)
+   * @param kind The post kind
+   */
+  public kind(kind: 'stock' | 'flow'): this {
+    return this.qualifier('kind', kind);
+  }
+
+  /**
+   * Match posts starred by the authenticated user (star:)
+   * @param starred Whether the posts are starred
+   */
+  public starred(starred: boolean = true): this {
+    return this.qualifier('star', starred);
+  }
+
+  /**
+   * Match posts watched by the authenticated user (watch:)
+   * @param watched Whether the posts are watched
+   */
+  public watched(watched: boolean = true): this {
+    return this.qualifier('watch', watched);
+  }
+
+  /**
+   * Match posts shared on the web (sharing:)
+   * @param sharing Whether the posts are shared
+   */
+  public sharing(sharing: boolean = true): this {
+    return this.qualifier('sharing', sharing);
+  }
+
+  /**
+   * Compare the number of stars (stars:)
+   * @param operator Comparison operator
+   * @param count Number of stars
+   */
+  public stars(operator: EsaComparisonOperator, count: number): this {
+    return this.qualifier('stars', count, operator);
+  }
+
+  /**
+   * Compare the number of watchers (watches:)
+   * @param operator Comparison operator
+   * @param count Number of watchers
+   */
+  public watches(operator: EsaComparisonOperator, count: number): this {
+    return this.qualifier('watches', count, operator);
+  }
+
+  /**
+   * Compare the number of comments (comments:)
+   * @param operator Comparison operator
+   * @param count Number of comments
+   */
+  public comments(operator: EsaComparisonOperator, count: number): this {
+    return this.qualifier('comments', count, operator);
+  }
+
+  /**
+   * Compare the number of done tasks (done:)
+   * @param operator Comparison operator
+   * @param count Number of done tasks
+   */
+  public done(operator: EsaComparisonOperator, count: number): this {
+    return this.qualifier('done', count, operator);
+  }
+
+  /**
+   * Compare the number of undone tasks (undone:)
+   * @param operator Comparison operator
+   * @param count Number of undone tasks
+   */
+  public undone(operator: EsaComparisonOperator, count: number): this {
+    return this.qualifier('undone', count, operator);
+  }
+
+  /**
+   * Compare the creation date (created:)
+   * @param operator Comparison operator
+   * @param date A date, or a YYYY-MM-DD string
+   */
+  public created(operator: EsaComparisonOperator, date: Date | string): this {
+    return this.qualifier('created', formatDate(date), operator);
+  }
+
+  /**
+   * Compare the last update date (updated:)
+   * @param operator Comparison operator
+   * @param date A date, or a YYYY-MM-DD string
+   */
+  public updated(operator: EsaComparisonOperator, date: Date | string): this {
+    return this.qualifier('updated', formatDate(date), operator);
+  }
+
+  /**
+   * Match posts created within a date range (inclusive)
+   * @param from Start date; omit for an open range
+   * @param to End date; omit for an open range
+   */
+  public createdBetween(from?: Date | string, to?: Date | string): this {
+    if (from !== undefined) {
+      this.created('>=', from);
+    }
+    if (to !== undefined) {
+      this.created('<=', to);
+    }
+    return this;
+  }
+
+  /**
+   * Match posts updated within a date range (inclusive)
+   * @param from Start date; omit for an open range
+   * @param to End date; omit for an open range
+   */
+  public updatedBetween(from?: Date | string, to?: Date | string): this {
+    if (from !== undefined) {
+      this.updated('>=', from);
+    }
+    if (to !== undefined) {
+      this.updated('<=', to);
+    }
+    return this;
+  }
+
+  /**
+   * Exclude posts matching each condition built by the callback
+   * @param build Adds the conditions to exclude
+   */
+  public not(build: (query: EsaQuery) => EsaQuery): this {
+    for (const node of build(new EsaQuery()).toNodes()) {
+      this.node(node.type === 'not' ? node.operand : { type: 'not', operand: node });
+    }
+    return this;
+  }
+
+  /**
+   * Match posts satisfying at least one of the branches
+   * @param branches Each branch adds conditions that must all match
+   */
+  public or(...branches: Array<(query: EsaQuery) => EsaQuery>): this {
+    const operands = branches
+      .map(build => build(new EsaQuery()).toNode())
+      .filter((node): node is EsaQueryNode => node !== null);
+    if (operands.length === 1) {
+      return this.node(operands[0]);
+    }
+    if (operands.length > 1) {
+      this.node({ type: 'or', operands });
+    }
+    return this;
+  }
+
+  /**
+   * Check whether a top-level condition uses a qualifier, negated or not
+   * @param name The qualifier name
+   */
+  public hasQualifier(name: string): boolean {
+    return this.nodes.some(node => isQualifierCondition(node, name));
+  }
+
+  /**
+   * Remove every top-level condition that uses a qualifier, negated or not
+   * @param name The qualifier name
+   */
+  public withoutQualifier(name: string): this {
+    this.nodes = this.nodes.filter(node => !isQualifierCondition(node, name));
+    return this;
+  }
+
+  /**
+   * Copy this query
+   */
+  public clone(): EsaQuery {
+    return new EsaQuery(this.nodes);
+  }
+
+  /**
+   * Get the nodes that must all match
+   */
+  public toNodes(): EsaQueryNode[] {
+    return [...this.nodes];
+  }
+
+  /**
+   * Get the query as a single node
+   * @returns The node, or null for an empty query
+   */
+  public toNode(): EsaQueryNode | null {
+    if (this.nodes.length === 0) {
+      return null;
+    }
+    return this.nodes.length === 1 ? this.nodes[0] : { type: 'and', operands: this.toNodes() };
+  }
+
+  /**
+   * Serialize the query into esa search syntax
+   */
+  public toString(): string {
+    const node = this.toNode();
+    return node ? stringifyQueryNode(node) : '';
+  }
+}
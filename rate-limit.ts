@@ -0,0 +1,131 @@
+import { sleep } from './retry.js';
+
+/**
+ * Rate limit state reported by the X-RateLimit-* headers
+ */
+export interface RateLimitState {
+  /** Requests allowed in the current window */
+  limit: number;
+  /** Requests left in the current window */
+  remaining: number;
+  /** When the current window ends */
+  reset: Date;
+}
+
+/**
+ * Options for pacing requests before the rate limit is exhausted
+ */
+export interface ThrottleOptions {
+  /** Start pacing once this many requests remain in the window */
+  threshold?: number;
+  /** Upper bound for a single pacing delay in milliseconds */
+  maxDelayMs?: number;
+}
+
+/**
+ * Default pacing options
+ */
+export const DEFAULT_THROTTLE_OPTIONS: Required<ThrottleOptions> = {
+  threshold: 50,
+  maxDelayMs: 15 * 60 * 1000,
+};
+
+/**
+ * Parse the X-RateLimit-* headers of a response
+ * @param headers Response headers
+ * @returns The rate limit state, or null when the headers are missing
+ */
+export function parseRateLimitHeaders(headers: Headers | undefined): RateLimitState | null {
+  const limit = headers?.get('x-ratelimit-limit');
+  const remaining = headers?.get('x-ratelimit-remaining');
+  const reset = headers?.get('x-ratelimit-reset');
+  if (!limit || !remaining || !reset) {
+    return null;
+  }
+
+  const state = {
+    limit: Number(limit),
+    remaining: Number(remaining),
+    // esa reports the reset time as epoch seconds
+    reset: new Date(Number(reset) * 1000),
+  };
+  if (Number.isNaN(state.limit) || Number.isNaN(state.remaining) || Number.isNaN(state.reset.getTime())) {
+    return null;
+  }
+  return state;
+}
+
+/**
+ * Tracks the latest rate limit state and paces requests
+ */
+export class RateLimiter {
+  private state: RateLimitState | null = null;
+  private throttle: Required<ThrottleOptions> | null;
+
+  /**
+   * Create a new rate limiter
+   * @param throttle Pacing options; false or undefined only tracks the state
+   */
+  constructor(throttle?: boolean | ThrottleOptions) {
+    if (throttle) {
+      this.throttle = { ...DEFAULT_THROTTLE_OPTIONS, ...(throttle === true ? {} : throttle) };
+    } else {
+      this.throttle = null;
+    }
+  }
+
+  /**
+   * Get the latest rate limit state
+   * @returns A copy of the state, or null before the first response
+   */
+  public getState(): RateLimitState | null {
+    return this.state ? { ...this.state, reset: new Date(this.state.reset) } : null;
+  }
+
+  /**
+   * Record the rate limit headers of a response
+   * @param headers Response headers
+   * @returns The new state, or null when the headers are missing
+   */
+  public update(headers: Headers | undefined): RateLimitState | null {
+    const state = parseRateLimitHeaders(headers);
+    if (state) {
+      this.state = state;
+    }
+    return state;
+  }
+
+  /**
+   * Compute how long to wait before sending the next request
+   * @param now Current time in milliseconds
+   */
+  public delayFor(now: number = Date.now()): number {
+    if (!this.throttle || !this.state || this.state.remaining > this.throttle.threshold) {
+      return 0;
+    }
+
+    const untilReset = this.state.reset.getTime() - now;
+    if (untilReset <= 0) {
+      return 0;
+    }
+
+    // Spread the remaining requests evenly over the rest of the window
+    const delay = this.state.remaining > 0 ? untilReset / (this.state.remaining + 1) : untilReset;
+    return Math.min(Math.ceil(delay), this.throttle.maxDelayMs);
+  }
+
+  /**
+   * Wait until the next request may be sent
+   * @param signal Signal that cancels the wait
+   */
+  public async wait(signal?: AbortSignal): Promise<void> {
+    const delay = this.delayFor();
+    if (delay > 0) {
+      await sleep(delay, signal);
+    }
+    // Reserve a slot so concurrent requests do not all see the same budget
+    if (this.throttle && this.state && this.state.remaining > 0) {
+      this.state.remaining--;
+    }
+  }
+}
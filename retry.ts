@@ -0,0 +1,153 @@
+/**
+ * Retry policy for ESA API requests
+ */
+export interface RetryOptions {
+  /** Maximum number of attempts including the first one */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff delay in milliseconds */
+  maxDelayMs?: number;
+  /** Ceiling on the total time spent waiting between attempts in milliseconds */
+  maxTotalDelayMs?: number;
+  /** Randomize each delay between zero and the computed backoff */
+  jitter?: boolean;
+  /** HTTP statuses that are retried */
+  retryOnStatus?: number[];
+  /** Retry when fetch itself fails (DNS, connection reset, ...) */
+  retryOnNetworkError?: boolean;
+  /** Also retry non-idempotent requests (POST, PATCH) on server and network errors */
+  retryNonIdempotent?: boolean;
+  /** Called before waiting for each retry */
+  onRetry?: (info: RetryInfo) => void | Promise<void>;
+}
+
+/**
+ * Information passed to the onRetry hook
+ */
+export interface RetryInfo {
+  /** HTTP method of the request */
+  method: string;
+  /** API path of the request */
+  path: string;
+  /** The attempt that just failed (1 for the first request) */
+  attempt: number;
+  /** Milliseconds to wait before the next attempt */
+  delayMs: number;
+  /** The error that caused the retry */
+  error: unknown;
+}
+
+/**
+ * Retry options with every field filled in
+ */
+export type ResolvedRetryOptions = Required<Omit<RetryOptions, 'onRetry'>> & Pick<RetryOptions, 'onRetry'>;
+
+/**
+ * Default retry policy
+ */
+export const DEFAULT_RETRY_OPTIONS: ResolvedRetryOptions = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 60 * 1000,
+  // esa counts the rate limit over a 15 minute window
+  maxTotalDelayMs: 15 * 60 * 1000,
+  jitter: true,
+  retryOnStatus: [429, 500, 502, 503, 504],
+  retryOnNetworkError: true,
+  retryNonIdempotent: false,
+};
+
+/**
+ * Merge retry options on top of the defaults
+ * @param layers Retry options from the least to the most specific; false disables retries
+ */
+export function resolveRetryOptions(
+  ...layers: Array<RetryOptions | false | undefined>
+): ResolvedRetryOptions {
+  let resolved: ResolvedRetryOptions = { ...DEFAULT_RETRY_OPTIONS };
+  for (const layer of layers) {
+    if (layer === false) {
+      resolved = { ...resolved, maxAttempts: 1 };
+    } else if (layer) {
+      resolved = { ...resolved, ...layer };
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Whether the HTTP method can be safely repeated
+ * @param method HTTP method
+ */
+export function isIdempotentMethod(method: string): boolean {
+  return ['get', 'head', 'options', 'put', 'delete'].includes(method.toLowerCase());
+}
+
+/**
+ * Compute the delay before the next attempt
+ * @param attempt The attempt that just failed (1 for the first request)
+ * @param options Resolved retry options
+ * @param retryAfterMs Delay requested by the server, if any
+ * @param random Random source used for jitter
+ */
+export function computeRetryDelay(
+  attempt: number,
+  options: ResolvedRetryOptions,
+  retryAfterMs?: number,
+  random: () => number = Math.random
+): number {
+  // The server knows best when it will accept requests again
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs;
+  }
+
+  const backoff = Math.min(options.baseDelayMs * 2 ** (attempt - 1), options.maxDelayMs);
+  return options.jitter ? Math.round(backoff * random()) : backoff;
+}
+
+/**
+ * Parse a Retry-After header value into milliseconds
+ * @param value Seconds or an HTTP date
+ * @param now Current time in milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+  return undefined;
+}
+
+/**
+ * Wait for the given number of milliseconds
+ * @param ms Milliseconds to wait
+ * @param signal Signal that cancels the wait
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,332 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { EsaClient, RequestOptions } from './esa-client.js';
+import type { Post } from './types.js';
+import { EsaApiError, EsaEditConflictError, EsaForbiddenError, EsaRateLimitError, EsaUnauthorizedError } from './errors.js';
+import { EsaQuery } from './query.js';
+
+/**
+ * What a tag operation did to a post, or would do in a dry run
+ * - update: the tags were changed
+ * - unchanged: the post no longer had the tags when it was updated
+ * - skipped: the progress log shows the post was handled by an earlier run
+ * - conflict: the post kept conflicting with concurrent edits
+ * - failed: the API rejected the update of this post; the post is retried by the next run
+ */
+export type TagOperationAction = 'update' | 'unchanged' | 'skipped' | 'conflict' | 'failed';
+
+/**
+ * Outcome for one post
+ */
+export interface TagOperationEntry {
+  number: number;
+  full_name: string;
+  /** Tags before the operation */
+  before: string[];
+  /** Tags after the operation */
+  after: string[];
+  action: TagOperationAction;
+  /** Why the post was not updated, for conflicts and failures */
+  reason?: string;
+}
+
+/**
+ * Options for bulk tag operations
+ */
+export interface TagOperationOptions extends RequestOptions {
+  /** Report the affected posts without updating them */
+  dryRun?: boolean;
+  /** Number of posts updated at the same time (defaults to 4) */
+  concurrency?: number;
+  /** Change message recorded with every update */
+  message?: string;
+  /**
+   * File recording the posts already handled, so an interrupted run can continue
+   * where it stopped; it must only be reused for the same operation
+   */
+  progressFile?: string;
+}
+
+/**
+ * Operation recorded at the top of a progress log
+ */
+interface TagOperation {
+  operation: 'rename' | 'merge' | 'remove';
+  from: string[];
+  to: string | null;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Compute the tags of a post after replacing or removing some of them
+ * @param tags Current tags
+ * @param from Tags to replace or remove
+ * @param to Replacement, or null to remove
+ */
+export function replaceTags(tags: string[], from: string[], to: string | null): string[] {
+  const result: string[] = [];
+  for (const tag of tags) {
+    const next = from.includes(tag) ? to : tag;
+    if (next !== null && !result.includes(next)) {
+      result.push(next);
+    }
+  }
+  return result;
+}
+
+/**
+ * Run a task for every item with at most a given number running at once
+ *
+ * Once a task throws, no further items are started; the ones already running finish.
+ */
+async function forEachConcurrently<T>(
+  items: T[],
+  concurrency: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  let stopped = false;
+  const worker = async () => {
+    while (!stopped && next < items.length) {
+      try {
+        await task(items[next++]);
+      } catch (error) {
+        stopped = true;
+        throw error;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, worker));
+}
+
+/**
+ * Read a progress log
+ * @returns The post numbers it records, and whether its last line was cut off
+ * @throws Error when the log belongs to a different operation
+ */
+async function readProgress(
+  file: string,
+  operation: TagOperation
+): Promise<{ done: Set<number>; truncated: boolean }> {
+  let text: string;
+  try {
+    text = await fs.readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { done: new Set(), truncated: false };
+    }
+    throw error;
+  }
+
+  const [header, ...lines] = text.split('\n').filter(line => line.trim() !== '');
+  if (header && header !== JSON.stringify(operation)) {
+    throw new Error(`${file} records a different tag operation: ${header}`);
+  }
+  const done = new Set<number>();
+  for (const line of lines) {
+    try {
+      done.add(JSON.parse(line).number);
+    } catch {
+      // A run killed mid-write leaves a truncated last line; that post is simply redone
+    }
+  }
+  return { done, truncated: text !== '' && !text.endsWith('\n') };
+}
+
+/**
+ * Find every post carrying one of the tags
+ *
+ * The whole list is read before anything is updated, because updated posts drop
+ * out of the search results and would shift the pages.
+ */
+async function findTaggedPosts(
+  client: EsaClient,
+  tags: string[],
+  teamName: string | undefined,
+  requestOptions: RequestOptions
+): Promise<Post[]> {
+  const posts = new Map<number, Post>();
+  for (const tag of tags) {
+    const q = new EsaQuery().tag(tag).toString();
+    const params = { q, sort: 'number', order: 'asc', ...requestOptions } as const;
+    for await (const post of client.iteratePosts(params, teamName)) {
+      if (post.tags.includes(tag)) {
+        posts.set(post.number, post);
+      }
+    }
+  }
+  return [...posts.values()].sort((a, b) => a.number - b.number);
+}
+
+/**
+ * Whether an error concerns a single post, so the run can go on with the others
+ *
+ * Cancellations, network failures, rejected credentials, rate limits and errors that
+ * outlasted the client's retries would fail every remaining post the same way, so
+ * they stop the run.
+ */
+function isPostError(error: unknown): boolean {
+  if (error instanceof EsaEditConflictError) {
+    return true;
+  }
+  return error instanceof EsaApiError &&
+    !(error instanceof EsaUnauthorizedError || error instanceof EsaForbiddenError || error instanceof EsaRateLimitError) &&
+    (error.attempts ?? 1) === 1;
+}
+
+/**
+ * Apply a tag operation to every post carrying the source tags
+ */
+async function runTagOperation(
+  client: EsaClient,
+  operation: TagOperation,
+  options: TagOperationOptions,
+  teamName: string | undefined
+): Promise<TagOperationEntry[]> {
+  const { dryRun = false, concurrency = DEFAULT_CONCURRENCY, message, progressFile, ...requestOptions } = options;
+  const posts = await findTaggedPosts(client, operation.from, teamName, requestOptions);
+  const { done, truncated } = progressFile
+    ? await readProgress(progressFile, operation)
+    : { done: new Set<number>(), truncated: false };
+
+  if (progressFile && !dryRun) {
+    if (done.size === 0) {
+      await fs.mkdir(path.dirname(progressFile), { recursive: true });
+      await fs.writeFile(progressFile, `${JSON.stringify(operation)}\n`);
+    } else if (truncated) {
+      // Start new records on a line of their own
+      await fs.appendFile(progressFile, '\n');
+    }
+  }
+
+  const entries = new Map<number, TagOperationEntry>();
+  await forEachConcurrently(posts, concurrency, async post => {
+    const before = post.tags;
+    const entry: TagOperationEntry = {
+      number: post.number,
+      full_name: post.full_name,
+      before,
+      after: replaceTags(before, operation.from, operation.to),
+      action: 'update',
+    };
+    entries.set(post.number, entry);
+    if (done.has(post.number)) {
+      entry.action = 'skipped';
+      return;
+    }
+    if (dryRun) {
+      return;
+    }
+
+    try {
+      let changed = false;
+      const updated = await client.editPost(post.number, latest => {
+        entry.before = latest.tags;
+        entry.after = replaceTags(latest.tags, operation.from, operation.to);
+        changed = entry.after.join('\n') !== latest.tags.join('\n');
+        return changed ? { tags: entry.after, ...(message !== undefined ? { message } : {}) } : null;
+      }, teamName, requestOptions);
+      entry.after = updated.tags;
+      entry.action = changed ? 'update' : 'unchanged';
+    } catch (error) {
+      if (!isPostError(error)) {
+        throw error;
+      }
+      entry.action = error instanceof EsaEditConflictError ? 'conflict' : 'failed';
+      entry.reason = error instanceof Error ? error.message : String(error);
+      return;
+    }
+
+    if (progressFile) {
+      await fs.appendFile(progressFile, `${JSON.stringify({ number: post.number, action: entry.action })}\n`);
+    }
+  });
+
+  return posts.map(post => entries.get(post.number)!);
+}
+
+/**
+ * Rename a tag on every post carrying it
+ *
+ * Posts are found with a tag: search and updated with original_revision, so
+ * concurrent edits to a post are kept. Posts that already have the new tag keep
+ * a single copy. An API error about one post is recorded in its entry; a
+ * cancellation, a network failure or an authentication error stops the run and is
+ * thrown, and the progress log keeps the posts updated so far.
+ *
+ * @param client The client used to search and update posts
+ * @param from Tag to rename
+ * @param to New name of the tag
+ * @param teamName The team name (subdomain)
+ * @param options Dry run, concurrency, change message, progress log and per-call request options
+ * @returns One entry per affected post, in post number order
+ * @throws EsaAbortError, EsaNetworkError or EsaUnauthorizedError and similar errors that concern every post
+ */
+export function renameTag(
+  client: EsaClient,
+  from: string,
+  to: string,
+  teamName?: string,
+  options: TagOperationOptions = {}
+): Promise<TagOperationEntry[]> {
+  return runTagOperation(client, { operation: 'rename', from: [from], to }, options, teamName);
+}
+
+/**
+ * Replace several tags with one on every post carrying any of them
+ * @param client The client used to search and update posts
+ * @param sources Tags to merge
+ * @param target Tag that replaces them
+ * @param teamName The team name (subdomain)
+ * @param options Dry run, concurrency, change message, progress log and per-call request options
+ * @returns One entry per affected post, in post number order
+ */
+export function mergeTags(
+  client: EsaClient,
+  sources: string[],
+  target: string,
+  teamName?: string,
+  options: TagOperationOptions = {}
+): Promise<TagOperationEntry[]> {
+  const from = sources.filter(source => source !== target);
+  return runTagOperation(client, { operation: 'merge', from, to: target }, options, teamName);
+}
+
+/**
+ * Remove a tag from every post carrying it
+ * @param client The client used to search and update posts
+ * @param tag Tag to remove
+ * @param teamName The team name (subdomain)
+ * @param options Dry run, concurrency, change message, progress log and per-call request options
+ * @returns One entry per affected post, in post number order
+ */
+export function removeTag(
+  client: EsaClient,
+  tag: string,
+  teamName?: string,
+  options: TagOperationOptions = {}
+): Promise<TagOperationEntry[]> {
+  return runTagOperation(client, { operation: 'remove', from: [tag], to: null }, options, teamName);
+}
+
+/**
+ * Format tag operation entries as a plan or report, one line per post and a summary
+ * @param entries Entries returned by a tag operation
+ */
+export function formatTagOperationReport(entries: TagOperationEntry[]): string {
+  const symbols: Record<TagOperationAction, string> = {
+    update: '~', unchanged: '=', skipped: '-', conflict: '!', failed: '!',
+  };
+  const lines = entries.map(entry => {
+    const tags = `[${entry.before.join(', ')}] -> [${entry.after.join(', ')}]`;
+    return `${symbols[entry.action]} ${entry.action} #${entry.number} ${entry.full_name} ${tags}${entry.reason ? ` (${entry.reason})` : ''}`;
+  });
+
+  const count = (action: TagOperationAction) => entries.filter(entry => entry.action === action).length;
+  lines.push(
+    `${count('update')} to update, ${count('unchanged')} unchanged, ${count('skipped')} skipped, ` +
+    `${count('conflict')} conflicting, ${count('failed')} failed`
+  );
+  return lines.join('\n');
+}
@@ -0,0 +1,201 @@
+import type { EsaClient } from './esa-client.js';
+import type { Post } from './types.js';
+import type { EditPostOptions } from './edit.js';
+import { EsaTaskNotFoundError } from './errors.js';
+
+/**
+ * Checkbox item of a Markdown task list
+ */
+export interface PostTask {
+  /** Zero-based position among the tasks of the body */
+  index: number;
+  /** One-based line number in the body */
+  line: number;
+  /** Nesting level of the list item, 0 at the top level */
+  depth: number;
+  /** Index of the closest enclosing task, or null for a top-level task */
+  parent: number | null;
+  done: boolean;
+  /** Text after the checkbox */
+  text: string;
+  /** Screen names mentioned in the text, without the @ */
+  mentions: string[];
+}
+
+/**
+ * Selects a task: its index, text it contains, a pattern its text matches, or a predicate
+ */
+export type TaskMatcher = number | string | RegExp | ((task: PostTask) => boolean);
+
+/**
+ * Options for toggling a task
+ */
+export interface TogglePostTaskOptions extends EditPostOptions {
+  /** Change message of the update (defaults to one naming the task) */
+  message?: string;
+}
+
+// Indent, list marker and checkbox, with the checkbox state as the second group
+const TASK_PATTERN = /^(\s*(?:[-*+]|\d+[.)])\s+\[)([ xX])\](?:\s+(.*))?$/;
+const CHECKBOX_PATTERN = /^(\s*(?:[-*+]|\d+[.)])\s+\[)[ xX]\]/;
+const LIST_ITEM_PATTERN = /^(\s*)(?:[-*+]|\d+[.)])\s/;
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})/;
+const MENTION_PATTERN = /(?:^|[^\w@])@([A-Za-z0-9_-]+)/g;
+
+/**
+ * Width of the indentation of a line, counting a tab as four spaces
+ */
+function indentWidth(indent: string): number {
+  return [...indent].reduce((width, char) => width + (char === '\t' ? 4 : 1), 0);
+}
+
+/**
+ * Extract the tasks of a Markdown body, skipping fenced code blocks
+ * @param body Markdown body of a post
+ */
+export function parseTasks(body: string): PostTask[] {
+  const tasks: PostTask[] = [];
+  // Open list items from the outermost, with the task each one is (if any)
+  const open: Array<{ indent: number; task: number | null }> = [];
+  let fence: string | null = null;
+
+  body.split('\n').forEach((rawLine, lineIndex) => {
+    const line = rawLine.replace(/\r$/, '');
+    const fenceMatch = FENCE_PATTERN.exec(line);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null;
+      }
+      return;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      return;
+    }
+
+    const item = LIST_ITEM_PATTERN.exec(line);
+    if (!item) {
+      // A line starting at the left margin ends every open list
+      if (line.trim() !== '' && !/^\s/.test(line)) {
+        open.length = 0;
+      }
+      return;
+    }
+
+    const indent = indentWidth(item[1]);
+    while (open.length > 0 && open[open.length - 1].indent >= indent) {
+      open.pop();
+    }
+    const parent = [...open].reverse().find(entry => entry.task !== null)?.task ?? null;
+    const depth = open.length;
+
+    const task = TASK_PATTERN.exec(line);
+    if (task) {
+      const text = (task[3] ?? '').trim();
+      tasks.push({
+        index: tasks.length,
+        line: lineIndex + 1,
+        depth,
+        parent,
+        done: task[2] !== ' ',
+        text,
+        mentions: [...text.matchAll(MENTION_PATTERN)].map(match => match[1]),
+      });
+    }
+    open.push({ indent, task: task ? tasks.length - 1 : null });
+  });
+
+  return tasks;
+}
+
+/**
+ * Find the task a matcher selects
+ * @param tasks Tasks returned by parseTasks
+ * @param matcher Index, contained text, pattern or predicate
+ * @returns The first matching task
+ */
+export function findTask(tasks: PostTask[], matcher: TaskMatcher): PostTask | undefined {
+  if (typeof matcher === 'number') {
+    return tasks[matcher];
+  }
+  if (typeof matcher === 'string') {
+    return tasks.find(task => task.text.includes(matcher));
+  }
+  if (matcher instanceof RegExp) {
+    // Without g and y, test() ignores lastIndex, so earlier calls cannot make it skip a task
+    const pattern = new RegExp(matcher.source, matcher.flags.replace(/[gy]/g, ''));
+    return tasks.find(task => pattern.test(task.text));
+  }
+  return tasks.find(matcher);
+}
+
+/**
+ * Check or uncheck one task, leaving every other line of the body untouched
+ * @param body Markdown body of a post
+ * @param task The task to change, as returned by parseTasks for this body
+ * @param done Whether the task should be checked
+ * @returns The new body
+ */
+export function setTaskDone(body: string, task: PostTask, done: boolean): string {
+  const lines = body.split('\n');
+  const line = lines[task.line - 1];
+  if (line === undefined || !TASK_PATTERN.test(line.replace(/\r$/, ''))) {
+    throw new Error(`Line ${task.line} is not a task`);
+  }
+  lines[task.line - 1] = line.replace(CHECKBOX_PATTERN, `$1${done ? 'x' : ' '}]`);
+  return lines.join('\n');
+}
+
+/**
+ * Describe a matcher for error messages
+ */
+function describeMatcher(matcher: TaskMatcher): string {
+  if (typeof matcher === 'number') {
+    return `#${matcher}`;
+  }
+  if (typeof matcher === 'function') {
+    return 'matching the predicate';
+  }
+  return matcher instanceof RegExp ? `matching ${matcher}` : `containing "${matcher}"`;
+}
+
+/**
+ * Check or uncheck a task in a post
+ *
+ * Only the line of the task changes, and the update goes through editPost, so it
+ * carries original_revision and concurrent edits are merged instead of overwritten.
+ * The task is looked up again on every attempt; prefer a text matcher over an index
+ * when others may add tasks to the post at the same time.
+ *
+ * @param client The client used to read and write the post
+ * @param postNumber The post number
+ * @param matcher Index, contained text, pattern or predicate selecting the task
+ * @param done Whether the task should be checked
+ * @param teamName The team name (subdomain)
+ * @param options Change message, conflict handling and per-call request options
+ * @returns The updated post, or the latest post when the task was already in that state
+ * @throws EsaTaskNotFoundError when no task matches
+ */
+export function togglePostTask(
+  client: EsaClient,
+  postNumber: number,
+  matcher: TaskMatcher,
+  done: boolean,
+  teamName?: string,
+  options: TogglePostTaskOptions = {}
+): Promise<Post> {
+  const { message, ...editOptions } = options;
+  return client.editPost(postNumber, post => {
+    const task = findTask(parseTasks(post.body_md), matcher);
+    if (!task) {
+      throw new EsaTaskNotFoundError(postNumber, describeMatcher(matcher));
+    }
+    if (task.done === done) {
+      return null;
+    }
+    return {
+      body_md: setTaskDone(post.body_md, task, done),
+      message: message ?? `${done ? 'Check' : 'Uncheck'} task: ${task.text}`,
+    };
+  }, teamName, editOptions);
+}
@@ -0,0 +1,160 @@
+import type { EsaClient, RequestOptions } from './esa-client.js';
+import type { CreatePostParams, Post } from './types.js';
+import { normalizeCategory, splitCategory } from './category.js';
+
+/**
+ * Values used to expand template placeholders
+ */
+export interface TemplateContext {
+  /** Time the date placeholders refer to (defaults to now) */
+  now?: Date;
+  /** IANA time zone of the date placeholders (defaults to Asia/Tokyo) */
+  timeZone?: string;
+  /** Screen name that %{me} expands to; left as is when omitted */
+  me?: string;
+  /** Extra placeholders, such as { project: 'api' } for %{project}; they take precedence over the built-in ones */
+  variables?: Record<string, string | number>;
+}
+
+/**
+ * Options for creating a post from a template
+ */
+export interface CreatePostFromTemplateOptions extends TemplateContext, RequestOptions {
+  /** Values that replace the expanded ones, such as { wip: false } */
+  params?: Partial<CreatePostParams>;
+}
+
+const DEFAULT_TIME_ZONE = 'Asia/Tokyo';
+const PLACEHOLDER_PATTERN = /%\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+// Category under which esa keeps template posts
+const TEMPLATES_CATEGORY = 'templates';
+const WEEKDAYS = ['日', '月', '火', '水', '木', '金', '土'];
+
+/**
+ * Pad a number to two digits
+ */
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * ISO 8601 week number of a calendar date
+ */
+function isoWeek(year: number, month: number, day: number): number {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  const weekday = date.getUTCDay() || 7;
+  // The Thursday of the same week decides which year the week belongs to
+  date.setUTCDate(date.getUTCDate() + 4 - weekday);
+  const firstDay = Date.UTC(date.getUTCFullYear(), 0, 1);
+  return Math.ceil(((date.getTime() - firstDay) / 86_400_000 + 1) / 7);
+}
+
+/**
+ * Compute the date placeholders for a time in a time zone
+ * @param now The time
+ * @param timeZone IANA time zone
+ */
+export function dateVariables(now: Date, timeZone: string = DEFAULT_TIME_ZONE): Record<string, string> {
+  const parts: Record<string, number> = {};
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(now).forEach(part => {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  });
+  const { year, month, day, hour, minute, second } = parts;
+
+  return {
+    Year: String(year),
+    year: pad(year % 100),
+    month: pad(month),
+    day: pad(day),
+    Hour: pad(hour),
+    min: pad(minute),
+    sec: pad(second),
+    week_day: WEEKDAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()],
+    cweek: pad(isoWeek(year, month, day)),
+  };
+}
+
+/**
+ * Expand the %{...} placeholders of a template string
+ *
+ * Date placeholders are %{Year} (2024), %{year} (24), %{month}, %{day}, %{Hour},
+ * %{min}, %{sec} (two digits each), %{week_day} (月) and %{cweek} (ISO week). %{me}
+ * is the current user. Unknown placeholders are left as they are.
+ *
+ * @param text Template text
+ * @param context Time, time zone, current user and extra variables
+ */
+export function expandTemplate(text: string, context: TemplateContext = {}): string {
+  const variables: Record<string, string | number> = {
+    ...dateVariables(context.now ?? new Date(), context.timeZone),
+    ...(context.me !== undefined ? { me: context.me } : {}),
+    ...context.variables,
+  };
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? String(variables[name]) : placeholder
+  );
+}
+
+/**
+ * Expand a template post into the parameters of the post it creates
+ *
+ * The name, category, tags and body are expanded. A category under templates/ loses
+ * that prefix, so templates/日報/%{Year} becomes 日報/2024. The new post is WIP, like
+ * posts esa creates from a template.
+ *
+ * @param template The template post
+ * @param context Time, time zone, current user and extra variables
+ */
+export function expandTemplatePost(
+  template: Pick<Post, 'name' | 'category' | 'tags' | 'body_md'>,
+  context: TemplateContext = {}
+): CreatePostParams {
+  const segments = splitCategory(template.category);
+  const category = segments[0] === TEMPLATES_CATEGORY ? segments.slice(1).join('/') : segments.join('/');
+  const expandedCategory = normalizeCategory(expandTemplate(category, context));
+
+  return {
+    name: expandTemplate(template.name, context),
+    body_md: expandTemplate(template.body_md, context),
+    tags: template.tags.map(tag => expandTemplate(tag, context)),
+    ...(expandedCategory !== '' ? { category: expandedCategory } : {}),
+    wip: true,
+  };
+}
+
+/**
+ * Create a post from a template post, expanding its placeholders locally
+ *
+ * Unlike template_post_id, the expansion happens before the post is created, so
+ * extra variables can be used and the result can be adjusted through params.
+ * %{me} defaults to the screen name of the authenticated user.
+ *
+ * @param client The client used to read the template and create the post
+ * @param templatePostNumber Number of the template post
+ * @param teamName The team name (subdomain)
+ * @param options Template context, overriding params and per-call request options
+ * @returns The created post
+ */
+export async function createPostFromTemplate(
+  client: EsaClient,
+  templatePostNumber: number,
+  teamName?: string,
+  options: CreatePostFromTemplateOptions = {}
+): Promise<Post> {
+  const { now, timeZone, me, variables, params, ...requestOptions } = options;
+  const template = await client.getPost(templatePostNumber, undefined, teamName, requestOptions);
+  const screenName = me ?? (await client.getAuthenticatedUser(undefined, requestOptions)).screen_name;
+  const expanded = expandTemplatePost(template, { now, timeZone, me: screenName, variables });
+  return client.createPost({ ...expanded, ...params }, teamName, requestOptions);
+}
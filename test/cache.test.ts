@@ -0,0 +1,168 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EsaClient } from '../esa-client';
+import { FakeEsaServer } from '../fake-server';
+import { cacheMiddleware, CacheEntry, FileCacheStore, MemoryCacheStore } from '../cache';
+
+function jsonResponse(data: any, status: number = 200, headers: Record<string, string> = {}) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    json: jest.fn().mockResolvedValue(data),
+    headers: new Headers(headers),
+  };
+}
+
+function entry(data: unknown): CacheEntry {
+  return { status: 200, headers: {}, data, expiresAt: 0 };
+}
+
+describe('cacheMiddleware', () => {
+  let time: number;
+  const now = () => time;
+
+  beforeEach(() => {
+    time = Date.parse('2024-01-01T00:00:00Z');
+  });
+
+  test('should serve fresh entries and revalidate stale ones', async () => {
+    const fetch = jest.fn()
+      .mockResolvedValueOnce(jsonResponse({ members: 3 }, 200, { ETag: 'W/"v1"', 'Last-Modified': 'Mon, 01 Jan 2024 00:00:00 GMT' }))
+      .mockResolvedValueOnce({ ok: false, status: 304, json: jest.fn(), headers: new Headers() })
+      .mockResolvedValueOnce(jsonResponse({ members: 4 }, 200, { ETag: 'W/"v2"' }));
+    const client = new EsaClient({ token: 'token', teamName: 'test-team', fetch });
+    client.use(cacheMiddleware({ now, defaultTtlMs: 1000 }));
+
+    const first = await client.getTeamStats();
+    // 返した値を書き換えてもキャッシュには影響しない
+    first.members = 100;
+    expect(await client.getTeamStats()).toEqual({ members: 3 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    time += 1000;
+    expect(await client.getTeamStats()).toEqual({ members: 3 });
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(fetch.mock.calls[1][1].headers).toMatchObject({
+      'If-None-Match': 'W/"v1"',
+      'If-Modified-Since': 'Mon, 01 Jan 2024 00:00:00 GMT',
+    });
+
+    // 304 で期限が延長される
+    time += 999;
+    await client.getTeamStats();
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    time += 1;
+    expect(await client.getTeamStats()).toEqual({ members: 4 });
+    expect(fetch.mock.calls[2][1].headers['If-None-Match']).toBe('W/"v1"');
+  });
+
+  test('should apply per-endpoint TTLs and cache by query', async () => {
+    const fetch = jest.fn().mockImplementation(async () => jsonResponse({ tags: [], next_page: null }));
+    const client = new EsaClient({ token: 'token', teamName: 'test-team', fetch });
+    client.use(cacheMiddleware({
+      now,
+      ttl: { '/teams/:team_name/stats': 0, '/teams/:team_name/members/*': 5000 },
+      defaultTtlMs: 1000,
+    }));
+
+    await client.getTeamStats();
+    await client.getTeamStats();
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    await client.getTags('test-team', { page: 1 });
+    await client.getTags('test-team', { page: 1 });
+    await client.getTags('test-team', { page: 2 });
+    expect(fetch).toHaveBeenCalledTimes(4);
+
+    await client.getMember('alice');
+    time += 2000;
+    await client.getMember('alice');
+    await client.getTags('test-team', { page: 1 });
+    expect(fetch).toHaveBeenCalledTimes(6);
+  });
+
+  test('should invalidate related entries after mutations', async () => {
+    const server = new FakeEsaServer();
+    server.addPost({ name: 'One', tags: ['a'] });
+    server.addPost({ name: 'Two' });
+    const fetch = jest.fn(server.fetch);
+    const client = new EsaClient({ token: 'token', teamName: 'test-team', fetch });
+    client.use(cacheMiddleware({ now }));
+
+    const warm = async () => {
+      await client.getPost(1);
+      await client.getPost(2);
+      await client.getPosts({ q: 'tag:a' });
+      await client.getTags();
+      await client.getEmojis();
+    };
+    await warm();
+    await warm();
+    expect(fetch).toHaveBeenCalledTimes(5);
+
+    await client.updatePost(1, { body_md: 'updated', tags: ['b'] });
+    expect((await client.getPost(1)).body_md).toBe('updated');
+    expect((await client.getPosts({ q: 'tag:a' })).posts).toEqual([]);
+    expect((await client.getTags()).tags).toEqual([{ name: 'b', posts_count: 1 }]);
+    await client.getPost(2);
+    await client.getEmojis();
+    // 記事1・一覧・タグだけが再取得される
+    expect(fetch).toHaveBeenCalledTimes(9);
+
+    await client.createComment(2, { body_md: 'hi' });
+    expect((await client.getPost(2)).comments_count).toBe(1);
+    await client.getPost(1);
+    expect(fetch).toHaveBeenCalledTimes(11);
+  });
+
+  test('should not share entries between tokens', async () => {
+    const server = new FakeEsaServer();
+    server.addMember({ screen_name: 'alice' }, 'alice-token');
+    const store = new MemoryCacheStore();
+    const owner = new EsaClient({ token: 'token', teamName: 'test-team', fetch: server.fetch });
+    const alice = new EsaClient({ token: 'alice-token', teamName: 'test-team', fetch: server.fetch });
+    owner.use(cacheMiddleware({ store, now }));
+    alice.use(cacheMiddleware({ store, now }));
+
+    expect((await owner.getMember('alice')).myself).toBe(false);
+    expect((await alice.getMember('alice')).myself).toBe(true);
+    expect(await store.keys()).toHaveLength(2);
+  });
+});
+
+describe('MemoryCacheStore', () => {
+  test('should evict the least recently used entry', async () => {
+    const store = new MemoryCacheStore(2);
+    await store.set('a', entry(1));
+    await store.set('b', entry(2));
+    await store.get('a');
+    await store.set('c', entry(3));
+
+    expect(await store.keys()).toEqual(['a', 'c']);
+    expect(await store.get('b')).toBeUndefined();
+  });
+});
+
+describe('FileCacheStore', () => {
+  test('should keep entries on disk', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'esa-cache-'));
+    try {
+      const store = new FileCacheStore(path.join(dir, 'cache'));
+      expect(await store.keys()).toEqual([]);
+
+      await store.set('scope /teams/t/posts?page=1', entry({ posts: [] }));
+      await store.set('scope /teams/t/tags', entry({ tags: [] }));
+      expect(await new FileCacheStore(path.join(dir, 'cache')).get('scope /teams/t/tags')).toEqual(entry({ tags: [] }));
+      expect((await store.keys()).sort()).toEqual(['scope /teams/t/posts?page=1', 'scope /teams/t/tags']);
+
+      await store.delete('scope /teams/t/tags');
+      expect(await store.get('scope /teams/t/tags')).toBeUndefined();
+      await store.clear();
+      expect(await store.keys()).toEqual([]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
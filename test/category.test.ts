@@ -0,0 +1,103 @@
+import { EsaClient } from '../esa-client';
+import {
+  CategoryTree, normalizeCategory, joinCategory, parentCategory, isDescendantCategory,
+  escapeCategorySegment, unescapeCategorySegment, toBatchMovePath
+} from '../category';
+
+describe('category path helpers', () => {
+  test('normalizeCategory should trim slashes, spaces and empty segments', () => {
+    expect(normalizeCategory('/dev//infra / ')).toBe('dev/infra');
+    expect(normalizeCategory(null)).toBe('');
+  });
+
+  test('joinCategory should join paths', () => {
+    expect(joinCategory('/dev/', '', 'infra/aws')).toBe('dev/infra/aws');
+  });
+
+  test('parentCategory should return the parent path', () => {
+    expect(parentCategory('dev/infra')).toBe('dev');
+    expect(parentCategory('dev')).toBe('');
+    expect(parentCategory('')).toBeNull();
+  });
+
+  test('isDescendantCategory should compare whole segments', () => {
+    expect(isDescendantCategory('dev/infra', 'dev')).toBe(true);
+    expect(isDescendantCategory('devops', 'dev')).toBe(false);
+    expect(isDescendantCategory('dev', 'dev')).toBe(false);
+    expect(isDescendantCategory('/dev/', 'dev', true)).toBe(true);
+    expect(isDescendantCategory('dev', '')).toBe(true);
+  });
+
+  test('should escape slashes inside a category name', () => {
+    // スラッシュを含む名前は &#47; として保存される
+    const segment = escapeCategorySegment('CI/CD');
+    expect(segment).toBe('CI&#47;CD');
+    expect(unescapeCategorySegment(segment)).toBe('CI/CD');
+    expect(joinCategory('dev', segment)).toBe('dev/CI&#47;CD');
+  });
+
+  test('toBatchMovePath should wrap the path in slashes', () => {
+    expect(toBatchMovePath('dev/infra')).toBe('/dev/infra/');
+    expect(toBatchMovePath('')).toBe('/');
+  });
+});
+
+describe('CategoryTree', () => {
+  const tree = CategoryTree.fromPosts([
+    { category: 'dev/infra', wip: false },
+    { category: 'dev/infra', wip: true },
+    { category: 'dev/CI&#47;CD', wip: false },
+    { category: 'dev/api/v1', wip: true },
+    { category: 'archive', wip: false },
+    { category: null, wip: false },
+  ]);
+
+  test('should count posts per category including descendants', () => {
+    expect(tree.root.totalPostCount).toBe(6);
+    expect(tree.root.postCount).toBe(1);
+    expect(tree.get('dev')).toMatchObject({ postCount: 0, totalPostCount: 4, totalWipCount: 2 });
+    expect(tree.get('/dev/infra/')).toMatchObject({ name: 'infra', postCount: 2, wipCount: 1 });
+    expect(tree.get('dev/CI&#47;CD')?.name).toBe('CI/CD');
+    expect(tree.get('missing')).toBeUndefined();
+  });
+
+  test('should list children sorted by name', () => {
+    expect(tree.children().map(node => node.name)).toEqual(['archive', 'dev']);
+    expect(tree.children('dev').map(node => node.name)).toEqual(['api', 'CI/CD', 'infra']);
+  });
+
+  test('should walk parents before children', () => {
+    expect([...tree.walk('dev')].map(node => node.path)).toEqual([
+      'dev/api', 'dev/api/v1', 'dev/CI&#47;CD', 'dev/infra',
+    ]);
+  });
+
+  test('should find sparse and empty categories', () => {
+    expect(tree.findSparse(1).map(node => node.path)).toEqual([
+      'archive', 'dev/api', 'dev/api/v1', 'dev/CI&#47;CD',
+    ]);
+    expect(tree.findEmpty().map(node => node.path)).toEqual(['dev', 'dev/api']);
+  });
+
+  test('fetch should build the tree from every page of posts', async () => {
+    const fetch = jest.fn()
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: jest.fn().mockResolvedValue({ posts: [{ category: 'dev', wip: false }], next_page: 2 }),
+        headers: new Headers(),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: jest.fn().mockResolvedValue({ posts: [{ category: 'dev/api', wip: true }], next_page: null }),
+        headers: new Headers(),
+      });
+    const client = new EsaClient({ token: 'token', teamName: 'test-team', fetch });
+
+    const fetched = await CategoryTree.fetch(client, { q: 'in:dev' });
+
+    expect(fetched.get('dev')).toMatchObject({ postCount: 1, totalPostCount: 2, totalWipCount: 1 });
+    expect(fetch.mock.calls[0][0]).toContain('q=in%3Adev');
+  });
+});
@@ -0,0 +1,171 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EsaClient } from '../esa-client';
+import { runCli, CliIO } from '../cli';
+
+const user = { myself: false, name: 'Alice', screen_name: 'alice', icon: '' };
+
+const post = {
+  number: 1,
+  name: 'Runbook',
+  full_name: 'dev/Runbook #ops',
+  wip: false,
+  body_md: '# Runbook\n',
+  body_html: '',
+  created_at: '2024-01-01T00:00:00+09:00',
+  updated_at: '2024-01-02T00:00:00+09:00',
+  message: '',
+  url: 'https://test-team.esa.io/posts/1',
+  tags: ['ops'],
+  category: 'dev',
+  revision_number: 2,
+  created_by: user,
+  updated_by: user,
+};
+
+function jsonResponse(data: any, status: number = 200) {
+  return {
+    ok: status < 400,
+    status,
+    json: jest.fn().mockResolvedValue(data),
+    headers: new Headers(),
+  };
+}
+
+// CLI の入出力をテスト用に差し替える
+function createIO(fetch: jest.Mock, overrides: Partial<CliIO> = {}) {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const io: CliIO = {
+    stdout: text => stdout.push(text),
+    stderr: text => stderr.push(text),
+    readStdin: async () => '',
+    editFile: async () => {},
+    env: { ESA_API_TOKEN: 'env-token', ESA_TEAM_NAME: 'test-team', ESA_CONFIG: '/nonexistent/config.json' },
+    createClient: options => new EsaClient({ ...options, fetch }),
+    ...overrides,
+  };
+  return { io, stdout, stderr };
+}
+
+describe('runCli', () => {
+  test('should list posts as a table', async () => {
+    const fetch = jest.fn().mockResolvedValue(jsonResponse({ posts: [post, { ...post, number: 2, full_name: '日報/今日' }], next_page: null }));
+    const { io, stdout } = createIO(fetch);
+
+    const code = await runCli(['posts', 'list', '--q', 'in:dev', '--limit', '2'], io);
+
+    expect(code).toBe(0);
+    expect(fetch.mock.calls[0][0]).toBe('https://api.esa.io/v1/teams/test-team/posts?q=in%3Adev&page=1&per_page=2');
+    expect(fetch.mock.calls[0][1].headers.Authorization).toBe('Bearer env-token');
+    // 全角文字は2桁として揃える
+    expect(stdout[0]).toBe([
+      'NUMBER  FULL_NAME         WIP    UPDATED_AT',
+      '1       dev/Runbook #ops  false  2024-01-02T00:00:00+09:00',
+      '2       日報/今日         false  2024-01-02T00:00:00+09:00',
+    ].join('\n'));
+  });
+
+  test('should print JSON and Markdown', async () => {
+    const fetch = jest.fn().mockResolvedValue(jsonResponse(post));
+    const { io, stdout } = createIO(fetch);
+
+    await runCli(['posts', 'get', '1', '--format', 'json'], io);
+    await runCli(['posts', 'get', '1', '-f', 'markdown'], io);
+
+    expect(JSON.parse(stdout[0])).toEqual(post);
+    expect(stdout[1]).toBe('# dev/Runbook #ops\n\n# Runbook\n');
+  });
+
+  test('should resolve the token and team from flags before the config file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'esa-cli-'));
+    const config = path.join(dir, 'config.json');
+    await fs.writeFile(config, JSON.stringify({ token: 'config-token', team: 'config-team' }));
+    const fetch = jest.fn().mockResolvedValue(jsonResponse({ tags: [{ name: 'ops', posts_count: 3 }], next_page: null }));
+    const { io, stdout } = createIO(fetch, { env: {} });
+
+    try {
+      await runCli(['tags', 'list', '--config', config, '--team', 'flag-team', '-f', 'markdown'], io);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+
+    expect(fetch.mock.calls[0][0]).toContain('/teams/flag-team/tags');
+    expect(fetch.mock.calls[0][1].headers.Authorization).toBe('Bearer config-token');
+    expect(stdout[0]).toBe('| name | posts_count |\n| --- | --- |\n| ops | 3 |');
+  });
+
+  test('should create a post from standard input', async () => {
+    const fetch = jest.fn().mockResolvedValue(jsonResponse(post, 201));
+    const { io } = createIO(fetch, { readStdin: async () => '# Runbook\n' });
+
+    await runCli(['posts', 'create', '--full-name', 'dev/Runbook #ops (WIP)', '--message', 'Add'], io);
+
+    expect(JSON.parse(fetch.mock.calls[0][1].body)).toEqual({
+      post: { name: 'Runbook', category: 'dev', tags: ['ops'], wip: true, body_md: '# Runbook\n', message: 'Add' },
+    });
+  });
+
+  test('should edit a post in the editor', async () => {
+    const fetch = jest.fn()
+      .mockResolvedValueOnce(jsonResponse(post))
+      .mockResolvedValueOnce(jsonResponse({ ...post, body_md: '# Edited\n', revision_number: 3 }));
+    const { io } = createIO(fetch, {
+      editFile: async file => {
+        expect(await fs.readFile(file, 'utf8')).toBe('# Runbook\n');
+        await fs.writeFile(file, '# Edited\n');
+      },
+    });
+
+    await runCli(['posts', 'edit', '1'], io);
+
+    expect(JSON.parse(fetch.mock.calls[1][1].body).post).toMatchObject({
+      body_md: '# Edited\n',
+      original_revision: { number: 2 },
+    });
+  });
+
+  test('should refuse to delete without --yes', async () => {
+    const fetch = jest.fn().mockResolvedValue(jsonResponse({}, 204));
+    const { io, stderr } = createIO(fetch);
+
+    expect(await runCli(['posts', 'delete', '1'], io)).toBe(2);
+    expect(stderr[0]).toContain('Refusing to delete post #1 without --yes');
+    expect(fetch).not.toHaveBeenCalled();
+
+    expect(await runCli(['posts', 'delete', '1', '--yes'], io)).toBe(0);
+    expect(fetch.mock.calls[0][1].method).toBe('delete');
+  });
+
+  test('should report usage and API errors', async () => {
+    const fetch = jest.fn().mockResolvedValue(jsonResponse({ error: 'not_found', message: 'Not found' }, 404));
+    const { io, stdout, stderr } = createIO(fetch);
+
+    expect(await runCli(['--help'], io)).toBe(0);
+    expect(stdout[0]).toContain('Usage: esa');
+    expect(await runCli(['nope'], io)).toBe(2);
+    expect(await runCli(['posts', 'get', 'abc'], io)).toBe(2);
+    expect(await runCli(['posts', 'list', '--bogus'], io)).toBe(2);
+    expect(await runCli(['posts', 'list', '--limit', 'abc'], io)).toBe(2);
+    expect(stderr[stderr.length - 1]).toContain('--limit must be a positive integer');
+    expect(await runCli(['posts', 'list', '--limit', '0'], io)).toBe(2);
+    expect(fetch).not.toHaveBeenCalled();
+    expect(await runCli(['posts', 'get', '9'], io)).toBe(1);
+    expect(stderr[stderr.length - 1]).toContain('esa:');
+  });
+
+  test('should invite members and move categories', async () => {
+    const fetch = jest.fn()
+      .mockResolvedValueOnce(jsonResponse({ invitations: [{ email: 'a@example.com', expires_at: 'x', url: 'u', code: 'c' }] }))
+      .mockResolvedValueOnce(jsonResponse({ count: 2, from: '/a/', to: '/b/' }));
+    const { io, stdout } = createIO(fetch);
+
+    await runCli(['invite', 'a@example.com'], io);
+    await runCli(['categories', 'move', '/a/', '/b/'], io);
+
+    expect(JSON.parse(fetch.mock.calls[0][1].body)).toEqual({ member: { emails: ['a@example.com'] } });
+    expect(JSON.parse(fetch.mock.calls[1][1].body)).toEqual({ from: '/a/', to: '/b/' });
+    expect(stdout[1]).toBe('COUNT  FROM  TO\n2      /a/   /b/');
+  });
+});
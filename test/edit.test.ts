@@ -0,0 +1,156 @@
+import { EsaClient } from '../esa-client';
+import { parseConflictHunks, resolveConflicts } from '../edit';
+import { EsaEditConflictError, isEsaEditConflictError } from '../errors';
+import { Post } from '../types';
+
+const user = { myself: false, name: 'Bot', screen_name: 'bot', icon: '' };
+
+function makePost(overrides: Partial<Post>): Post {
+  return {
+    number: 1,
+    name: 'Log',
+    full_name: 'Log',
+    wip: false,
+    body_md: '',
+    body_html: '',
+    created_at: '2020-01-01T00:00:00+09:00',
+    updated_at: '2020-01-01T00:00:00+09:00',
+    message: '',
+    url: 'https://test-team.esa.io/posts/1',
+    tags: [],
+    category: null,
+    revision_number: 1,
+    created_by: user,
+    updated_by: user,
+    ...overrides,
+  };
+}
+
+function jsonResponse(status: number, data: any) {
+  return {
+    ok: status < 400,
+    status,
+    json: jest.fn().mockResolvedValue(data),
+    headers: new Headers(),
+  };
+}
+
+const conflicted = [
+  'header',
+  '<<<<<<< edit conflicted',
+  'line from bot a',
+  '=======',
+  'line from bot b',
+  '>>>>>>>',
+  'footer',
+].join('\n');
+
+describe('conflict markers', () => {
+  test('parseConflictHunks should extract both sides of each hunk', () => {
+    expect(parseConflictHunks(conflicted)).toEqual([{ ours: 'line from bot a', theirs: 'line from bot b' }]);
+    expect(parseConflictHunks('no conflicts')).toEqual([]);
+  });
+
+  test('resolveConflicts should replace each hunk with the chosen side', () => {
+    expect(resolveConflicts(conflicted, hunk => hunk.theirs)).toBe('header\nline from bot b\nfooter');
+    expect(resolveConflicts(conflicted, () => '')).toBe('header\nfooter');
+  });
+});
+
+describe('editPost', () => {
+  const append = (line: string) => (post: Post) => ({ body_md: `${post.body_md}\n${line}` });
+
+  test('should send original_revision with the transformed post', async () => {
+    const fetch = jest.fn()
+      .mockResolvedValueOnce(jsonResponse(200, makePost({ body_md: 'a', revision_number: 3 })))
+      .mockResolvedValueOnce(jsonResponse(200, makePost({ body_md: 'a\nb', revision_number: 4 })));
+    const client = new EsaClient({ token: 'token', teamName: 'test-team', fetch });
+
+    const post = await client.editPost(1, append('b'));
+
+    expect(post.revision_number).toBe(4);
+    expect(fetch.mock.calls[1][1].method).toBe('PATCH');
+    expect(JSON.parse(fetch.mock.calls[1][1].body)).toEqual({
+      post: {
+        body_md: 'a\nb',
+        original_revision: { body_md: 'a', number: 3, user: 'bot' },
+      },
+    });
+  });
+
+  test('should skip the update when the transform returns null', async () => {
+    const fetch = jest.fn().mockResolvedValue(jsonResponse(200, makePost({ body_md: 'a' })));
+    const client = new EsaClient({ token: 'token', teamName: 'test-team', fetch });
+
+    const post = await client.editPost(1, () => null);
+
+    expect(post.body_md).toBe('a');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('should re-apply the transform on top of the concurrent change when overlapped', async () => {
+    const overlapped = makePost({
+      body_md: 'log\n<<<<<<< edit conflicted\nfrom a\n=======\nfrom b\n>>>>>>>',
+      revision_number: 3,
+      overlapped: true,
+    });
+    const fetch = jest.fn()
+      .mockResolvedValueOnce(jsonResponse(200, makePost({ body_md: 'log', revision_number: 1 })))
+      .mockResolvedValueOnce(jsonResponse(200, overlapped))
+      .mockResolvedValueOnce(jsonResponse(200, makePost({ body_md: 'log\nfrom b\nfrom a', revision_number: 4 })));
+    const client = new EsaClient({ token: 'token', teamName: 'test-team', fetch });
+
+    const post = await client.editPost(1, append('from a'));
+
+    expect(post.revision_number).toBe(4);
+    // 競合した相手側の変更を残したうえで、もう一度追記する
+    expect(JSON.parse(fetch.mock.calls[2][1].body)).toEqual({
+      post: {
+        body_md: 'log\nfrom b\nfrom a',
+        original_revision: { body_md: overlapped.body_md, number: 3, user: 'bot' },
+      },
+    });
+  });
+
+  test('should re-fetch and retry after a 409 response', async () => {
+    const fetch = jest.fn()
+      .mockResolvedValueOnce(jsonResponse(200, makePost({ body_md: 'log', revision_number: 1 })))
+      .mockResolvedValueOnce(jsonResponse(409, { error: 'conflict', message: 'Conflict' }))
+      .mockResolvedValueOnce(jsonResponse(200, makePost({ body_md: 'log\nfrom b', revision_number: 2 })))
+      .mockResolvedValueOnce(jsonResponse(200, makePost({ body_md: 'log\nfrom b\nfrom a', revision_number: 3 })));
+    const client = new EsaClient({ token: 'token', teamName: 'test-team', fetch, retry: false });
+
+    const post = await client.editPost(1, append('from a'));
+
+    expect(post.body_md).toBe('log\nfrom b\nfrom a');
+    expect(JSON.parse(fetch.mock.calls[3][1].body).post.original_revision.number).toBe(2);
+  });
+
+  test('should report the conflicting hunks with the fail strategy', async () => {
+    const fetch = jest.fn()
+      .mockResolvedValueOnce(jsonResponse(200, makePost({ body_md: 'log' })))
+      .mockResolvedValueOnce(jsonResponse(200, makePost({ body_md: conflicted, overlapped: true })));
+    const client = new EsaClient({ token: 'token', teamName: 'test-team', fetch });
+
+    const error = await client.editPost(1, append('x'), undefined, { strategy: 'fail' }).catch(e => e);
+
+    expect(isEsaEditConflictError(error)).toBe(true);
+    expect((error as EsaEditConflictError).hunks).toEqual([{ ours: 'line from bot a', theirs: 'line from bot b' }]);
+    expect((error as EsaEditConflictError).attempts).toBe(1);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  test('should give up after maxAttempts', async () => {
+    const fetch = jest.fn().mockImplementation(async () =>
+      jsonResponse(200, makePost({ body_md: conflicted, overlapped: true }))
+    );
+    const client = new EsaClient({ token: 'token', teamName: 'test-team', fetch });
+
+    const error = await client.editPost(1, append('x'), undefined, { maxAttempts: 2 }).catch(e => e);
+
+    expect(isEsaEditConflictError(error)).toBe(true);
+    expect((error as EsaEditConflictError).attempts).toBe(2);
+    // getPost 1回 + updatePost 2回
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,107 @@
+import { EsaClient } from '../esa-client';
+import {
+  EsaApiError, EsaValidationError, EsaUnauthorizedError, EsaForbiddenError, EsaNotFoundError,
+  EsaRateLimitError, EsaServerError, EsaNetworkError, EsaTimeoutError,
+  createEsaApiError, createEsaNetworkError,
+  isEsaApiError, isEsaNotFoundError, isEsaRateLimitError, isEsaNetworkError, isEsaTimeoutError
+} from '../errors';
+
+describe('error hierarchy', () => {
+  test.each([
+    [400, EsaValidationError],
+    [422, EsaValidationError],
+    [401, EsaUnauthorizedError],
+    [403, EsaForbiddenError],
+    [404, EsaNotFoundError],
+    [429, EsaRateLimitError],
+    [500, EsaServerError],
+    [503, EsaServerError],
+    [409, EsaApiError]
+  ])('createEsaApiError should map %i to the matching class', (status, errorClass) => {
+    const error = createEsaApiError(status, { error: 'error', message: 'message' });
+
+    expect(error).toBeInstanceOf(errorClass);
+    expect(error).toBeInstanceOf(EsaApiError);
+    expect(error.status).toBe(status);
+  });
+
+  test('errors should carry the body, request and headers', () => {
+    const headers = new Headers({ 'retry-after': '30' });
+    const error = createEsaApiError(
+      429,
+      { error: 'too_many_requests', message: 'Rate limit exceeded' },
+      headers,
+      { method: 'get', url: 'https://api.esa.io/v1/teams/test-team' }
+    );
+
+    expect(error.data).toEqual({ error: 'too_many_requests', message: 'Rate limit exceeded' });
+    expect(error.body).toEqual({ error: 'too_many_requests', message: 'Rate limit exceeded' });
+    expect(error.method).toBe('get');
+    expect(error.url).toBe('https://api.esa.io/v1/teams/test-team');
+    expect(error.headers).toBe(headers);
+    expect(isEsaRateLimitError(error) && error.retryAfterMs).toBe(30000);
+  });
+
+  test('errors should normalize bodies without error or message and keep the raw body', () => {
+    const error = createEsaApiError(500, { message: 'Internal Server Error' });
+    const text = createEsaApiError(502, 'Bad Gateway');
+
+    expect(error.data).toEqual({ message: 'Internal Server Error' });
+    expect(error.body).toEqual({ error: 'unknown_error', message: 'Internal Server Error' });
+    expect(text.data).toBe('Bad Gateway');
+    expect(text.body).toEqual({ error: 'unknown_error', message: 'Bad Gateway' });
+  });
+
+  test('createEsaNetworkError should detect timeouts', () => {
+    const timeout = new Error('The operation timed out');
+    timeout.name = 'TimeoutError';
+
+    expect(createEsaNetworkError(timeout)).toBeInstanceOf(EsaTimeoutError);
+    expect(createEsaNetworkError(new TypeError('fetch failed'))).not.toBeInstanceOf(EsaTimeoutError);
+  });
+
+  test('type guards should narrow errors', () => {
+    const notFound = createEsaApiError(404, { error: 'not_found', message: 'Not found' });
+    const network = createEsaNetworkError(new TypeError('fetch failed'));
+
+    expect(isEsaApiError(notFound)).toBe(true);
+    expect(isEsaNotFoundError(notFound)).toBe(true);
+    expect(isEsaRateLimitError(notFound)).toBe(false);
+    expect(isEsaNetworkError(network)).toBe(true);
+    expect(isEsaApiError(network)).toBe(false);
+    expect(isEsaTimeoutError(network)).toBe(false);
+    expect(isEsaNotFoundError(new Error('other'))).toBe(false);
+  });
+});
+
+describe('EsaClient errors', () => {
+  test('should throw typed errors with the request', async () => {
+    const fetch = jest.fn().mockResolvedValue({
+      ok: false,
+      status: 404,
+      json: jest.fn().mockResolvedValue({ error: 'not_found', message: 'Not found' }),
+      headers: new Headers()
+    });
+    const client = new EsaClient({ token: 'test-token', teamName: 'test-team', fetch });
+
+    const promise = client.getPost(999);
+
+    await expect(promise).rejects.toBeInstanceOf(EsaNotFoundError);
+    await expect(promise).rejects.toMatchObject({
+      method: 'get',
+      url: 'https://api.esa.io/v1/teams/test-team/posts/999'
+    });
+  });
+
+  test('should wrap fetch failures in EsaNetworkError', async () => {
+    const fetch = jest.fn().mockRejectedValue(new TypeError('fetch failed'));
+    const client = new EsaClient({ token: 'test-token', teamName: 'test-team', fetch, retry: false });
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const promise = client.getTeam();
+
+    await expect(promise).rejects.toBeInstanceOf(EsaNetworkError);
+    await expect(promise).rejects.toMatchObject({ cause: expect.any(TypeError) });
+    errorSpy.mockRestore();
+  });
+});
@@ -245,6 +245,18 @@ describe('EsaClient', () => {
       
       expect(result).toEqual(mockPost);
     });
+
+    test('updatePost should send the PATCH method in upper case', async () => {
+      mockFetchSuccess({ number: 1, name: 'Updated Post' });
+
+      await client.updatePost(1, { name: 'Updated Post' });
+
+      // fetch は patch を大文字にしないため、小文字のままだとサーバーに拒否される
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://api.esa.io/v1/teams/test-team/posts/1',
+        expect.objectContaining({ method: 'PATCH' })
+      );
+    });
   });
   
   describe('Comments API', () => {
@@ -340,4 +352,40 @@ describe('EsaClient', () => {
       expect(result).toEqual({ success: true });
     });
   });
+  
+  describe('Transport options', () => {
+    test('should use the injected fetch, base URL and headers', async () => {
+      const customFetch = jest.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: jest.fn().mockResolvedValue({ name: 'test-team' }),
+        headers: new Headers()
+      });
+      
+      const customClient = new EsaClient({
+        token: 'test-token',
+        teamName: 'test-team',
+        fetch: customFetch,
+        baseUrl: 'http://localhost:3000/v1/',
+        userAgent: 'my-app/1.0',
+        headers: { 'X-Request-Id': 'abc' }
+      });
+      
+      const result = await customClient.getTeam();
+      
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(customFetch).toHaveBeenCalledWith(
+        'http://localhost:3000/v1/teams/test-team',
+        expect.objectContaining({
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'my-app/1.0',
+            'X-Request-Id': 'abc',
+            'Authorization': 'Bearer test-token'
+          }
+        })
+      );
+      expect(result).toEqual({ name: 'test-team' });
+    });
+  });
 });
@@ -0,0 +1,200 @@
+import { EsaClient } from '../esa-client';
+import { FakeEsaServer } from '../fake-server';
+import { EsaApiError, EsaForbiddenError, EsaNotFoundError, EsaRateLimitError, EsaUnauthorizedError } from '../errors';
+import { EsaQuery } from '../query';
+
+function createClient(server: FakeEsaServer, token: string = 'token') {
+  return new EsaClient({ token, teamName: 'test-team', fetch: server.fetch, retry: false });
+}
+
+describe('FakeEsaServer', () => {
+  let server: FakeEsaServer;
+  let client: EsaClient;
+
+  beforeEach(() => {
+    let time = Date.parse('2024-01-01T00:00:00Z');
+    // 呼び出しごとに1秒進む時計
+    server = new FakeEsaServer({ now: () => new Date(time += 1000) });
+    client = createClient(server);
+  });
+
+  test('should create, list and search posts', async () => {
+    await client.createPost({ name: 'Deploy', category: 'dev/runbooks', tags: ['ops'], body_md: 'kubectl', wip: false });
+    await client.createPost({ fullName: '日報/2024/今日 #daily (WIP)' });
+    for (let i = 0; i < 3; i++) {
+      server.addPost({ name: `Note ${i}`, category: 'dev' });
+    }
+
+    const first = await client.getPosts({ per_page: 2 });
+    expect(first.posts.map(post => post.name)).toEqual(['Note 2', 'Note 1']);
+    expect(first).toMatchObject({ total_count: 5, next_page: 2, prev_page: null, max_per_page: 100 });
+
+    const all = [];
+    for await (const post of client.iteratePosts({ per_page: 2, sort: 'number', order: 'asc' })) {
+      all.push(post.number);
+    }
+    expect(all).toEqual([1, 2, 3, 4, 5]);
+
+    const search = async (q: string | EsaQuery) => (await client.getPosts({ q })).posts.map(post => post.number);
+    expect(await search('in:dev -tag:ops')).toEqual([5, 4, 3]);
+    expect(await search(new EsaQuery().tag('ops').wip(false))).toEqual([1]);
+    expect(await search('kubectl OR on:日報/2024')).toEqual([2, 1]);
+
+    const post = await client.getPost(1);
+    expect(post).toMatchObject({ full_name: 'dev/runbooks/Deploy #ops', revision_number: 1, watchers_count: 1 });
+    expect((await client.getPost(2)).wip).toBe(true);
+  });
+
+  test('should keep revisions and merge concurrent edits', async () => {
+    const post = server.addPost({ name: 'Memo', body_md: 'a\nb\nc' });
+    await client.updatePost(post.number, { body_md: 'a\nB\nc', message: 'Fix b' });
+
+    // 古いリビジョンを元にした別の行の変更はマージされる
+    const merged = await client.updatePost(post.number, {
+      body_md: 'A\nb\nc',
+      original_revision: { body_md: 'a\nb\nc', number: 1, user: 'owner' },
+    });
+    expect(merged).toMatchObject({ body_md: 'A\nB\nc', revision_number: 3, overlapped: false });
+
+    // 同じ行の変更は競合マーカー付きで保存される
+    const conflicted = await client.updatePost(post.number, {
+      body_md: 'a\nY\nc',
+      original_revision: { body_md: 'a\nb\nc', number: 1, user: 'owner' },
+    });
+    expect(conflicted.overlapped).toBe(true);
+    expect(conflicted.body_md).toBe('A\n<<<<<<<\nB\n=======\nY\n>>>>>>>\nc');
+
+    expect(server.getRevisions(post.number).map(revision => [revision.number, revision.message])).toEqual([
+      [1, ''], [2, 'Fix b'], [3, ''], [4, ''],
+    ]);
+  });
+
+  test('should resolve conflicts through editPost', async () => {
+    const post = server.addPost({ name: 'Memo', body_md: 'title\n\nbody' });
+    const stale = await client.getPost(post.number);
+    await client.updatePost(post.number, { body_md: 'title\n\nbody\n\nfooter' });
+
+    const updated = await client.editPost(post.number, current => ({
+      body_md: current.body_md.replace('title', 'TITLE'),
+    }));
+
+    expect(updated.body_md).toBe('TITLE\n\nbody\n\nfooter');
+    expect(stale.revision_number).toBe(1);
+  });
+
+  test('should track comments, stars, watches and tags', async () => {
+    server.addMember({ screen_name: 'alice' }, 'alice-token');
+    const alice = createClient(server, 'alice-token');
+    const post = server.addPost({ name: 'Memo', tags: ['a', 'b'] }, 'alice');
+    server.addPost({ name: 'Other', tags: ['b'] });
+
+    const comment = await client.createComment(post.number, { body_md: 'LGTM' });
+    await alice.starPost(post.number, { body: 'nice' });
+    await alice.starComment(comment.id);
+    await client.watchPost(post.number);
+    await alice.unwatchPost(post.number);
+
+    expect(await client.getPost(post.number)).toMatchObject({
+      comments_count: 1, stargazers_count: 1, watchers_count: 1, star: false, watch: true,
+    });
+    expect((await client.getPostStargazers(post.number)).stargazers[0]).toMatchObject({
+      body: 'nice', user: { screen_name: 'alice', myself: false },
+    });
+    expect((await alice.getComment(comment.id)).star).toBe(true);
+    expect((await client.getTags()).tags).toEqual([{ name: 'b', posts_count: 2 }, { name: 'a', posts_count: 1 }]);
+    expect(await client.getTeamStats()).toMatchObject({ members: 2, posts: 2, comments: 1, stars: 2 });
+
+    // 他人のコメントは編集できない
+    await expect(alice.deleteComment(comment.id)).rejects.toBeInstanceOf(EsaForbiddenError);
+  });
+
+  test('should move categories in batch', async () => {
+    server.addPost({ name: 'A', category: 'old' });
+    server.addPost({ name: 'B', category: 'old/sub' });
+    server.addPost({ name: 'C', category: 'older' });
+
+    expect(await client.batchMoveCategory({ from: '/old/', to: '/new/' })).toEqual({ count: 2, from: '/old/', to: '/new/' });
+    expect([1, 2, 3].map(number => server.getPost(number)!.category)).toEqual(['new', 'new/sub', 'older']);
+  });
+
+  test('should manage members, invitations and emojis', async () => {
+    server.addMember({ screen_name: 'bob', email: 'bob@example.com' }, 'bob-token');
+    const bob = createClient(server, 'bob-token');
+
+    const { invitations } = await client.inviteMembers({ emails: ['carol@example.com'] });
+    expect((await client.getInvitations()).invitations).toEqual(invitations);
+    await expect(bob.getInvitations()).rejects.toBeInstanceOf(EsaForbiddenError);
+    await client.deleteInvitation(invitations[0].code);
+    await expect(client.deleteInvitation(invitations[0].code)).rejects.toBeInstanceOf(EsaNotFoundError);
+
+    await client.createEmoji({ code: 'party', image: new File(['png'], 'party.png') });
+    await client.createEmoji({ code: 'tada', origin_code: 'party' });
+    expect((await client.getEmojis()).emojis.map(emoji => [emoji.code, emoji.aliases])).toEqual([
+      ['party', ['tada']], ['tada', []],
+    ]);
+
+    expect((await client.getMember('bob@example.com')).screen_name).toBe('bob');
+    await client.deleteMember('bob');
+    await expect(bob.getPosts()).rejects.toBeInstanceOf(EsaUnauthorizedError);
+  });
+
+  test('should return 404 for unknown posts and teams', async () => {
+    await expect(client.getPost(99)).rejects.toBeInstanceOf(EsaNotFoundError);
+    await expect(client.getPosts({}, 'other-team')).rejects.toBeInstanceOf(EsaNotFoundError);
+  });
+
+  test('should return 400 for a malformed search query', async () => {
+    const error = await client.getPosts({ q: 'foo ()' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(EsaApiError);
+    expect(error.status).toBe(400);
+    expect(error.message).toContain('Empty group at position 4');
+  });
+
+  test('should return 400 for a malformed OAuth request body', async () => {
+    server.addOAuthApplication({ client_id: 'app', client_secret: 'secret', redirect_uri: 'https://example.com/callback' });
+    const post = (path: string, body: string) => server.fetch(`https://api.esa.io${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+    });
+
+    for (const [path, body] of [['/oauth/token', '{"client_id":'], ['/oauth/revoke', 'null']]) {
+      const response = await post(path, body);
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe('invalid_request');
+    }
+  });
+
+  test('should simulate the rate limit', async () => {
+    let time = Date.parse('2024-01-01T00:00:00Z');
+    server = new FakeEsaServer({ rateLimit: 2, rateLimitWindowMs: 60_000, now: () => new Date(time) });
+    client = createClient(server);
+
+    await client.getTeam();
+    await client.getTeam();
+    expect(client.getRateLimit()).toMatchObject({ limit: 2, remaining: 0 });
+    const error = await client.getTeam().catch(e => e);
+    expect(error).toBeInstanceOf(EsaRateLimitError);
+    expect(error.headers.get('retry-after')).toBe('60');
+
+    time += 60_000;
+    await expect(client.getTeam()).resolves.toMatchObject({ name: 'test-team' });
+  });
+
+  test('should serve the API over HTTP', async () => {
+    const baseUrl = await server.listen();
+    try {
+      const http = new EsaClient({ token: 'token', teamName: 'test-team', baseUrl, retry: false });
+      const post = await http.createPost({ name: 'Over HTTP', body_md: 'hello' });
+      await http.createEmoji({ code: 'wave', image: new File(['png'], 'wave.png') });
+
+      expect(post).toMatchObject({ number: 1, body_md: 'hello' });
+      expect(await http.updatePost(1, { body_md: 'bye' })).toMatchObject({ revision_number: 2 });
+      expect((await http.getEmojis()).emojis.map(emoji => emoji.code)).toEqual(['wave']);
+      await expect(http.deletePost(2)).rejects.toBeInstanceOf(EsaNotFoundError);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,113 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EsaClient } from '../esa-client';
+import { FakeEsaServer } from '../fake-server';
+import { FixtureTransport } from '../fixtures';
+import { EsaFixtureMismatchError } from '../errors';
+
+describe('FixtureTransport', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'esa-fixtures-'));
+    file = path.join(dir, 'nested', 'posts.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  // 実際の API の代わりにフェイクサーバーで記録する
+  async function record() {
+    const server = new FakeEsaServer({ teamName: 'real-team', token: 'secret-token', rateLimit: 75 });
+    const transport = await FixtureTransport.open({
+      mode: 'record',
+      file,
+      fetch: server.fetch,
+      replacements: { 'real-team': 'test-team' },
+    });
+    const client = new EsaClient({ token: 'secret-token', teamName: 'real-team', fetch: transport.fetch });
+
+    const created = await client.createPost({ name: 'Memo', body_md: 'hello', wip: false });
+    const members = await client.getMembers();
+    await client.createEmoji({ code: 'wave', image: new File(['png'], 'wave.png') });
+    await client.deletePost(created.number);
+    await transport.save();
+    return { created, members };
+  }
+
+  test('should record redacted request/response pairs', async () => {
+    const { members } = await record();
+    // 記録中のクライアントには元のレスポンスを返す
+    expect(members.members[0].email).toBe('owner@example.com');
+
+    const text = await fs.readFile(file, 'utf8');
+    expect(text).not.toContain('secret-token');
+    expect(text).not.toContain('owner@example.com');
+    expect(text).not.toContain('real-team');
+
+    const fixture = JSON.parse(text);
+    expect(fixture.version).toBe(1);
+    expect(fixture.entries.map((entry: any) => `${entry.request.method} ${entry.request.url} ${entry.response.status}`)).toEqual([
+      'POST https://api.esa.io/v1/teams/test-team/posts 201',
+      'GET https://api.esa.io/v1/teams/test-team/members 200',
+      'POST https://api.esa.io/v1/teams/test-team/emojis 201',
+      'DELETE https://api.esa.io/v1/teams/test-team/posts/1 204',
+    ]);
+    expect(fixture.entries[0].request.headers.authorization).toBe('[REDACTED]');
+    expect(fixture.entries[0].request.body).toEqual({ post: { name: 'Memo', body_md: 'hello', wip: false } });
+    expect(fixture.entries[1].response.headers['x-ratelimit-limit']).toBe('75');
+    expect(fixture.entries[1].response.body.members[0].email).toBe('redacted@example.com');
+    expect(fixture.entries[2].request.body).toEqual({ 'emoji[code]': 'wave', 'emoji[image]': '[file wave.png, 3 bytes]' });
+    expect(fixture.entries[3].response.body).toBeNull();
+  });
+
+  test('should replay the recording without a network', async () => {
+    const { created } = await record();
+    const transport = await FixtureTransport.open({ mode: 'replay', file });
+    const client = new EsaClient({ token: 'any', teamName: 'test-team', fetch: transport.fetch, retry: false });
+
+    const post = await client.createPost({ name: 'Memo', body_md: 'hello', wip: false });
+    expect(post).toEqual({ ...created, url: 'https://test-team.esa.io/posts/1' });
+    expect((await client.getMembers()).members[0].email).toBe('redacted@example.com');
+    expect(client.getRateLimit()?.limit).toBe(75);
+
+    expect(() => transport.assertDone()).toThrow('2 recorded requests were never made');
+    await client.createEmoji({ code: 'wave', image: new File(['png'], 'wave.png') });
+    await client.deletePost(1);
+    expect(() => transport.assertDone()).not.toThrow();
+  });
+
+  test('should describe mismatched requests with a diff', async () => {
+    await record();
+    const transport = await FixtureTransport.open({ mode: 'replay', file });
+    // リトライが有効でも不一致はそのまま呼び出し元に届く
+    const client = new EsaClient({ token: 'any', teamName: 'test-team', fetch: transport.fetch });
+
+    const error = await client.createPost({ name: 'Note', body_md: 'hello', tags: ['a'] }).catch(e => e);
+
+    expect(error).toBeInstanceOf(EsaFixtureMismatchError);
+    expect(error.index).toBe(0);
+    expect(error.diff).toEqual([
+      '  body.post.name:',
+      '-   "Memo"',
+      '+   "Note"',
+      '  body.post.wip:',
+      '-   false',
+      '  body.post.tags.0:',
+      '+   "a"',
+    ]);
+
+    // 一致しなかったリクエストは消費されない
+    await client.createPost({ name: 'Memo', body_md: 'hello', wip: false });
+    await client.getMembers();
+    await client.createEmoji({ code: 'wave', image: new File(['png'], 'wave.png') });
+    await client.deletePost(1);
+    // 冪等な DELETE でもネットワークエラーとしてリトライしない
+    const extra = await client.deletePost(1).catch(e => e);
+    expect(extra).toBeInstanceOf(EsaFixtureMismatchError);
+    expect(extra.message).toContain('Request #5 was not recorded; 4 requests are in');
+  });
+});
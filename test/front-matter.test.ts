@@ -0,0 +1,60 @@
+import { formatFrontMatter, parseFrontMatter, setFrontMatterField } from '../front-matter';
+
+describe('front matter', () => {
+  test('should round-trip the fields it writes', () => {
+    const data = {
+      number: 12,
+      name: 'Runbook: "deploy"',
+      category: null,
+      tags: ['ops', 'on call'],
+      wip: false,
+    };
+    const text = formatFrontMatter(data, '# Runbook\n');
+
+    expect(text).toBe([
+      '---',
+      'number: 12',
+      'name: "Runbook: \\"deploy\\""',
+      'category: null',
+      'tags: ["ops", "on call"]',
+      'wip: false',
+      '---',
+      '# Runbook',
+      '',
+    ].join('\n'));
+    expect(parseFrontMatter(text)).toEqual({ data, body: '# Runbook\n' });
+  });
+
+  test('should read hand-written YAML', () => {
+    const text = [
+      '---',
+      '# 手書きのフロントマター',
+      'name: 議事録',
+      "title: 'It''s done'",
+      'tags:',
+      '  - ops',
+      '  - 42',
+      'category:',
+      'empty: []',
+      '---',
+      'body',
+    ].join('\r\n');
+
+    expect(parseFrontMatter(text)).toEqual({
+      data: { name: '議事録', title: "It's done", tags: ['ops', 42], category: null, empty: [] },
+      body: 'body',
+    });
+  });
+
+  test('should return the whole text as the body without front matter', () => {
+    expect(parseFrontMatter('# Title\n---\n')).toEqual({ data: {}, body: '# Title\n---\n' });
+    expect(parseFrontMatter('---\nname: x\n')).toEqual({ data: {}, body: '---\nname: x\n' });
+  });
+
+  test('setFrontMatterField should replace or add a single field', () => {
+    const text = '---\nname: x\ntags:\n  - a\n---\nbody';
+    expect(setFrontMatterField(text, 'tags', ['b'])).toBe('---\nname: x\ntags: ["b"]\n---\nbody');
+    expect(setFrontMatterField(text, 'number', 5)).toBe('---\nname: x\ntags:\n  - a\nnumber: 5\n---\nbody');
+    expect(setFrontMatterField('body', 'number', 5)).toBe('---\nnumber: 5\n---\nbody');
+  });
+});
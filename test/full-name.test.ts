@@ -0,0 +1,90 @@
+import { EsaClient } from '../esa-client';
+import { parseFullName, formatFullName, expandFullName } from '../full-name';
+
+describe('parseFullName', () => {
+  test('should split category, name, tags and WIP', () => {
+    expect(parseFullName('dev/infra/Runbook #ops #oncall (WIP)')).toEqual({
+      category: 'dev/infra',
+      name: 'Runbook',
+      tags: ['ops', 'oncall'],
+      wip: true,
+    });
+  });
+
+  test('should handle posts without a category or tags', () => {
+    expect(parseFullName('Runbook')).toEqual({ category: null, name: 'Runbook', tags: [], wip: false });
+  });
+
+  test('should keep # that is not a trailing tag in the name', () => {
+    expect(parseFullName('lang/C# tips #dev')).toEqual({
+      category: 'lang', name: 'C# tips', tags: ['dev'], wip: false,
+    });
+  });
+
+  test('should unescape slashes in the name', () => {
+    expect(parseFullName('dev/CI&#47;CD/Pipeline &#47; overview').name).toBe('Pipeline / overview');
+    expect(parseFullName('dev/CI&#47;CD/Pipeline').category).toBe('dev/CI&#47;CD');
+  });
+
+  test('should accept full-width spaces, # and parentheses', () => {
+    // 全角の ＃ や（WIP）も認識する
+    expect(parseFullName('日報/2024/議事録　＃会議（WIP）')).toEqual({
+      category: '日報/2024',
+      name: '議事録',
+      tags: ['会議'],
+      wip: true,
+    });
+  });
+});
+
+describe('formatFullName', () => {
+  test('should round-trip with parseFullName', () => {
+    for (const fullName of [
+      'dev/infra/Runbook #ops #oncall (WIP)',
+      'Runbook',
+      'dev/Pipeline &#47; overview #ci',
+    ]) {
+      expect(formatFullName(parseFullName(fullName))).toBe(fullName);
+    }
+  });
+
+  test('should escape slashes and normalize the category', () => {
+    expect(formatFullName({ category: '/dev/', name: 'a/b', tags: ['#x'] })).toBe('dev/a&#47;b #x');
+  });
+});
+
+describe('expandFullName', () => {
+  test('should replace fullName and let explicit fields win', () => {
+    expect(expandFullName({ fullName: 'dev/a&#47;b #x (WIP)', wip: false, body_md: 'body', tags: undefined })).toEqual({
+      name: 'a&#47;b',
+      category: 'dev',
+      tags: ['x'],
+      wip: false,
+      body_md: 'body',
+    });
+  });
+
+  test('should leave params without fullName unchanged', () => {
+    expect(expandFullName({ name: 'Runbook' })).toEqual({ name: 'Runbook' });
+  });
+
+  test('createPost and updatePost should accept fullName', async () => {
+    const fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: jest.fn().mockResolvedValue({ number: 1 }),
+      headers: new Headers(),
+    });
+    const client = new EsaClient({ token: 'token', teamName: 'test-team', fetch });
+
+    await client.createPost({ fullName: 'dev/infra/Runbook #ops (WIP)', body_md: '# Runbook' });
+    await client.updatePost(1, { fullName: 'Runbook' });
+
+    expect(JSON.parse(fetch.mock.calls[0][1].body)).toEqual({
+      post: { name: 'Runbook', category: 'dev/infra', tags: ['ops'], wip: true, body_md: '# Runbook' },
+    });
+    expect(JSON.parse(fetch.mock.calls[1][1].body)).toEqual({
+      post: { name: 'Runbook', category: '', tags: [], wip: false },
+    });
+  });
+});
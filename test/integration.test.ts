@@ -5,29 +5,55 @@
  * 環境変数 ESA_API_TOKEN と ESA_TEAM_NAME を設定して実行してください
  * 
  * 例) ESA_API_TOKEN=xxx ESA_TEAM_NAME=your-team ESA_RUN_INTEGRATION=true npm test -- integration.test.ts
+ * 
+ * ESA_RECORD_FIXTURES=true を併せて設定すると、通信内容を test/fixtures/integration.json に記録します
+ * 記録済みのフィクスチャがある場合、実際のAPIを使わないときはそれを再生して実行します
  */
 
+import { existsSync } from 'fs';
+import * as path from 'path';
 import { EsaClient } from '../esa-client';
+import { FixtureTransport } from '../fixtures';
+
+const FIXTURE_FILE = path.join(__dirname, 'fixtures', 'integration.json');
+// フィクスチャに記録するチーム名
+const FIXTURE_TEAM_NAME = 'test-team';
 
 // 統合テストは、デフォルトではスキップします
 // 実行するには ESA_RUN_INTEGRATION=true の環境変数を設定してください
 const runIntegrationTests = process.env.ESA_RUN_INTEGRATION === 'true';
+const recordFixtures = runIntegrationTests && process.env.ESA_RECORD_FIXTURES === 'true';
+const replayFixtures = !runIntegrationTests && existsSync(FIXTURE_FILE);
 
 // 環境変数からトークンとチーム名を取得
-const token = process.env.ESA_API_TOKEN || '';
-const teamName = process.env.ESA_TEAM_NAME || '';
+const token = replayFixtures ? 'fixture-token' : process.env.ESA_API_TOKEN || '';
+const teamName = replayFixtures ? FIXTURE_TEAM_NAME : process.env.ESA_TEAM_NAME || '';
 
 // トークンとチーム名が設定されていない場合はテスト全体をスキップ
-const shouldSkip = !runIntegrationTests || !token || !teamName;
+const shouldSkip = !replayFixtures && (!runIntegrationTests || !token || !teamName);
 
 // テスト全体をスキップするか実行するか
 (shouldSkip ? describe.skip : describe)('Integration Tests', () => {
   let client: EsaClient;
+  let transport: FixtureTransport | undefined;
   let createdPostNumber: number;
   
-  beforeAll(() => {
+  beforeAll(async () => {
+    if (recordFixtures || replayFixtures) {
+      transport = await FixtureTransport.open({
+        mode: recordFixtures ? 'record' : 'replay',
+        file: FIXTURE_FILE,
+        replacements: { [teamName]: FIXTURE_TEAM_NAME },
+      });
+    }
     // 統合テスト用のクライアントを作成
-    client = new EsaClient({ token, teamName});
+    // 再生時は不一致をリトライしても同じ結果になるため、リトライしない
+    client = new EsaClient({
+      token,
+      teamName,
+      fetch: transport?.fetch,
+      ...(replayFixtures ? { retry: false as const } : {}),
+    });
   });
   
   // 認証情報の取得テスト
@@ -58,8 +84,8 @@ const shouldSkip = !runIntegrationTests || !token || !teamName;
   
   // 記事の作成と取得のテスト
   test('should create and retrieve a post', async () => {
-    // テスト用の記事を作成
-    const testTitle = `Test Post ${Date.now()}`;
+    // テスト用の記事を作成(再生できるよう、タイトルは固定)
+    const testTitle = 'Integration Test Post';
     const createdPost = await client.createPost({
       name: testTitle,
       body_md: '# Test Post\n\nThis is a test post created by integration test.',
@@ -166,5 +192,11 @@ const shouldSkip = !runIntegrationTests || !token || !teamName;
         console.error(`Failed to delete test post #${createdPostNumber}:`, error);
       }
     }
+    
+    if (recordFixtures) {
+      await transport?.save();
+    } else {
+      transport?.assertDone();
+    }
   });
 });
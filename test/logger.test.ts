@@ -0,0 +1,82 @@
+import { EsaClient } from '../esa-client';
+
+// ロガーのモック作成ヘルパー
+function mockLogger() {
+  return { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+}
+
+// レスポンスのモック作成ヘルパー
+function mockResponse(status: number, data: any) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    json: jest.fn().mockResolvedValue(data),
+    headers: new Headers()
+  };
+}
+
+describe('EsaClient logger', () => {
+  test('should not write to the console by default', async () => {
+    const fetch = jest.fn()
+      .mockResolvedValueOnce(mockResponse(503, { error: 'unavailable', message: 'Unavailable' }))
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(mockResponse(200, { name: 'test-team' }));
+    const client = new EsaClient({
+      token: 'test-token',
+      teamName: 'test-team',
+      fetch,
+      retry: { baseDelayMs: 0 }
+    });
+    const spies = (['debug', 'info', 'warn', 'error', 'log'] as const)
+      .map(level => jest.spyOn(console, level).mockImplementation(() => {}));
+
+    await client.getTeam();
+
+    spies.forEach(spy => {
+      expect(spy).not.toHaveBeenCalled();
+      spy.mockRestore();
+    });
+  });
+
+  test('should log completed requests with structured fields', async () => {
+    const logger = mockLogger();
+    const fetch = jest.fn().mockResolvedValue(mockResponse(200, { name: 'test-team' }));
+    const client = new EsaClient({ token: 'test-token', teamName: 'test-team', fetch, logger });
+
+    await client.getTeam();
+
+    expect(logger.debug).toHaveBeenCalledWith('ESA API request completed', {
+      method: 'get',
+      path: '/teams/:team_name',
+      status: 200,
+      durationMs: expect.any(Number),
+      retryCount: 0
+    });
+  });
+
+  test('should log retries and final failures', async () => {
+    const logger = mockLogger();
+    const fetch = jest.fn().mockResolvedValue(mockResponse(500, { error: 'internal', message: 'Internal' }));
+    const client = new EsaClient({
+      token: 'test-token',
+      teamName: 'test-team',
+      fetch,
+      logger,
+      retry: { maxAttempts: 2, baseDelayMs: 0 }
+    });
+
+    await expect(client.getTeam()).rejects.toThrow();
+
+    expect(logger.warn).toHaveBeenCalledWith('ESA API request failed, retrying', expect.objectContaining({
+      method: 'get',
+      path: '/teams/:team_name',
+      status: 500,
+      retryCount: 1
+    }));
+    expect(logger.error).toHaveBeenCalledWith('ESA API request failed', expect.objectContaining({
+      status: 500,
+      retryCount: 1,
+      durationMs: expect.any(Number)
+    }));
+  });
+});
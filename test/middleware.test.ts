@@ -0,0 +1,131 @@
+import { EsaClient } from '../esa-client';
+import { EsaNotFoundError } from '../errors';
+import { EsaMiddleware, loggingMiddleware, timingMiddleware } from '../middleware';
+
+// 成功レスポンスを返す fetch のモック作成ヘルパー
+function mockFetch(data: any, status: number = 200) {
+  return jest.fn().mockResolvedValue({
+    ok: status >= 200 && status < 300,
+    status,
+    json: jest.fn().mockResolvedValue(data),
+    headers: new Headers()
+  });
+}
+
+describe('EsaClient middleware', () => {
+  test('should run middlewares in order around the request', async () => {
+    const fetch = mockFetch({ name: 'test-team' });
+    const client = new EsaClient({ token: 'test-token', teamName: 'test-team', fetch });
+    const calls: string[] = [];
+
+    client
+      .use(async (request, next) => {
+        calls.push('first:before');
+        const response = await next(request);
+        calls.push('first:after');
+        return response;
+      })
+      .use(async (request, next) => {
+        calls.push('second:before');
+        const response = await next(request);
+        calls.push('second:after');
+        return response;
+      });
+
+    await client.getTeam();
+
+    expect(calls).toEqual(['first:before', 'second:before', 'second:after', 'first:after']);
+  });
+
+  test('should let middlewares modify the request and response', async () => {
+    const fetch = mockFetch({ name: 'tenant-team' });
+    const client = new EsaClient({ token: 'test-token', teamName: 'test-team', fetch });
+
+    client.use(async (request, next) => {
+      const response = await next({
+        ...request,
+        teamName: 'tenant-team',
+        headers: { ...request.headers, 'X-Trace-Id': 'trace-1' }
+      });
+      return { ...response, data: { ...response.data, traced: true } };
+    });
+
+    const result = await client.getTeam();
+
+    expect(fetch).toHaveBeenCalledWith(
+      'https://api.esa.io/v1/teams/tenant-team',
+      expect.objectContaining({
+        headers: expect.objectContaining({ 'X-Trace-Id': 'trace-1' })
+      })
+    );
+    expect(result).toEqual({ name: 'tenant-team', traced: true });
+  });
+
+  test('should allow short-circuiting with a synthetic response', async () => {
+    const fetch = mockFetch({});
+    const client = new EsaClient({ token: 'test-token', teamName: 'test-team', fetch });
+    const stub: EsaMiddleware = async () => ({ status: 200, headers: new Headers(), data: { name: 'stub' } });
+
+    client.use(stub);
+
+    await expect(client.getTeam()).resolves.toEqual({ name: 'stub' });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  test('should see errors after retries have run', async () => {
+    const fetch = mockFetch({ error: 'not_found', message: 'Not found' }, 404);
+    const client = new EsaClient({ token: 'test-token', teamName: 'test-team', fetch });
+    const seen: unknown[] = [];
+
+    client.use(async (request, next) => {
+      try {
+        return await next(request);
+      } catch (error) {
+        seen.push(error);
+        throw error;
+      }
+    });
+
+    await expect(client.getPost(1)).rejects.toBeInstanceOf(EsaNotFoundError);
+    expect(seen).toHaveLength(1);
+  });
+
+  test('loggingMiddleware should log requests and responses', async () => {
+    const fetch = mockFetch({ number: 1 });
+    const client = new EsaClient({ token: 'test-token', teamName: 'test-team', fetch });
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+    client.use(loggingMiddleware({ logger, bodies: true }));
+    await client.createPost({ name: 'New Post' });
+
+    expect(logger.debug).toHaveBeenNthCalledWith(1, '--> POST /teams/:team_name/posts', {
+      method: 'post',
+      path: '/teams/:team_name/posts',
+      body: { post: { name: 'New Post' } }
+    });
+    expect(logger.debug).toHaveBeenNthCalledWith(2, '<-- 200 POST /teams/:team_name/posts', {
+      method: 'post',
+      path: '/teams/:team_name/posts',
+      status: 200,
+      durationMs: expect.any(Number),
+      body: { number: 1 }
+    });
+  });
+
+  test('timingMiddleware should report durations and failures', async () => {
+    const fetch = mockFetch({ error: 'not_found', message: 'Not found' }, 404);
+    const client = new EsaClient({ token: 'test-token', teamName: 'test-team', fetch });
+    const onTiming = jest.fn();
+
+    client.use(timingMiddleware(onTiming));
+    await expect(client.getPost(1)).rejects.toThrow();
+
+    expect(onTiming).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'get',
+      path: '/teams/:team_name/posts/1',
+      status: 404,
+      durationMs: expect.any(Number),
+      error: expect.any(EsaNotFoundError)
+    }));
+  });
+});
@@ -0,0 +1,135 @@
+import { EsaClient } from '../esa-client';
+import { FakeEsaServer } from '../fake-server';
+import { EsaOAuth, createCodeChallenge } from '../oauth';
+import { EsaForbiddenError, EsaOAuthError, EsaUnauthorizedError, EsaValidationError } from '../errors';
+
+const redirectUri = 'https://example.com/callback';
+
+describe('EsaOAuth', () => {
+  let server: FakeEsaServer;
+  let oauth: EsaOAuth;
+
+  beforeEach(() => {
+    server = new FakeEsaServer();
+    server.addOAuthApplication({ client_id: 'app', client_secret: 'secret', redirect_uri: redirectUri });
+    oauth = new EsaOAuth({ clientId: 'app', clientSecret: 'secret', redirectUri, fetch: server.fetch });
+  });
+
+  // ブラウザでの承認の代わりに、フェイクサーバーのリダイレクト先を読む
+  async function approve(url: string): Promise<string> {
+    const response = await server.fetch(url, { method: 'GET', redirect: 'manual' });
+    expect(response.status).toBe(302);
+    return response.headers.get('location')!;
+  }
+
+  test('should build the authorization URL with scopes, state and PKCE', () => {
+    const request = oauth.createAuthorizationRequest({ scopes: ['read', 'write', 'admin:team'], state: 'xyz' });
+    const url = new URL(request.url);
+
+    expect(`${url.origin}${url.pathname}`).toBe('https://api.esa.io/oauth/authorize');
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      client_id: 'app',
+      redirect_uri: redirectUri,
+      response_type: 'code',
+      scope: 'read write admin:team',
+      state: 'xyz',
+      code_challenge: createCodeChallenge(request.codeVerifier!),
+      code_challenge_method: 'S256',
+    });
+    expect(request.state).toBe('xyz');
+
+    const plain = oauth.createAuthorizationRequest({ pkce: false });
+    expect(plain.codeVerifier).toBeUndefined();
+    expect(plain.state).not.toBe(oauth.createAuthorizationRequest().state);
+    expect(new URL(plain.url).searchParams.has('code_challenge')).toBe(false);
+  });
+
+  test('should run the whole flow against the fake server', async () => {
+    const { url, state, codeVerifier } = oauth.createAuthorizationRequest({ scopes: ['read', 'write'] });
+    const code = oauth.parseCallback(await approve(url), state);
+    const token = await oauth.exchangeCode(code, codeVerifier);
+
+    expect(token).toMatchObject({ token_type: 'Bearer', scope: 'read write' });
+    expect(await oauth.getTokenInfo(token.access_token)).toMatchObject({
+      resource_owner_id: 1,
+      scope: ['read', 'write'],
+      expires_in_seconds: null,
+      application: { uid: 'app' },
+    });
+
+    const client = new EsaClient({ token: token.access_token, teamName: 'test-team', fetch: server.fetch });
+    expect((await client.getAuthenticatedUser()).screen_name).toBe('owner');
+    await client.createPost({ name: 'Memo' });
+
+    await oauth.revokeToken(token.access_token);
+    await expect(client.getAuthenticatedUser()).rejects.toBeInstanceOf(EsaUnauthorizedError);
+    await expect(oauth.getTokenInfo(token.access_token)).rejects.toBeInstanceOf(EsaUnauthorizedError);
+  });
+
+  test('should reject invalid codes, verifiers and callbacks', async () => {
+    const { url, state } = oauth.createAuthorizationRequest();
+    const callback = await approve(url);
+    const code = oauth.parseCallback(callback, state);
+
+    const error = await oauth.exchangeCode(code, 'wrong-verifier').catch(e => e);
+    expect(error).toBeInstanceOf(EsaValidationError);
+    expect(error.data).toEqual({
+      error: 'invalid_grant',
+      error_description: 'The code verifier does not match the code challenge',
+    });
+    expect(error.body.message).toBe('The code verifier does not match the code challenge');
+    // 認可コードは一度しか使えない
+    await expect(oauth.exchangeCode(code)).rejects.toBeInstanceOf(EsaValidationError);
+
+    expect(() => oauth.parseCallback(callback, 'other')).toThrow(EsaOAuthError);
+    expect(() => oauth.parseCallback(`?error=access_denied&error_description=Denied&state=${state}`, state))
+      .toThrow('Denied');
+
+    const stranger = new EsaOAuth({ clientId: 'app', clientSecret: 'wrong', redirectUri, fetch: server.fetch });
+    await expect(stranger.revokeToken('token')).rejects.toBeInstanceOf(EsaUnauthorizedError);
+  });
+
+  test('should limit tokens to the granted scopes', async () => {
+    const { url, state, codeVerifier } = oauth.createAuthorizationRequest({ scopes: ['read'] });
+    const token = await oauth.exchangeCode(oauth.parseCallback(await approve(url), state), codeVerifier);
+    const client = new EsaClient({ token: token.access_token, teamName: 'test-team', fetch: server.fetch });
+
+    await client.getPosts();
+    await expect(client.createPost({ name: 'Memo' })).rejects.toBeInstanceOf(EsaForbiddenError);
+  });
+
+  test('should work over HTTP', async () => {
+    const baseUrl = await server.listen();
+    try {
+      const http = new EsaOAuth({
+        clientId: 'app',
+        clientSecret: 'secret',
+        redirectUri,
+        baseUrl: baseUrl.replace(/\/v1$/, ''),
+      });
+      const { url, state, codeVerifier } = http.createAuthorizationRequest();
+      const response = await fetch(url, { redirect: 'manual' });
+      const token = await http.exchangeCode(http.parseCallback(response.headers.get('location')!, state), codeVerifier);
+
+      expect((await http.getTokenInfo(token.access_token)).scope).toEqual(['read']);
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe('EsaClient token provider', () => {
+  test('should ask the provider for the token before every request', async () => {
+    const server = new FakeEsaServer();
+    server.addMember({ screen_name: 'alice' }, 'alice-token');
+    let current = 'token';
+    const provider = jest.fn(async () => current);
+    const client = new EsaClient({ token: provider, teamName: 'test-team', fetch: server.fetch });
+
+    expect((await client.getAuthenticatedUser()).screen_name).toBe('owner');
+    // ローテーション後のトークンがそのまま使われる
+    current = 'alice-token';
+    expect((await client.getAuthenticatedUser()).screen_name).toBe('alice');
+    expect(provider).toHaveBeenCalledTimes(2);
+  });
+});
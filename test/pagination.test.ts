@@ -0,0 +1,184 @@
+import { EsaClient } from '../esa-client';
+import { paginatePages, paginateItems } from '../pagination';
+import { PostsResponse, Post } from '../types';
+
+// Global fetch モックの設定
+global.fetch = jest.fn();
+
+// ページのモック作成ヘルパー
+function makePage(page: number, lastPage: number, perPage: number = 2): PostsResponse {
+  const posts = Array.from({ length: perPage }, (_, i) => ({
+    number: (page - 1) * perPage + i + 1,
+    name: `Post ${(page - 1) * perPage + i + 1}`
+  } as Post));
+
+  return {
+    posts,
+    prev_page: page > 1 ? page - 1 : null,
+    next_page: page < lastPage ? page + 1 : null,
+    total_count: lastPage * perPage,
+    page,
+    per_page: perPage,
+    max_per_page: 100
+  };
+}
+
+describe('pagination helpers', () => {
+  test('paginatePages should follow next_page until it is null', async () => {
+    const fetchPage = jest.fn((page: number) => Promise.resolve(makePage(page, 3)));
+
+    const pages: number[] = [];
+    for await (const page of paginatePages(fetchPage)) {
+      pages.push(page.page);
+    }
+
+    expect(pages).toEqual([1, 2, 3]);
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+    expect(fetchPage).toHaveBeenNthCalledWith(1, 1, 100);
+  });
+
+  test('paginatePages should start from the given page and per_page', async () => {
+    const fetchPage = jest.fn((page: number) => Promise.resolve(makePage(page, 3)));
+
+    const pages: number[] = [];
+    for await (const page of paginatePages(fetchPage, { page: 2, per_page: 2 })) {
+      pages.push(page.page);
+    }
+
+    expect(pages).toEqual([2, 3]);
+    expect(fetchPage).toHaveBeenNthCalledWith(1, 2, 2);
+  });
+
+  test('paginatePages should clamp per_page to max_per_page', async () => {
+    const fetchPage = jest.fn((page: number) => Promise.resolve({
+      ...makePage(page, 2),
+      max_per_page: 50
+    }));
+
+    for await (const _ of paginatePages(fetchPage, { per_page: 80 })) {
+      // 全ページを読み進める
+    }
+
+    expect(fetchPage).toHaveBeenNthCalledWith(1, 1, 80);
+    expect(fetchPage).toHaveBeenNthCalledWith(2, 2, 50);
+  });
+
+  test('paginatePages should count the items returned toward the limit', async () => {
+    // per_page は 2 だが、各ページには 1 件しか含まれない
+    const fetchPage = jest.fn((page: number) => {
+      const full = makePage(page, 10);
+      return Promise.resolve({ ...full, posts: full.posts.slice(0, 1) });
+    });
+
+    const pages: number[] = [];
+    for await (const page of paginatePages(fetchPage, { per_page: 2 }, { limit: 3 })) {
+      pages.push(page.page);
+    }
+
+    expect(pages).toEqual([1, 2, 3]);
+  });
+
+  test('paginateItems should stop at the limit', async () => {
+    const fetchPage = jest.fn((page: number) => Promise.resolve(makePage(page, 10)));
+
+    const numbers: number[] = [];
+    for await (const post of paginateItems(fetchPage, 'posts', {}, { limit: 3 })) {
+      numbers.push(post.number);
+    }
+
+    expect(numbers).toEqual([1, 2, 3]);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  test('paginateItems should not fetch more pages after break', async () => {
+    const fetchPage = jest.fn((page: number) => Promise.resolve(makePage(page, 10)));
+
+    for await (const post of paginateItems(fetchPage, 'posts')) {
+      if (post.number === 2) {
+        break;
+      }
+    }
+
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+
+  test('paginateItems should stop when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const fetchPage = jest.fn((page: number) => Promise.resolve(makePage(page, 10)));
+
+    const iterate = async () => {
+      for await (const post of paginateItems(fetchPage, 'posts', {}, { signal: controller.signal })) {
+        if (post.number === 2) {
+          controller.abort(new Error('stopped'));
+        }
+      }
+    };
+
+    await expect(iterate()).rejects.toThrow('stopped');
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('EsaClient pagination', () => {
+  let client: EsaClient;
+
+  beforeEach(() => {
+    (global.fetch as jest.Mock).mockReset();
+    client = new EsaClient({ token: 'test-token', teamName: 'test-team' });
+  });
+
+  function mockFetchPage(data: any) {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: jest.fn().mockResolvedValue(data),
+      headers: new Headers()
+    });
+  }
+
+  test('iteratePosts should request every page with the query', async () => {
+    mockFetchPage(makePage(1, 2));
+    mockFetchPage(makePage(2, 2));
+
+    const numbers: number[] = [];
+    for await (const post of client.iteratePosts({ q: 'wip:false', per_page: 2 })) {
+      numbers.push(post.number);
+    }
+
+    expect(numbers).toEqual([1, 2, 3, 4]);
+    expect(global.fetch).toHaveBeenNthCalledWith(
+      1,
+      'https://api.esa.io/v1/teams/test-team/posts?q=wip%3Afalse&page=1&per_page=2',
+      expect.any(Object)
+    );
+    expect(global.fetch).toHaveBeenNthCalledWith(
+      2,
+      'https://api.esa.io/v1/teams/test-team/posts?q=wip%3Afalse&page=2&per_page=2',
+      expect.any(Object)
+    );
+  });
+
+  test('paginateTags should yield whole pages', async () => {
+    mockFetchPage({
+      tags: [{ name: 'api', posts_count: 3 }],
+      prev_page: null,
+      next_page: null,
+      total_count: 1,
+      page: 1,
+      per_page: 100,
+      max_per_page: 100
+    });
+
+    const pages = [];
+    for await (const page of client.paginateTags()) {
+      pages.push(page);
+    }
+
+    expect(pages).toHaveLength(1);
+    expect(pages[0].tags[0].name).toBe('api');
+    expect(global.fetch).toHaveBeenCalledWith(
+      'https://api.esa.io/v1/teams/test-team/tags?page=1&per_page=100',
+      expect.any(Object)
+    );
+  });
+});
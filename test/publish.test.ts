@@ -0,0 +1,232 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EsaClient } from '../esa-client';
+import { FakeEsaServer } from '../fake-server';
+import { publishPosts, formatPublishPlan } from '../publish';
+import { parseFrontMatter } from '../front-matter';
+import { Post } from '../types';
+
+const user = { myself: false, name: 'Bot', screen_name: 'bot', icon: '' };
+
+function makePost(number: number, overrides: Partial<Post> = {}): Post {
+  return {
+    number,
+    name: 'Deploy',
+    full_name: 'runbooks/Deploy',
+    wip: false,
+    body_md: '# Deploy\n',
+    body_html: '',
+    created_at: '2024-01-01T00:00:00+09:00',
+    updated_at: '2024-01-01T00:00:00+09:00',
+    message: '',
+    url: `https://test-team.esa.io/posts/${number}`,
+    tags: ['ops'],
+    category: 'runbooks',
+    revision_number: 3,
+    created_by: user,
+    updated_by: user,
+    ...overrides,
+  };
+}
+
+function jsonResponse(data: any, status: number = 200) {
+  return {
+    ok: status < 400,
+    status,
+    json: jest.fn().mockResolvedValue(data),
+    headers: new Headers(),
+  };
+}
+
+// パスごとにレスポンスを返す fetch モック
+function routeFetch(routes: Record<string, (init: RequestInit) => any>) {
+  return jest.fn().mockImplementation(async (url: string, init: RequestInit) => {
+    const key = `${init.method?.toUpperCase()} ${new URL(url).pathname}`;
+    const route = routes[key];
+    if (!route) {
+      throw new Error(`Unexpected request: ${key}`);
+    }
+    return route(init);
+  });
+}
+
+describe('publishPosts', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'esa-publish-'));
+    await fs.mkdir(path.join(dir, 'runbooks'));
+    await fs.mkdir(path.join(dir, '.git'));
+    await fs.writeFile(path.join(dir, '.git', 'ignored.md'), 'ignored');
+    // 変更なし
+    await fs.writeFile(
+      path.join(dir, 'runbooks', 'deploy.md'),
+      '---\nnumber: 1\nname: Deploy\ntags: [ops]\n---\n# Deploy\n'
+    );
+    // 本文とタグが変更されている
+    await fs.writeFile(
+      path.join(dir, 'runbooks', 'db.md'),
+      '---\nnumber: 2\nname: Deploy\nrevision_number: 3\ntags: [ops, db]\n---\n# Changed\n'
+    );
+    // 新規作成(カテゴリはディレクトリから決まる)
+    await fs.writeFile(path.join(dir, 'runbooks', 'new.md'), '---\n# 手順書\nwip: true\n---\n# New\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should plan without writing in a dry run', async () => {
+    const fetch = routeFetch({
+      'GET /v1/teams/test-team/posts/1': () => jsonResponse(makePost(1)),
+      'GET /v1/teams/test-team/posts/2': () => jsonResponse(makePost(2)),
+    });
+    const client = new EsaClient({ token: 'token', teamName: 'test-team', fetch });
+
+    const entries = await publishPosts(client, { dir, dryRun: true });
+
+    expect(entries).toEqual([
+      { file: 'runbooks/db.md', action: 'update', number: 2, changes: ['body_md', 'tags'] },
+      { file: 'runbooks/deploy.md', action: 'unchanged', number: 1, changes: [] },
+      { file: 'runbooks/new.md', action: 'create', number: null, changes: ['name', 'body_md', 'category', 'wip'] },
+    ]);
+    expect(formatPublishPlan(entries)).toBe([
+      '~ update runbooks/db.md #2 (body_md, tags)',
+      '= unchanged runbooks/deploy.md #1',
+      '+ create runbooks/new.md (name, body_md, category, wip)',
+      '1 to create, 1 to update, 1 unchanged, 0 conflicting',
+    ].join('\n'));
+    expect(await fs.readFile(path.join(dir, 'runbooks', 'new.md'), 'utf8')).not.toContain('number:');
+  });
+
+  test('should create and update posts and write numbers back', async () => {
+    const fetch = routeFetch({
+      'GET /v1/teams/test-team/posts/1': () => jsonResponse(makePost(1)),
+      'GET /v1/teams/test-team/posts/2': () => jsonResponse(makePost(2)),
+      'PATCH /v1/teams/test-team/posts/2': () => jsonResponse(makePost(2, { revision_number: 4 })),
+      'POST /v1/teams/test-team/posts': () => jsonResponse(makePost(9), 201),
+    });
+    const client = new EsaClient({ token: 'token', teamName: 'test-team', fetch });
+
+    await publishPosts(client, { dir, message: 'Sync from git' });
+
+    const patch = fetch.mock.calls.find(([, init]) => init.method === 'PATCH')!;
+    expect(JSON.parse(patch[1].body)).toEqual({
+      post: {
+        body_md: '# Changed\n',
+        tags: ['ops', 'db'],
+        message: 'Sync from git',
+        original_revision: { body_md: '# Deploy\n', number: 3, user: 'bot' },
+      },
+    });
+    const post = fetch.mock.calls.find(([, init]) => init.method === 'post')!;
+    expect(JSON.parse(post[1].body)).toEqual({
+      post: { name: 'new', body_md: '# New\n', category: 'runbooks', wip: true, message: 'Sync from git' },
+    });
+
+    const created = await fs.readFile(path.join(dir, 'runbooks', 'new.md'), 'utf8');
+    expect(created).toBe('---\n# 手順書\nwip: true\nnumber: 9\nrevision_number: 3\n---\n# New\n');
+    expect(parseFrontMatter(await fs.readFile(path.join(dir, 'runbooks', 'db.md'), 'utf8')).data.revision_number).toBe(4);
+  });
+
+  test('should report files based on an older revision as conflicts', async () => {
+    const fetch = routeFetch({
+      'GET /v1/teams/test-team/posts/1': () => jsonResponse(makePost(1)),
+      'GET /v1/teams/test-team/posts/2': () => jsonResponse(makePost(2, { revision_number: 5 })),
+      'POST /v1/teams/test-team/posts': () => jsonResponse(makePost(9), 201),
+    });
+    const client = new EsaClient({ token: 'token', teamName: 'test-team', fetch });
+
+    const entries = await publishPosts(client, { dir });
+
+    expect(entries[0]).toEqual({
+      file: 'runbooks/db.md',
+      action: 'conflict',
+      number: 2,
+      changes: ['body_md', 'tags'],
+      reason: 'post is at revision 5 but the file was based on revision 3',
+    });
+    expect(fetch.mock.calls.some(([, init]) => init.method === 'PATCH')).toBe(false);
+  });
+
+  test('should report changed files without a revision_number as conflicts', async () => {
+    await fs.writeFile(
+      path.join(dir, 'runbooks', 'deploy.md'),
+      '---\nnumber: 1\nname: Deploy\ntags: [ops]\n---\n# Deploy v2\n'
+    );
+    const fetch = routeFetch({
+      'GET /v1/teams/test-team/posts/1': () => jsonResponse(makePost(1)),
+      'GET /v1/teams/test-team/posts/2': () => jsonResponse(makePost(2, { revision_number: 5 })),
+      'POST /v1/teams/test-team/posts': () => jsonResponse(makePost(9), 201),
+    });
+    const client = new EsaClient({ token: 'token', teamName: 'test-team', fetch });
+
+    const entries = await publishPosts(client, { dir });
+
+    expect(entries[1]).toEqual({
+      file: 'runbooks/deploy.md',
+      action: 'conflict',
+      number: 1,
+      changes: ['body_md'],
+      reason: 'the file has no revision_number to base the update on',
+    });
+    expect(fetch.mock.calls.some(([, init]) => init.method === 'PATCH')).toBe(false);
+  });
+
+  test('should keep edits made on esa after a file was created from it', async () => {
+    const server = new FakeEsaServer();
+    const client = new EsaClient({ token: 'token', teamName: 'test-team', fetch: server.fetch });
+    server.addMember({ screen_name: 'alice' }, 'alice-token');
+    const alice = new EsaClient({ token: 'alice-token', teamName: 'test-team', fetch: server.fetch });
+    const root = path.join(dir, 'fake');
+    const file = path.join(root, 'deploy.md');
+    await fs.mkdir(root);
+    await fs.writeFile(file, '---\nname: Deploy\ncategory: runbooks\n---\n# Deploy\n\n1. build\n2. test\n3. release\n');
+
+    await publishPosts(client, { dir: root });
+    // esa 上で見出しが書き換えられた後に、ファイル側で手順を変更する
+    await alice.updatePost(1, { body_md: '# Deploy to production\n\n1. build\n2. test\n3. release\n' });
+    const text = await fs.readFile(file, 'utf8');
+    await fs.writeFile(file, text.replace('3. release', '3. release and verify'));
+
+    const entries = await publishPosts(client, { dir: root });
+
+    expect(parseFrontMatter(text).data.revision_number).toBe(1);
+    expect(entries).toEqual([{
+      file: 'deploy.md',
+      action: 'conflict',
+      number: 1,
+      changes: ['body_md'],
+      reason: 'post is at revision 2 but the file was based on revision 1',
+    }]);
+    expect(server.getPost(1)!.body_md).toBe('# Deploy to production\n\n1. build\n2. test\n3. release\n');
+  });
+
+  test('should let esa merge edits made between the fetch and the update', async () => {
+    const server = new FakeEsaServer();
+    server.addPost({ name: 'Deploy', category: 'runbooks', body_md: '# Deploy\n\n1. build\n2. test\n3. release\n' });
+    server.addMember({ screen_name: 'alice' }, 'alice-token');
+    const alice = new EsaClient({ token: 'alice-token', teamName: 'test-team', fetch: server.fetch });
+    const root = path.join(dir, 'fake');
+    await fs.mkdir(root);
+    await fs.writeFile(
+      path.join(root, 'deploy.md'),
+      '---\nnumber: 1\nname: Deploy\ncategory: runbooks\nrevision_number: 1\n---\n# Deploy\n\n1. build\n2. test\n3. release and verify\n'
+    );
+    // 記事を取得した直後に別のメンバーが見出しを書き換える
+    const fetch = jest.fn(server.fetch);
+    fetch.mockImplementationOnce(async (url, init) => {
+      const response = await server.fetch(url, init);
+      await alice.updatePost(1, { body_md: '# Deploy to production\n\n1. build\n2. test\n3. release\n' });
+      return response;
+    });
+    const client = new EsaClient({ token: 'token', teamName: 'test-team', fetch });
+
+    const entries = await publishPosts(client, { dir: root });
+
+    expect(entries).toEqual([{ file: 'deploy.md', action: 'update', number: 1, changes: ['body_md'] }]);
+    expect(JSON.parse(fetch.mock.calls[1][1].body as string).post.original_revision.number).toBe(1);
+    expect(server.getPost(1)!.body_md).toBe('# Deploy to production\n\n1. build\n2. test\n3. release and verify\n');
+  });
+});
@@ -0,0 +1,120 @@
+import { EsaClient } from '../esa-client';
+import { parseQuery, parseQueryNode, normalizeQuery } from '../query-parser';
+import { EsaQuery } from '../query';
+import { EsaQuerySyntaxError, isEsaQuerySyntaxError } from '../errors';
+
+describe('parseQueryNode', () => {
+  test('should parse keywords, phrases and qualifiers', () => {
+    expect(parseQueryNode('deploy "release notes" stars:>=5 in:dev/infra')).toEqual({
+      type: 'and',
+      operands: [
+        { type: 'term', value: 'deploy', phrase: false },
+        { type: 'term', value: 'release notes', phrase: true },
+        { type: 'qualifier', name: 'stars', operator: '>=', value: '5' },
+        { type: 'qualifier', name: 'in', operator: '', value: 'dev/infra' },
+      ],
+    });
+  });
+
+  test('should parse negation, OR and groups', () => {
+    expect(parseQueryNode('-tag:archived (tag:ops OR user:alice) a OR b')).toEqual({
+      type: 'and',
+      operands: [
+        { type: 'not', operand: { type: 'qualifier', name: 'tag', operator: '', value: 'archived' } },
+        {
+          type: 'or',
+          operands: [
+            { type: 'qualifier', name: 'tag', operator: '', value: 'ops' },
+            { type: 'qualifier', name: 'user', operator: '', value: 'alice' },
+          ],
+        },
+        {
+          type: 'or',
+          operands: [
+            { type: 'term', value: 'a', phrase: false },
+            { type: 'term', value: 'b', phrase: false },
+          ],
+        },
+      ],
+    });
+  });
+
+  test('should parse quoted qualifier values with escapes', () => {
+    expect(parseQueryNode('title:"say \\"hi\\""')).toEqual({
+      type: 'qualifier', name: 'title', operator: '', value: 'say "hi"',
+    });
+  });
+
+  test('should return null for an empty query', () => {
+    // 全角スペースも空白として扱う
+    expect(parseQueryNode('  　 ')).toBeNull();
+  });
+
+  test.each([
+    ['"unterminated', 'Unterminated quoted string', 0],
+    ['foo (bar', 'Unclosed "("', 4],
+    ['foo) bar', 'Unexpected ")"', 3],
+    ['foo OR', 'Unexpected end of query', 6],
+    ['OR foo', 'Unexpected "OR"', 0],
+    ['foo - bar', 'Expected a term after "-"', 4],
+    ['tag: foo', 'Missing value for qualifier "tag"', 0],
+    ['foo ()', 'Empty group', 4],
+  ])('should report a syntax error for %s', (input, message, position) => {
+    let error: unknown;
+    try {
+      parseQueryNode(input);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(isEsaQuerySyntaxError(error)).toBe(true);
+    expect((error as EsaQuerySyntaxError).message).toBe(`${message} at position ${position}`);
+    expect((error as EsaQuerySyntaxError).position).toBe(position);
+    expect((error as EsaQuerySyntaxError).query).toBe(input);
+  });
+});
+
+describe('parseQuery', () => {
+  test('should round-trip queries built with EsaQuery', () => {
+    const q = new EsaQuery()
+      .keyword('deploy')
+      .in('dev/my team')
+      .title('a/b')
+      .not(q => q.tag('archived'))
+      .or(q => q.tag('ops').wip(false), q => q.user('alice'))
+      .phrase('release "v2" notes')
+      .stars('>=', 5);
+
+    expect(parseQuery(q.toString()).toString()).toBe(q.toString());
+  });
+
+  test('should allow forcing and replacing qualifiers', () => {
+    const q = parseQuery('deploy wip:true -wip:false (tag:ops OR tag:sre)');
+
+    expect(q.hasQualifier('wip')).toBe(true);
+    q.withoutQualifier('wip').wip(false).in('/dev/');
+
+    expect(q.hasQualifier('wip')).toBe(true);
+    expect(q.toString()).toBe('deploy (tag:ops OR tag:sre) wip:false in:dev');
+  });
+});
+
+describe('normalizeQuery', () => {
+  test('should produce a canonical string', () => {
+    expect(normalizeQuery('  "deploy"   tag:"ops"  ( a  OR  b )  ((c)) ')).toBe('"deploy" tag:ops (a OR b) c');
+  });
+
+  test('should send parsed queries to getPosts', async () => {
+    const fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: jest.fn().mockResolvedValue({ posts: [] }),
+      headers: new Headers(),
+    });
+    const client = new EsaClient({ token: 'token', teamName: 'team', fetch });
+
+    await client.getPosts({ q: parseQuery('foo wip:true').withoutQualifier('wip').wip(false) });
+
+    expect(fetch.mock.calls[0][0]).toContain('q=foo+wip%3Afalse');
+  });
+});
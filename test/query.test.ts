@@ -0,0 +1,84 @@
+import { EsaClient } from '../esa-client';
+import { EsaQuery, quoteQueryValue } from '../query';
+
+describe('EsaQuery', () => {
+  test('should build qualifiers joined by spaces', () => {
+    const q = new EsaQuery()
+      .keyword('deploy')
+      .in('dev/infra')
+      .tag('#ops')
+      .user('@alice')
+      .wip(false)
+      .stars('>', 5)
+      .created('>', '2024-01-01');
+
+    expect(q.toString()).toBe('deploy in:dev/infra tag:ops user:alice wip:false stars:>5 created:>2024-01-01');
+  });
+
+  test('should quote values containing spaces, quotes and slashes', () => {
+    const q = new EsaQuery()
+      .in('/dev/my team/')
+      .title('a/b')
+      .phrase('release "v2" notes')
+      .keyword('OR')
+      .keyword('foo:bar');
+
+    expect(q.toString()).toBe('in:"dev/my team" title:"a/b" "release \\"v2\\" notes" "OR" "foo:bar"');
+  });
+
+  test('should negate conditions', () => {
+    const q = new EsaQuery()
+      .on('日報')
+      .not(q => q.tag('archived').user('bot'));
+
+    expect(q.toString()).toBe('on:日報 -tag:archived -user:bot');
+  });
+
+  test('should group OR branches', () => {
+    const q = new EsaQuery()
+      .wip(false)
+      .or(q => q.tag('ops'), q => q.in('dev').tag('oncall'));
+
+    expect(q.toString()).toBe('wip:false (tag:ops OR (in:dev tag:oncall))');
+    expect(new EsaQuery().or(q => q.tag('a'), q => q.tag('b')).toString()).toBe('tag:a OR tag:b');
+  });
+
+  test('should build date ranges from dates and strings', () => {
+    const q = new EsaQuery()
+      .createdBetween(new Date(2024, 0, 5), '2024-01-31')
+      .updatedBetween(undefined, new Date(2024, 11, 1));
+
+    expect(q.toString()).toBe('created:>=2024-01-05 created:<=2024-01-31 updated:<=2024-12-01');
+  });
+
+  test('clone should not share nodes', () => {
+    const base = new EsaQuery().wip(false);
+    const extended = base.clone().tag('ops');
+
+    expect(base.toString()).toBe('wip:false');
+    expect(extended.toString()).toBe('wip:false tag:ops');
+  });
+
+  test('quoteQueryValue should leave safe values alone', () => {
+    expect(quoteQueryValue('simple')).toBe('simple');
+    expect(quoteQueryValue('-leading')).toBe('"-leading"');
+    expect(quoteQueryValue('全角　スペース')).toBe('"全角　スペース"');
+  });
+
+  test('getPosts should accept an EsaQuery', async () => {
+    const fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: jest.fn().mockResolvedValue({ posts: [] }),
+      headers: new Headers()
+    });
+    const client = new EsaClient({ token: 'test-token', teamName: 'test-team', fetch });
+
+    await client.getPosts({ q: new EsaQuery().in('dev').wip(false) });
+
+    expect(fetch).toHaveBeenCalledWith(
+      'https://api.esa.io/v1/teams/test-team/posts?q=in%3Adev+wip%3Afalse',
+      expect.any(Object)
+    );
+  });
+});
@@ -0,0 +1,98 @@
+import { EsaClient } from '../esa-client';
+import { RateLimiter, parseRateLimitHeaders } from '../rate-limit';
+
+// Global fetch モックの設定
+global.fetch = jest.fn();
+
+// レート制限ヘッダーの作成ヘルパー
+function rateLimitHeaders(limit: number, remaining: number, resetSeconds: number): Headers {
+  return new Headers({
+    'x-ratelimit-limit': String(limit),
+    'x-ratelimit-remaining': String(remaining),
+    'x-ratelimit-reset': String(resetSeconds)
+  });
+}
+
+describe('rate limit helpers', () => {
+  test('parseRateLimitHeaders should read the X-RateLimit-* headers', () => {
+    const state = parseRateLimitHeaders(rateLimitHeaders(300, 299, 1700000000));
+
+    expect(state).toEqual({
+      limit: 300,
+      remaining: 299,
+      reset: new Date(1700000000 * 1000)
+    });
+  });
+
+  test('parseRateLimitHeaders should return null without headers', () => {
+    expect(parseRateLimitHeaders(new Headers())).toBeNull();
+  });
+
+  test('RateLimiter should not delay without throttling', () => {
+    const limiter = new RateLimiter();
+    limiter.update(rateLimitHeaders(300, 0, 1700000900));
+
+    expect(limiter.delayFor(1700000000 * 1000)).toBe(0);
+  });
+
+  test('RateLimiter should spread the remaining requests over the window', () => {
+    const limiter = new RateLimiter({ threshold: 10 });
+    const now = 1700000000 * 1000;
+
+    limiter.update(rateLimitHeaders(300, 100, 1700000900));
+    expect(limiter.delayFor(now)).toBe(0);
+
+    limiter.update(rateLimitHeaders(300, 9, 1700000900));
+    expect(limiter.delayFor(now)).toBe(90000);
+
+    limiter.update(rateLimitHeaders(300, 0, 1700000900));
+    expect(limiter.delayFor(now)).toBe(900000);
+  });
+
+  test('RateLimiter should cap the delay at maxDelayMs', () => {
+    const limiter = new RateLimiter({ threshold: 10, maxDelayMs: 1000 });
+    limiter.update(rateLimitHeaders(300, 0, 1700000900));
+
+    expect(limiter.delayFor(1700000000 * 1000)).toBe(1000);
+  });
+});
+
+describe('EsaClient rate limit', () => {
+  beforeEach(() => {
+    (global.fetch as jest.Mock).mockReset();
+  });
+
+  test('getRateLimit should expose the latest state and emit an event', async () => {
+    const client = new EsaClient({ token: 'test-token', teamName: 'test-team' });
+    const listener = jest.fn();
+    const unsubscribe = client.on('rateLimit', listener);
+
+    expect(client.getRateLimit()).toBeNull();
+
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: jest.fn().mockResolvedValue({ name: 'test-team' }),
+      headers: rateLimitHeaders(300, 250, 1700000900)
+    });
+    await client.getTeam();
+
+    expect(client.getRateLimit()).toEqual({
+      limit: 300,
+      remaining: 250,
+      reset: new Date(1700000900 * 1000)
+    });
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ remaining: 250 }));
+
+    unsubscribe();
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: jest.fn().mockResolvedValue({ name: 'test-team' }),
+      headers: rateLimitHeaders(300, 249, 1700000900)
+    });
+    await client.getTeam();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
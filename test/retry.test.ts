@@ -0,0 +1,169 @@
+import { EsaClient } from '../esa-client';
+import { EsaNetworkError, EsaRateLimitError, isEsaServerError } from '../errors';
+import { computeRetryDelay, parseRetryAfter, resolveRetryOptions } from '../retry';
+
+// Global fetch モックの設定
+global.fetch = jest.fn();
+
+describe('retry helpers', () => {
+  test('computeRetryDelay should grow exponentially up to maxDelayMs', () => {
+    const options = resolveRetryOptions({ baseDelayMs: 100, maxDelayMs: 500, jitter: false });
+
+    expect(computeRetryDelay(1, options)).toBe(100);
+    expect(computeRetryDelay(2, options)).toBe(200);
+    expect(computeRetryDelay(3, options)).toBe(400);
+    expect(computeRetryDelay(4, options)).toBe(500);
+  });
+
+  test('computeRetryDelay should apply jitter and honour Retry-After', () => {
+    const options = resolveRetryOptions({ baseDelayMs: 100 });
+
+    expect(computeRetryDelay(2, options, undefined, () => 0.5)).toBe(100);
+    expect(computeRetryDelay(2, options, 3000, () => 0.5)).toBe(3000);
+  });
+
+  test('parseRetryAfter should accept seconds and HTTP dates', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+
+    expect(parseRetryAfter('2', now)).toBe(2000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:30 GMT', now)).toBe(30000);
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+
+  test('resolveRetryOptions should disable retries with false', () => {
+    expect(resolveRetryOptions({ maxAttempts: 3 }, false).maxAttempts).toBe(1);
+  });
+});
+
+describe('EsaClient retry', () => {
+  let client: EsaClient;
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    (global.fetch as jest.Mock).mockReset();
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    client = new EsaClient({
+      token: 'test-token',
+      teamName: 'test-team',
+      retry: { baseDelayMs: 0, jitter: false }
+    });
+  });
+
+  afterEach(() => {
+    warnSpy.mockRestore();
+  });
+
+  // レスポンスのモック作成ヘルパー
+  function mockResponse(status: number, data: any, headers: Record<string, string> = {}) {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: status >= 200 && status < 300,
+      status,
+      json: jest.fn().mockResolvedValue(data),
+      headers: new Headers(headers)
+    });
+  }
+
+  test('should retry server errors on GET requests', async () => {
+    mockResponse(503, { error: 'unavailable' });
+    mockResponse(200, { name: 'test-team' });
+
+    const result = await client.getTeam();
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({ name: 'test-team' });
+  });
+
+  test('should retry network errors on GET requests', async () => {
+    (global.fetch as jest.Mock).mockRejectedValueOnce(new TypeError('fetch failed'));
+    mockResponse(200, { name: 'test-team' });
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await client.getTeam();
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({ name: 'test-team' });
+    errorSpy.mockRestore();
+  });
+
+  test('should not retry server errors on POST requests by default', async () => {
+    mockResponse(500, { error: 'internal' });
+
+    await expect(client.createPost({ name: 'New Post' })).rejects.toMatchObject({ status: 500 });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('should retry POST requests when retryNonIdempotent is set', async () => {
+    mockResponse(500, { error: 'internal' });
+    mockResponse(200, { number: 1 });
+
+    const result = await client.createPost({ name: 'New Post' }, undefined, {
+      retry: { retryNonIdempotent: true }
+    });
+
+    expect(result).toEqual({ number: 1 });
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  test('should always retry rate limited POST requests', async () => {
+    mockResponse(429, { error: 'too_many_requests' }, { 'retry-after': '0' });
+    mockResponse(200, { number: 1 });
+
+    await client.createPost({ name: 'New Post' });
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  test('should throw the last error with the number of attempts', async () => {
+    const onRetry = jest.fn();
+    mockResponse(502, { error: 'bad_gateway' });
+    mockResponse(502, { error: 'bad_gateway' });
+    mockResponse(502, { error: 'bad_gateway' });
+
+    const error = await client.getTeam(undefined, { retry: { maxAttempts: 3, onRetry } }).catch(e => e);
+
+    // 再試行後も元のエラーの型のまま投げられる
+    expect(isEsaServerError(error)).toBe(true);
+    expect(error).toMatchObject({ attempts: 3, status: 502 });
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, method: 'get' }));
+  });
+
+  test('should keep the error type whatever the number of attempts', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    (global.fetch as jest.Mock).mockRejectedValue(new TypeError('fetch failed'));
+
+    const network = await client.getTeam(undefined, { retry: { maxAttempts: 2 } }).catch(e => e);
+    expect(network).toBeInstanceOf(EsaNetworkError);
+    expect(network.attempts).toBe(2);
+    expect(network).not.toHaveProperty('status');
+
+    (global.fetch as jest.Mock).mockReset();
+    mockResponse(429, { error: 'too_many_requests' }, { 'retry-after': '0' });
+    mockResponse(429, { error: 'too_many_requests' }, { 'retry-after': '0' });
+    const retried = await client.getTeam(undefined, { retry: { maxAttempts: 2 } }).catch(e => e);
+    mockResponse(429, { error: 'too_many_requests' }, { 'retry-after': '0' });
+    const single = await client.getTeam(undefined, { retry: { maxAttempts: 1 } }).catch(e => e);
+
+    expect(retried).toBeInstanceOf(EsaRateLimitError);
+    expect(retried.attempts).toBe(2);
+    expect(single).toBeInstanceOf(EsaRateLimitError);
+    expect(single.attempts).toBe(1);
+    errorSpy.mockRestore();
+  });
+
+  test('should give up once the total delay ceiling is reached', async () => {
+    mockResponse(429, { error: 'too_many_requests' }, { 'retry-after': '60' });
+
+    await expect(client.getTeam(undefined, { retry: { maxTotalDelayMs: 1000 } }))
+      .rejects.toMatchObject({ status: 429 });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('should not retry when retry is disabled', async () => {
+    mockResponse(503, { error: 'unavailable' });
+
+    await expect(client.getTeam(undefined, { retry: false })).rejects.toMatchObject({ status: 503 });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+});
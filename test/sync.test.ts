@@ -0,0 +1,145 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EsaClient } from '../esa-client';
+import { syncPosts, loadSyncState, defaultPostFilePath } from '../sync';
+import { parseFrontMatter } from '../front-matter';
+import { Post } from '../types';
+
+const user = { myself: false, name: 'Bot', screen_name: 'bot', icon: '' };
+
+function makePost(number: number, overrides: Partial<Post> = {}): Post {
+  return {
+    number,
+    name: `Post ${number}`,
+    full_name: `Post ${number}`,
+    wip: false,
+    body_md: `# Post ${number}`,
+    body_html: '',
+    created_at: '2024-01-01T00:00:00+09:00',
+    updated_at: '2024-01-01T00:00:00+09:00',
+    message: '',
+    url: `https://test-team.esa.io/posts/${number}`,
+    tags: [],
+    category: null,
+    revision_number: 1,
+    created_by: user,
+    updated_by: user,
+    ...overrides,
+  };
+}
+
+// 記事一覧を返す fetch モック(更新日時の降順で返す)
+function postsFetch(posts: Post[]) {
+  const sorted = [...posts].sort((a, b) => Date.parse(b.updated_at) - Date.parse(a.updated_at));
+  return jest.fn().mockImplementation(async (url: string) => {
+    const page = Number(new URL(url).searchParams.get('page') ?? 1);
+    return {
+      ok: true,
+      status: 200,
+      json: jest.fn().mockResolvedValue({
+        posts: sorted.slice((page - 1) * 2, page * 2),
+        next_page: page * 2 < sorted.length ? page + 1 : null,
+      }),
+      headers: new Headers(),
+    };
+  });
+}
+
+describe('syncPosts', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'esa-sync-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('defaultPostFilePath should map categories to directories', () => {
+    expect(defaultPostFilePath({ number: 3, name: 'a&#47;b: c', category: 'dev/CI&#47;CD' })).toBe('dev/CI_CD/3-a_b_ c.md');
+    expect(defaultPostFilePath({ number: 4, name: 'Top', category: null })).toBe('4-Top.md');
+  });
+
+  test('should write posts with front matter and a state file', async () => {
+    const client = new EsaClient({
+      token: 'token',
+      teamName: 'test-team',
+      fetch: postsFetch([makePost(1, { category: 'dev/infra', tags: ['ops'], wip: true }), makePost(2)]),
+    });
+
+    const result = await syncPosts(client, { dir });
+
+    expect(result).toEqual({ created: [1, 2], updated: [], deleted: [], unchanged: 0 });
+    const text = await fs.readFile(path.join(dir, 'dev/infra/1-Post 1.md'), 'utf8');
+    expect(parseFrontMatter(text)).toEqual({
+      data: {
+        number: 1,
+        name: 'Post 1',
+        category: 'dev/infra',
+        tags: ['ops'],
+        wip: true,
+        revision_number: 1,
+        updated_at: '2024-01-01T00:00:00+09:00',
+        url: 'https://test-team.esa.io/posts/1',
+      },
+      body: '# Post 1',
+    });
+    expect((await loadSyncState(path.join(dir, '.esa-sync.json'))).posts['2'].path).toBe('2-Post 2.md');
+  });
+
+  test('should only rewrite changed posts, handle moves and detect deletions', async () => {
+    const first = [
+      makePost(1, { category: 'dev' }),
+      makePost(2),
+      makePost(3, { category: 'old/nested' }),
+    ];
+    await syncPosts(new EsaClient({ token: 'token', teamName: 'test-team', fetch: postsFetch(first) }), { dir });
+
+    const second = [
+      makePost(1, { category: 'dev' }),
+      makePost(3, { category: 'new', updated_at: '2024-02-01T00:00:00+09:00', revision_number: 2 }),
+    ];
+    const result = await syncPosts(
+      new EsaClient({ token: 'token', teamName: 'test-team', fetch: postsFetch(second) }),
+      { dir, detectDeletions: true }
+    );
+
+    expect(result).toEqual({ created: [], updated: [3], deleted: [2], unchanged: 1 });
+    await expect(fs.access(path.join(dir, 'new/3-Post 3.md'))).resolves.toBeUndefined();
+    // 移動・削除で空になったディレクトリも削除される
+    await expect(fs.access(path.join(dir, 'old'))).rejects.toThrow();
+    await expect(fs.access(path.join(dir, '2-Post 2.md'))).rejects.toThrow();
+    expect((await loadSyncState(path.join(dir, '.esa-sync.json'))).lastUpdatedAt).toBe('2024-02-01T00:00:00+09:00');
+  });
+
+  test('should only read posts updated since the previous sync by default', async () => {
+    const posts = [
+      makePost(1, { updated_at: '2024-01-01T00:00:00+09:00' }),
+      makePost(2, { updated_at: '2024-01-02T00:00:00+09:00' }),
+      makePost(3, { updated_at: '2024-01-03T00:00:00+09:00' }),
+      makePost(4, { updated_at: '2024-01-04T00:00:00+09:00' }),
+    ];
+    await syncPosts(new EsaClient({ token: 'token', teamName: 'test-team', fetch: postsFetch(posts) }), { dir });
+
+    posts[3] = makePost(4, { updated_at: '2024-01-05T00:00:00+09:00', body_md: 'changed' });
+    const fetch = postsFetch(posts);
+    const result = await syncPosts(
+      new EsaClient({ token: 'token', teamName: 'test-team', fetch }),
+      { dir }
+    );
+
+    expect(result).toEqual({ created: [], updated: [4], deleted: [], unchanged: 0 });
+    // 2ページ目以降は取得しない
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch.mock.calls[0][0]).toContain('sort=updated&order=desc');
+
+    // full では全件を取得し、削除も検出する
+    const full = await syncPosts(
+      new EsaClient({ token: 'token', teamName: 'test-team', fetch: postsFetch(posts.slice(1)) }),
+      { dir, full: true }
+    );
+    expect(full).toEqual({ created: [], updated: [4, 3, 2], deleted: [1], unchanged: 0 });
+  });
+});
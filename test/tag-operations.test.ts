@@ -0,0 +1,211 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EsaClient } from '../esa-client';
+import { FakeEsaServer } from '../fake-server';
+import { renameTag, mergeTags, removeTag, replaceTags, formatTagOperationReport } from '../tag-operations';
+import { EsaAbortError, EsaNotFoundError, EsaUnauthorizedError } from '../errors';
+
+describe('replaceTags', () => {
+  test('should replace, merge and remove tags without duplicates', () => {
+    expect(replaceTags(['js', 'api'], ['js'], 'javascript')).toEqual(['javascript', 'api']);
+    expect(replaceTags(['js', 'javascript', 'api'], ['js'], 'javascript')).toEqual(['javascript', 'api']);
+    expect(replaceTags(['js', 'JS', 'api'], ['js', 'JS'], 'javascript')).toEqual(['javascript', 'api']);
+    expect(replaceTags(['js', 'api'], ['js'], null)).toEqual(['api']);
+  });
+});
+
+describe('tag operations', () => {
+  let server: FakeEsaServer;
+  let client: EsaClient;
+  let dir: string;
+
+  beforeEach(async () => {
+    server = new FakeEsaServer();
+    server.addPost({ name: 'Setup', category: 'dev', tags: ['js', 'api'] });
+    server.addPost({ name: 'Style', category: 'dev', tags: ['js', 'javascript'] });
+    server.addPost({ name: 'Release', category: 'ops', tags: ['ops'] });
+    server.addPost({ name: 'Legacy', category: 'dev', tags: ['JS'] });
+    client = new EsaClient({ token: 'token', teamName: 'test-team', fetch: server.fetch });
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'esa-tags-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should report the affected posts without updating them in a dry run', async () => {
+    const progressFile = path.join(dir, 'progress.jsonl');
+
+    const entries = await renameTag(client, 'js', 'javascript', undefined, { dryRun: true, progressFile });
+
+    expect(entries.map(entry => entry.number)).toEqual([1, 2]);
+    expect(formatTagOperationReport(entries)).toBe([
+      '~ update #1 dev/Setup #js #api [js, api] -> [javascript, api]',
+      '~ update #2 dev/Style #js #javascript [js, javascript] -> [javascript]',
+      '2 to update, 0 unchanged, 0 skipped, 0 conflicting, 0 failed',
+    ].join('\n'));
+    expect(server.getRevisions(1)).toHaveLength(1);
+    await expect(fs.access(progressFile)).rejects.toThrow();
+    // チーム名はオプションの前に指定する
+    await expect(renameTag(client, 'js', 'javascript', 'other-team', { dryRun: true })).rejects.toBeInstanceOf(EsaNotFoundError);
+  });
+
+  test('should rename a tag with a change message', async () => {
+    const entries = await renameTag(client, 'js', 'javascript', undefined, { message: 'Rename js tag' });
+
+    expect(entries.map(entry => [entry.number, entry.action, entry.after])).toEqual([
+      [1, 'update', ['javascript', 'api']],
+      [2, 'update', ['javascript']],
+    ]);
+    expect(server.getPost(1)!.tags).toEqual(['javascript', 'api']);
+    expect(server.getRevisions(2)[1].message).toBe('Rename js tag');
+    // 大文字小文字が違うタグは別のタグとして扱う
+    expect(server.getPost(4)!.tags).toEqual(['JS']);
+  });
+
+  test('should merge and remove tags', async () => {
+    const merged = await mergeTags(client, ['js', 'JS', 'javascript'], 'javascript');
+
+    expect(merged.map(entry => entry.number)).toEqual([1, 2, 4]);
+    expect(server.getPost(2)!.tags).toEqual(['javascript']);
+    expect(server.getPost(4)!.tags).toEqual(['javascript']);
+
+    const removed = await removeTag(client, 'javascript');
+
+    expect(removed.map(entry => entry.action)).toEqual(['update', 'update', 'update']);
+    expect(server.getPost(1)!.tags).toEqual(['api']);
+    expect(server.getPost(4)!.tags).toEqual([]);
+  });
+
+  test('should search for tags that need quoting', async () => {
+    server.addPost({ name: 'Review', tags: ['design review'] });
+    server.addPost({ name: 'Design', tags: ['design', 'review'] });
+    server.addPost({ name: 'Old', tags: ['-legacy'] });
+    server.addPost({ name: 'Current', tags: ['legacy'] });
+
+    const renamed = await renameTag(client, 'design review', 'design-review');
+    const removed = await removeTag(client, '-legacy');
+
+    expect(renamed.map(entry => entry.number)).toEqual([5]);
+    expect(removed.map(entry => entry.number)).toEqual([7]);
+    expect(server.getPost(6)!.tags).toEqual(['design', 'review']);
+    expect(server.getPost(8)!.tags).toEqual(['legacy']);
+  });
+
+  test('should stop the run on errors that concern every post', async () => {
+    const progressFile = path.join(dir, 'progress.jsonl');
+    const fetch = jest.fn(server.fetch);
+    client = new EsaClient({ token: 'token', teamName: 'test-team', fetch });
+    // 2件目の更新でトークンが無効になる
+    fetch.mockImplementation(async (url, init) => {
+      if (init?.method?.toUpperCase() === 'PATCH' && String(url).endsWith('/posts/2')) {
+        return new Response(JSON.stringify({ error: 'unauthorized', message: 'Unauthorized' }), { status: 401 });
+      }
+      return server.fetch(url, init);
+    });
+    server.addPost({ name: 'Later', tags: ['js'] });
+
+    const error = await renameTag(client, 'js', 'javascript', undefined, { concurrency: 1, progressFile }).catch(e => e);
+
+    expect(error).toBeInstanceOf(EsaUnauthorizedError);
+    expect(server.getPost(1)!.tags).toEqual(['javascript', 'api']);
+    expect(server.getPost(5)!.tags).toEqual(['js']);
+    expect((await fs.readFile(progressFile, 'utf8')).trim().split('\n')).toHaveLength(2);
+
+    // 1件目の更新が終わったところで中断する
+    const controller = new AbortController();
+    client = new EsaClient({
+      token: 'token',
+      teamName: 'test-team',
+      fetch: async (url, init) => {
+        const response = await server.fetch(url, init);
+        if (init.method?.toUpperCase() === 'PATCH') {
+          controller.abort();
+        }
+        return response;
+      },
+    });
+
+    const aborted = await removeTag(client, 'js', undefined, { concurrency: 1, signal: controller.signal }).catch(e => e);
+
+    expect(aborted).toBeInstanceOf(EsaAbortError);
+    expect(server.getPost(2)!.tags).toEqual(['javascript']);
+    expect(server.getPost(5)!.tags).toEqual(['js']);
+  });
+
+  test('should limit the number of concurrent updates', async () => {
+    for (let i = 0; i < 6; i++) {
+      server.addPost({ name: `Note ${i}`, tags: ['js'] });
+    }
+    let running = 0;
+    let maxRunning = 0;
+    const fetch = jest.fn(async (url: string, init: RequestInit) => {
+      if (init.method?.toUpperCase() !== 'PATCH') {
+        return server.fetch(url, init);
+      }
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return server.fetch(url, init);
+    });
+    client = new EsaClient({ token: 'token', teamName: 'test-team', fetch });
+
+    const entries = await renameTag(client, 'js', 'javascript', undefined, { concurrency: 2 });
+
+    expect(entries).toHaveLength(8);
+    expect(maxRunning).toBe(2);
+  });
+
+  test('should resume from the progress log and retry failed posts', async () => {
+    const progressFile = path.join(dir, 'logs', 'progress.jsonl');
+    const fetch = jest.fn(server.fetch);
+    client = new EsaClient({ token: 'token', teamName: 'test-team', fetch });
+    // 記事 #2 の更新だけ失敗させる
+    fetch.mockImplementation(async (url, init) => {
+      if (init?.method?.toUpperCase() === 'PATCH' && String(url).endsWith('/posts/2')) {
+        return new Response(JSON.stringify({ error: 'not_found', message: 'Not found' }), { status: 404 });
+      }
+      return server.fetch(url, init);
+    });
+
+    const first = await renameTag(client, 'js', 'javascript', undefined, { progressFile });
+
+    expect(first.map(entry => entry.action)).toEqual(['update', 'failed']);
+    expect(first[1].reason).toContain('Not found');
+
+    client = new EsaClient({ token: 'token', teamName: 'test-team', fetch: server.fetch });
+    // 前回の実行後に追加された記事も対象になる
+    server.addPost({ name: 'Added', tags: ['js'] });
+
+    const second = await renameTag(client, 'js', 'javascript', undefined, { progressFile });
+
+    expect(second.map(entry => [entry.number, entry.action])).toEqual([[2, 'update'], [5, 'update']]);
+    const log = (await fs.readFile(progressFile, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+    expect(log).toEqual([
+      { operation: 'rename', from: ['js'], to: 'javascript' },
+      { number: 1, action: 'update' },
+      { number: 2, action: 'update' },
+      { number: 5, action: 'update' },
+    ]);
+
+    await expect(removeTag(client, 'api', undefined, { progressFile })).rejects.toThrow('records a different tag operation');
+  });
+
+  test('should mark posts found in the progress log as skipped', async () => {
+    const progressFile = path.join(dir, 'progress.jsonl');
+    await fs.writeFile(progressFile, [
+      JSON.stringify({ operation: 'rename', from: ['js'], to: 'javascript' }),
+      JSON.stringify({ number: 1, action: 'update' }),
+      '{"number": 2, "act',
+    ].join('\n'));
+
+    const entries = await renameTag(client, 'js', 'javascript', undefined, { progressFile });
+
+    expect(entries.map(entry => [entry.number, entry.action])).toEqual([[1, 'skipped'], [2, 'update']]);
+    expect(server.getPost(1)!.tags).toEqual(['js', 'api']);
+    // 途中で切れた行の後にも記録が残る
+    expect((await fs.readFile(progressFile, 'utf8')).split('\n').slice(-2)).toEqual(['{"number":2,"action":"update"}', '']);
+  });
+});
@@ -0,0 +1,111 @@
+import { EsaClient } from '../esa-client';
+import { FakeEsaServer } from '../fake-server';
+import { findTask, parseTasks, setTaskDone } from '../tasks';
+import { EsaTaskNotFoundError } from '../errors';
+
+const body = [
+  '# 定例ミーティング',
+  '',
+  '- [ ] 議事録を共有する @alice',
+  '  - [x] 下書きを書く',
+  '  - 補足',
+  '    * [ ] レビューを依頼する @bob @carol',
+  '1. [X] 日程を決める',
+  '',
+  '```',
+  '- [ ] コードブロック内は無視',
+  '```',
+  '- [ ]',
+].join('\n');
+
+describe('parseTasks', () => {
+  test('should extract tasks with line numbers, nesting and mentions', () => {
+    expect(parseTasks(body)).toEqual([
+      { index: 0, line: 3, depth: 0, parent: null, done: false, text: '議事録を共有する @alice', mentions: ['alice'] },
+      { index: 1, line: 4, depth: 1, parent: 0, done: true, text: '下書きを書く', mentions: [] },
+      { index: 2, line: 6, depth: 2, parent: 0, done: false, text: 'レビューを依頼する @bob @carol', mentions: ['bob', 'carol'] },
+      { index: 3, line: 7, depth: 0, parent: null, done: true, text: '日程を決める', mentions: [] },
+      { index: 4, line: 12, depth: 0, parent: null, done: false, text: '', mentions: [] },
+    ]);
+    // メールアドレスはメンションではない
+    expect(parseTasks('- [ ] mail user@example.com')[0].mentions).toEqual([]);
+  });
+
+  test('should rewrite only the line of the task', () => {
+    const crlf = body.split('\n').join('\r\n');
+    const tasks = parseTasks(crlf);
+
+    const checked = setTaskDone(crlf, findTask(tasks, 'レビュー')!, true);
+    expect(checked.split('\r\n')[5]).toBe('    * [x] レビューを依頼する @bob @carol');
+    expect(setTaskDone(checked, findTask(parseTasks(checked), /レビュー/)!, false)).toBe(crlf);
+
+    expect(findTask(tasks, 3)!.text).toBe('日程を決める');
+    expect(findTask(tasks, task => task.mentions.includes('alice'))!.index).toBe(0);
+    expect(findTask(tasks, 'missing')).toBeUndefined();
+  });
+
+  test('should find the same task with a global or sticky pattern every time', () => {
+    const tasks = parseTasks(body);
+
+    for (const pattern of [/@bob/g, /.*@bob/y]) {
+      expect(findTask(tasks, pattern)!.index).toBe(2);
+      expect(findTask(tasks, pattern)!.index).toBe(2);
+      expect(pattern.lastIndex).toBe(0);
+    }
+  });
+});
+
+describe('togglePostTask', () => {
+  let server: FakeEsaServer;
+  let client: EsaClient;
+
+  beforeEach(() => {
+    server = new FakeEsaServer();
+    server.addPost({ name: 'Meeting', body_md: body });
+    client = new EsaClient({ token: 'token', teamName: 'test-team', fetch: server.fetch });
+  });
+
+  test('should check a task with original_revision protection', async () => {
+    const post = await client.togglePostTask(1, '議事録', true);
+
+    expect(post.body_md).toBe(body.replace('- [ ] 議事録', '- [x] 議事録'));
+    expect(post.message).toBe('Check task: 議事録を共有する @alice');
+    expect(post.done_tasks_count).toBe(3);
+    expect(server.getRevisions(1)).toHaveLength(2);
+
+    // すでにその状態なら更新しない
+    await client.togglePostTask(1, 0, true);
+    expect(server.getRevisions(1)).toHaveLength(2);
+
+    await client.togglePostTask(1, 0, false, undefined, { message: 'やり直し' });
+    expect(server.getPost(1)!.body_md).toBe(body);
+    expect(server.getRevisions(1)[2].message).toBe('やり直し');
+  });
+
+  test('should keep concurrent edits to other lines', async () => {
+    const fetch = jest.fn(server.fetch);
+    client = new EsaClient({ token: 'token', teamName: 'test-team', fetch });
+    server.addMember({ screen_name: 'alice' }, 'alice-token');
+    const alice = new EsaClient({ token: 'alice-token', teamName: 'test-team', fetch: server.fetch });
+    // 記事を取得した直後に別のメンバーが見出しを書き換える
+    fetch.mockImplementationOnce(async (url, init) => {
+      const response = await server.fetch(url, init);
+      await alice.updatePost(1, { body_md: body.replace('定例ミーティング', '定例ミーティング (1/15)') });
+      return response;
+    });
+
+    const post = await client.togglePostTask(1, 'レビュー', true);
+
+    expect(post.overlapped).toBe(false);
+    expect(post.body_md).toContain('# 定例ミーティング (1/15)');
+    expect(post.body_md).toContain('* [x] レビューを依頼する');
+  });
+
+  test('should throw when no task matches', async () => {
+    const error = await client.togglePostTask(1, /存在しない/, true).catch(e => e);
+
+    expect(error).toBeInstanceOf(EsaTaskNotFoundError);
+    expect(error.message).toBe('Post #1 has no task matching /存在しない/');
+    expect(server.getRevisions(1)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,70 @@
+import { EsaClient } from '../esa-client';
+import { FakeEsaServer } from '../fake-server';
+import { dateVariables, expandTemplate, expandTemplatePost } from '../template';
+
+// 東京では 2025-01-01 00:30:05(水)、UTC では 2024-12-31 15:30:05(火)
+const now = new Date('2024-12-31T15:30:05Z');
+
+describe('expandTemplate', () => {
+  test('should expand date placeholders in the time zone', () => {
+    expect(dateVariables(now)).toEqual({
+      Year: '2025', year: '25', month: '01', day: '01', Hour: '00', min: '30', sec: '05', week_day: '水', cweek: '01',
+    });
+    expect(dateVariables(now, 'UTC')).toMatchObject({ Year: '2024', month: '12', day: '31', Hour: '15', week_day: '火', cweek: '01' });
+    expect(dateVariables(new Date('2021-01-03T12:00:00Z'), 'UTC').cweek).toBe('53');
+  });
+
+  test('should expand the current user and custom variables', () => {
+    const text = '日報/%{Year}/%{month}/%{day} by %{me} for %{project} (%{unknown})';
+
+    expect(expandTemplate(text, { now, me: 'alice', variables: { project: 'api' } }))
+      .toBe('日報/2025/01/01 by alice for api (%{unknown})');
+    // 未指定の %{me} はそのまま残す
+    expect(expandTemplate('%{me} %{Year}', { now, timeZone: 'UTC' })).toBe('%{me} 2024');
+    expect(expandTemplate('%{Year}', { now, variables: { Year: 'custom' } })).toBe('custom');
+  });
+
+  test('should expand a template post outside the templates category', () => {
+    const template = {
+      name: '%{Year}-%{month}-%{day} の作業',
+      category: 'templates/日報/%{Year}/%{month}',
+      tags: ['daily', '%{me}'],
+      body_md: '# %{me} の日報',
+    };
+
+    expect(expandTemplatePost(template, { now, me: 'alice' })).toEqual({
+      name: '2025-01-01 の作業',
+      category: '日報/2025/01',
+      tags: ['daily', 'alice'],
+      body_md: '# alice の日報',
+      wip: true,
+    });
+    expect(expandTemplatePost({ ...template, category: 'templates' }, { now })).not.toHaveProperty('category');
+  });
+});
+
+describe('createPostFromTemplate', () => {
+  test('should fetch, expand and create the post', async () => {
+    const server = new FakeEsaServer({ ownerScreenName: 'owner' });
+    const template = server.addPost({
+      name: '%{month}-%{day} 定例',
+      category: 'templates/議事録/%{Year}',
+      tags: ['meeting'],
+      body_md: '- [ ] 議題 (%{me}, %{team})',
+    });
+    const client = new EsaClient({ token: 'token', teamName: 'test-team', fetch: server.fetch });
+
+    const post = await client.createPostFromTemplate(template.number, undefined, {
+      now,
+      variables: { team: 'platform' },
+      params: { wip: false, message: 'Create from template' },
+    });
+
+    expect(post).toMatchObject({
+      full_name: '議事録/2025/01-01 定例 #meeting',
+      body_md: '- [ ] 議題 (owner, platform)',
+      wip: false,
+      message: 'Create from template',
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { EsaClient } from '../esa-client';
+import { EsaAbortError, EsaTimeoutError } from '../errors';
+
+// signal が中断されるまで応答しない fetch のモック
+function hangingFetch() {
+  return jest.fn((_url: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+    init.signal?.addEventListener('abort', () => {
+      const error = new Error('This operation was aborted');
+      error.name = 'AbortError';
+      reject(error);
+    });
+  }));
+}
+
+describe('EsaClient timeouts and cancellation', () => {
+  let errorSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    errorSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  test('should throw EsaTimeoutError when the default timeout elapses', async () => {
+    const fetch = hangingFetch();
+    const client = new EsaClient({ token: 'test-token', teamName: 'test-team', fetch, timeoutMs: 10, retry: false });
+
+    await expect(client.getTeam()).rejects.toBeInstanceOf(EsaTimeoutError);
+  });
+
+  test('should accept a per-call timeout', async () => {
+    const fetch = hangingFetch();
+    const client = new EsaClient({ token: 'test-token', teamName: 'test-team', fetch, retry: false });
+
+    await expect(client.getPost(1, undefined, undefined, { timeoutMs: 10 }))
+      .rejects.toBeInstanceOf(EsaTimeoutError);
+  });
+
+  test('should throw EsaAbortError when the signal aborts the request', async () => {
+    const fetch = hangingFetch();
+    const client = new EsaClient({ token: 'test-token', teamName: 'test-team', fetch });
+    const controller = new AbortController();
+
+    const promise = client.getTeam(undefined, { signal: controller.signal });
+    setTimeout(() => controller.abort(new Error('cancelled')), 10);
+
+    await expect(promise).rejects.toBeInstanceOf(EsaAbortError);
+    await expect(promise).rejects.toMatchObject({ reason: expect.objectContaining({ message: 'cancelled' }) });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('should not call fetch when the signal is already aborted', async () => {
+    const fetch = jest.fn();
+    const client = new EsaClient({ token: 'test-token', teamName: 'test-team', fetch });
+
+    await expect(client.getTeam(undefined, { signal: AbortSignal.abort() }))
+      .rejects.toBeInstanceOf(EsaAbortError);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  test('should cancel the wait before a rate limit retry', async () => {
+    const fetch = jest.fn().mockResolvedValue({
+      ok: false,
+      status: 429,
+      json: jest.fn().mockResolvedValue({ error: 'too_many_requests', message: 'Rate limit exceeded' }),
+      headers: new Headers({ 'retry-after': '60' })
+    });
+    const client = new EsaClient({ token: 'test-token', teamName: 'test-team', fetch });
+    const controller = new AbortController();
+
+    const promise = client.getTeam(undefined, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(promise).rejects.toBeInstanceOf(EsaAbortError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('should pass the signal through pagination', async () => {
+    const fetch = hangingFetch();
+    const client = new EsaClient({ token: 'test-token', teamName: 'test-team', fetch });
+    const controller = new AbortController();
+
+    const iterate = async () => {
+      for await (const _ of client.iteratePosts({ signal: controller.signal })) {
+        // 中断されるまで待つ
+      }
+    };
+    const promise = iterate();
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(EsaAbortError);
+  });
+});
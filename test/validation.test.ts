@@ -0,0 +1,133 @@
+import { EsaClient } from '../esa-client';
+import { FakeEsaServer } from '../fake-server';
+import { EsaResponseValidationError } from '../errors';
+import { Logger } from '../logger';
+import { postSchema, validateResponse } from '../validation';
+
+function jsonResponse(data: any) {
+  return {
+    ok: true,
+    status: 200,
+    json: jest.fn().mockResolvedValue(data),
+    headers: new Headers(),
+  };
+}
+
+function createLogger(): jest.Mocked<Logger> {
+  return { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+}
+
+const user = { myself: true, name: 'Owner', screen_name: 'owner', icon: 'https://example.com/icon.png' };
+
+const post = {
+  number: 1,
+  name: 'Memo',
+  full_name: 'dev/Memo',
+  wip: false,
+  body_md: 'hello',
+  body_html: '<p>hello</p>',
+  created_at: '2024-01-01T00:00:00+09:00',
+  message: 'Create post.',
+  url: 'https://test-team.esa.io/posts/1',
+  updated_at: '2024-01-01T00:00:00+09:00',
+  tags: ['a'],
+  category: 'dev',
+  revision_number: 1,
+  created_by: user,
+  updated_by: user,
+};
+
+describe('validateResponse', () => {
+  test('should accept responses matching the schema, including unknown fields', () => {
+    expect(postSchema.check({ ...post, category: null, sharing_urls: null }, '$')).toEqual([]);
+    expect(validateResponse('get', '/teams/:team_name/posts/1', post)).toEqual([]);
+    // レスポンスのない API は検証しない
+    expect(validateResponse('delete', '/teams/:team_name/posts/1', null)).toEqual([]);
+  });
+
+  test('should report the JSON path of each mismatch', () => {
+    const { created_by, ...withoutAuthor } = post;
+    const data = {
+      posts: [post, { ...withoutAuthor, category: 3, tags: ['a', null], kind: 'other' }],
+      prev_page: null,
+      next_page: null,
+      total_count: '2',
+      page: 1,
+      per_page: 20,
+      max_per_page: 100,
+    };
+
+    expect(validateResponse('GET', '/teams/test-team/posts', data)).toEqual([
+      { path: '$.total_count', message: 'expected number but got string' },
+      { path: '$.posts[1].tags[1]', message: 'expected string but got null' },
+      { path: '$.posts[1].category', message: 'expected string | null but got number' },
+      { path: '$.posts[1].created_by', message: 'missing required object' },
+      { path: '$.posts[1].kind', message: 'expected "stock" | "flow" but got "other"' },
+    ]);
+    expect(validateResponse('get', '/teams/:team_name/stats', [])).toEqual([
+      { path: '$', message: 'expected object but got array' },
+    ]);
+  });
+});
+
+describe('EsaClient validation', () => {
+  const broken = { ...post, number: '1' };
+
+  test('should throw in strict mode with the endpoint and issues', async () => {
+    const fetch = jest.fn().mockResolvedValue(jsonResponse(broken));
+    const client = new EsaClient({ token: 'token', teamName: 'test-team', fetch, validation: 'strict' });
+
+    const error = await client.getPost(1).catch(e => e);
+
+    expect(error).toBeInstanceOf(EsaResponseValidationError);
+    expect(error.method).toBe('get');
+    expect(error.path).toBe('/teams/:team_name/posts/1');
+    expect(error.issues).toEqual([{ path: '$.number', message: 'expected number but got string' }]);
+    expect(error.message).toBe(
+      'Response from GET /teams/:team_name/posts/1 does not match the expected schema\n  $.number: expected number but got string'
+    );
+  });
+
+  test('should log a warning and return the response in warn mode', async () => {
+    const fetch = jest.fn().mockResolvedValue(jsonResponse(broken));
+    const logger = createLogger();
+    const client = new EsaClient({ token: 'token', teamName: 'test-team', fetch, logger, validation: 'warn' });
+
+    expect(await client.getPost(1)).toEqual(broken);
+    expect(logger.warn).toHaveBeenCalledWith('ESA API response does not match the expected schema', {
+      method: 'GET',
+      path: '/teams/:team_name/posts/1',
+      issues: ['$.number: expected number but got string'],
+    });
+  });
+
+  test('should not validate by default', async () => {
+    const fetch = jest.fn().mockResolvedValue(jsonResponse(broken));
+    const logger = createLogger();
+    const client = new EsaClient({ token: 'token', teamName: 'test-team', fetch, logger });
+
+    expect(await client.getPost(1)).toEqual(broken);
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+
+  test('should accept every response of the fake server in strict mode', async () => {
+    const server = new FakeEsaServer();
+    server.addMember({ screen_name: 'alice' });
+    const client = new EsaClient({ token: 'token', teamName: 'test-team', fetch: server.fetch, validation: 'strict' });
+
+    const created = await client.createPost({ name: 'Memo', category: 'dev', tags: ['a'] });
+    await client.updatePost(created.number, { body_md: 'updated' });
+    const comment = await client.createComment(created.number, { body_md: 'hi' });
+    await client.getPost(created.number);
+    await client.getPosts({ q: 'tag:a' });
+    await client.getComment(comment.id);
+    await client.getPostComments(created.number);
+    await client.getAllComments();
+    await client.getMembers();
+    await client.getMember('alice');
+    await client.getTags();
+    await client.getTeam();
+    await client.getTeamStats();
+    await client.batchMoveCategory({ from: '/dev/', to: '/docs/' });
+  });
+});
@@ -0,0 +1,156 @@
+import { createServer, request, Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  EsaWebhookHandler, EsaWebhookPayloads, computeEsaSignature, createNodeWebhookListener, verifyEsaSignature
+} from '../webhook';
+import { EsaWebhookPayloadError, EsaWebhookSignatureError } from '../errors';
+
+const secret = 'webhook-secret';
+
+const user = { name: 'Owner', screen_name: 'owner', icon: { url: 'https://example.com/icon.png' } };
+
+const postCreate: EsaWebhookPayloads['post_create'] = {
+  kind: 'post_create',
+  team: { name: 'test-team' },
+  post: {
+    name: '日報',
+    body_md: '# 今日の作業',
+    body_html: '<h1>今日の作業</h1>',
+    message: 'Create post.',
+    wip: false,
+    number: 1,
+    url: 'https://test-team.esa.io/posts/1',
+  },
+  user,
+};
+
+describe('webhook signatures', () => {
+  test('should verify HMAC-SHA256 signatures', () => {
+    const body = JSON.stringify(postCreate);
+    const signature = computeEsaSignature(body, secret);
+
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(verifyEsaSignature(body, signature, secret)).toBe(true);
+    expect(verifyEsaSignature(Buffer.from(body), signature, secret)).toBe(true);
+    expect(verifyEsaSignature(`${body} `, signature, secret)).toBe(false);
+    expect(verifyEsaSignature(body, signature, 'other-secret')).toBe(false);
+    expect(verifyEsaSignature(body, 'sha256=short', secret)).toBe(false);
+    expect(verifyEsaSignature(body, undefined, secret)).toBe(false);
+  });
+});
+
+describe('EsaWebhookHandler', () => {
+  test('should call the listeners of the delivered event', async () => {
+    const handler = new EsaWebhookHandler({ secret });
+    const created: string[] = [];
+    const comments = jest.fn();
+    handler.on('post_create', payload => {
+      created.push(payload.post.name);
+    });
+    const off = handler.on('post_create', async payload => {
+      created.push(`#${payload.post.number}`);
+    });
+    handler.on('comment_create', comments);
+
+    const body = JSON.stringify(postCreate);
+    const payload = await handler.handle({ body, signature: computeEsaSignature(body, secret) });
+
+    expect(payload).toEqual(postCreate);
+    expect(created).toEqual(['日報', '#1']);
+    expect(comments).not.toHaveBeenCalled();
+
+    off();
+    await handler.handle({ body, signature: computeEsaSignature(body, secret) });
+    expect(created).toEqual(['日報', '#1', '日報']);
+
+    // 未知のイベントは無視する
+    const unknown = JSON.stringify({ kind: 'post_star', team: { name: 'test-team' }, user });
+    await expect(handler.handle({ body: unknown, signature: computeEsaSignature(unknown, secret) }))
+      .resolves.toMatchObject({ kind: 'post_star' });
+  });
+
+  test('should reject unsigned and malformed deliveries', async () => {
+    const handler = new EsaWebhookHandler({ secret });
+    const listener = jest.fn();
+    handler.on('post_create', listener);
+    const body = JSON.stringify(postCreate);
+
+    await expect(handler.handle({ body })).rejects.toThrow('The X-Esa-Signature header is missing');
+    await expect(handler.handle({ body, signature: computeEsaSignature(body, 'wrong') }))
+      .rejects.toBeInstanceOf(EsaWebhookSignatureError);
+    await expect(handler.handle({ body: '{', signature: computeEsaSignature('{', secret) }))
+      .rejects.toBeInstanceOf(EsaWebhookPayloadError);
+    await expect(handler.handle({ body: '[]', signature: computeEsaSignature('[]', secret) }))
+      .rejects.toThrow('The webhook body has no kind');
+    expect(listener).not.toHaveBeenCalled();
+
+    // シークレットを設定しなければ署名は検証しない
+    await expect(new EsaWebhookHandler().handle({ body })).resolves.toEqual(postCreate);
+  });
+});
+
+describe('createNodeWebhookListener', () => {
+  let server: Server;
+  let url: string;
+  let handler: EsaWebhookHandler;
+
+  beforeEach(async () => {
+    handler = new EsaWebhookHandler({ secret });
+    server = createServer(createNodeWebhookListener(handler, { maxBodyBytes: 4096 }));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhook`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const post = (body: string, signature?: string) => fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(signature ? { 'X-Esa-Signature': signature } : {}) },
+    body,
+  });
+
+  test('should respond with the outcome of the delivery', async () => {
+    const listener = jest.fn();
+    handler.on('post_create', listener);
+    const body = JSON.stringify(postCreate);
+
+    expect((await post(body, computeEsaSignature(body, secret))).status).toBe(204);
+    expect(listener).toHaveBeenCalledWith(postCreate);
+
+    const unsigned = await post(body);
+    expect(unsigned.status).toBe(401);
+    expect(await unsigned.json()).toEqual({ message: 'The X-Esa-Signature header is missing' });
+    expect((await post('{', computeEsaSignature('{', secret))).status).toBe(400);
+    expect((await post('x'.repeat(5000))).status).toBe(413);
+
+    const get = await fetch(url);
+    expect(get.status).toBe(405);
+    expect(get.headers.get('allow')).toBe('POST');
+
+    listener.mockRejectedValueOnce(new Error('boom'));
+    expect((await post(body, computeEsaSignature(body, secret))).status).toBe(500);
+  });
+
+  test('should settle when the client aborts in the middle of the body', async () => {
+    const listen = createNodeWebhookListener(handler);
+    let settled!: Promise<void>;
+    const arrived = new Promise<void>(resolve => {
+      server.removeAllListeners('request');
+      server.on('request', (req, res) => {
+        settled = listen(req, res);
+        resolve();
+      });
+    });
+
+    const client = request(url, { method: 'POST', headers: { 'Content-Length': '1000' } });
+    client.on('error', () => {});
+    client.write('{"kind":');
+    await arrived;
+    // 本文の途中で接続を切る
+    client.destroy();
+
+    await expect(settled).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,11 @@
+// Test helpers, published as 'esa-api-client/testing' so the main entry does not load them
+
+// Export fake server for tests
+export { FakeEsaServer } from './fake-server.js';
+export type { FakeEsaServerOptions, FakeMemberParams, FakePostRevision, FakeOAuthApplication } from './fake-server.js';
+
+// Export fixture recording and replay
+export { FixtureTransport } from './fixtures.js';
+export type {
+  FixtureMode, FixtureTransportOptions, FixtureFile, FixtureEntry, RecordedRequest, RecordedResponse
+} from './fixtures.js';
@@ -2,6 +2,8 @@
  * ESA API Types
  */
 
+import type { EsaQuery } from './query.js';
+
 // Pagination response
 export interface PaginationResponse {
   prev_page: number | null;
@@ -234,7 +236,8 @@ export interface AuthenticatedUser {
 // Request parameters
 
 export interface PostsRequestParams {
-  q?: string;
+  /** Search query, either raw esa search syntax or an EsaQuery */
+  q?: string | EsaQuery;
   include?: string;
   sort?: 'updated' | 'created' | 'number' | 'stars' | 'watches' | 'comments' | 'best_match';
   order?: 'desc' | 'asc';
@@ -253,6 +256,14 @@ export interface CreatePostParams {
   template_post_id?: number;
 }
 
+/**
+ * Shortcut for setting name, category, tags and wip from a full name
+ * such as dev/infra/Runbook #ops (WIP)
+ */
+export interface FullNameParam {
+  fullName: string;
+}
+
 export interface UpdatePostParams {
   name?: string;
   body_md?: string;
@@ -0,0 +1,376 @@
+import type {
+  User, Team, TeamsResponse, TeamResponse, Stats, Member, MembersResponse,
+  Post, PostsResponse, Comment, CommentsResponse, Star, StargazersResponse, Watcher, WatchersResponse,
+  BatchMoveResponse, Tag, TagsResponse, InvitationUrlResponse, Invitation, InvitationsResponse,
+  CreateInvitationsResponse, Emoji, EmojisResponse, CreateEmojiResponse, PostItem, PostsSearchResult,
+  AuthenticatedUser
+} from './types.js';
+
+/**
+ * How the client treats responses that do not match their schema
+ * - strict: throw an EsaResponseValidationError
+ * - warn: log a warning and return the response as is
+ * - off: skip validation
+ */
+export type ValidationMode = 'strict' | 'warn' | 'off';
+
+/**
+ * A value that does not match its schema
+ */
+export interface SchemaIssue {
+  /** JSON path of the value, such as $.posts[0].category */
+  path: string;
+  /** What was expected and what was found */
+  message: string;
+}
+
+/**
+ * Runtime description of a type
+ *
+ * Object schemas ignore properties they do not declare, so fields added by esa
+ * do not fail validation.
+ */
+export interface Schema<T> {
+  /** Readable name of the expected type */
+  readonly description: string;
+  /** Collect the issues of a value, empty when it matches */
+  check(value: unknown, path: string): SchemaIssue[];
+  /** Carries T for type checking only; never set */
+  readonly _type?: T;
+}
+
+/**
+ * Describe the type of a value found in a response
+ */
+function describeValue(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+/**
+ * Build a schema for a primitive
+ */
+function primitive<T>(description: string, test: (value: unknown) => boolean): Schema<T> {
+  return {
+    description,
+    check: (value, path) =>
+      test(value) ? [] : [{ path, message: `expected ${description} but got ${describeValue(value)}` }],
+  };
+}
+
+export const string = (): Schema<string> => primitive('string', value => typeof value === 'string');
+export const number = (): Schema<number> => primitive('number', value => typeof value === 'number');
+export const boolean = (): Schema<boolean> => primitive('boolean', value => typeof value === 'boolean');
+
+/**
+ * Schema for one of a fixed set of strings
+ */
+export function literal<T extends string>(...values: T[]): Schema<T> {
+  return {
+    description: values.map(value => JSON.stringify(value)).join(' | '),
+    check: (value, path) => values.includes(value as T)
+      ? []
+      : [{ path, message: `expected ${values.map(v => JSON.stringify(v)).join(' | ')} but got ${JSON.stringify(value)}` }],
+  };
+}
+
+/**
+ * Schema that also accepts null
+ */
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    description: `${schema.description} | null`,
+    check: (value, path) => value === null
+      ? []
+      : schema.check(value, path).map(issue =>
+        issue.path === path ? { path, message: `expected ${schema.description} | null but got ${describeValue(value)}` } : issue
+      ),
+  };
+}
+
+/**
+ * Schema for a property that may be missing
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    description: `${schema.description} | undefined`,
+    check: (value, path) => (value === undefined ? [] : schema.check(value, path)),
+  };
+}
+
+/**
+ * Schema for an array whose items all match a schema
+ */
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    description: `${item.description}[]`,
+    check: (value, path) => Array.isArray(value)
+      ? value.flatMap((element, index) => item.check(element, `${path}[${index}]`))
+      : [{ path, message: `expected array but got ${describeValue(value)}` }],
+  };
+}
+
+/**
+ * Schema for an object; every property of T must be given a schema
+ */
+export function object<T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+  return {
+    description: 'object',
+    check: (value, path) => {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return [{ path, message: `expected object but got ${describeValue(value)}` }];
+      }
+      return Object.entries<Schema<unknown>>(shape).flatMap(([key, schema]) => {
+        const property = (value as Record<string, unknown>)[key];
+        const propertyPath = `${path}.${key}`;
+        if (property === undefined && !(key in value) && schema.check(undefined, propertyPath).length > 0) {
+          return [{ path: propertyPath, message: `missing required ${schema.description}` }];
+        }
+        return schema.check(property, propertyPath);
+      });
+    },
+  };
+}
+
+// Schemas for every response type in types.ts
+
+// Fields shared by paginated responses, spread into each of their schemas
+const pagination = {
+  prev_page: nullable(number()),
+  next_page: nullable(number()),
+  total_count: number(),
+  page: number(),
+  per_page: number(),
+  max_per_page: number(),
+};
+
+export const userSchema = object<User>({
+  myself: boolean(),
+  name: string(),
+  screen_name: string(),
+  icon: string(),
+  email: optional(string()),
+});
+
+export const teamSchema = object<Team>({
+  name: string(),
+  privacy: literal('closed', 'open'),
+  description: string(),
+  icon: string(),
+  url: string(),
+});
+
+export const teamsResponseSchema = object<TeamsResponse>({ ...pagination, teams: array(teamSchema) });
+export const teamResponseSchema: Schema<TeamResponse> = teamSchema;
+
+export const statsSchema = object<Stats>({
+  members: number(),
+  posts: number(),
+  posts_wip: number(),
+  posts_shipped: number(),
+  comments: number(),
+  stars: number(),
+  daily_active_users: number(),
+  weekly_active_users: number(),
+  monthly_active_users: number(),
+});
+
+export const memberSchema = object<Member>({
+  myself: boolean(),
+  name: string(),
+  screen_name: string(),
+  icon: string(),
+  email: optional(string()),
+  role: literal('owner', 'member'),
+  posts_count: number(),
+  joined_at: string(),
+  last_accessed_at: string(),
+});
+
+export const membersResponseSchema = object<MembersResponse>({ ...pagination, members: array(memberSchema) });
+
+export const postSchema = object<Post>({
+  number: number(),
+  name: string(),
+  full_name: string(),
+  wip: boolean(),
+  body_md: string(),
+  body_html: string(),
+  created_at: string(),
+  message: string(),
+  url: string(),
+  updated_at: string(),
+  tags: array(string()),
+  category: nullable(string()),
+  revision_number: number(),
+  created_by: userSchema,
+  updated_by: userSchema,
+  kind: optional(literal('stock', 'flow')),
+  comments_count: optional(number()),
+  tasks_count: optional(number()),
+  done_tasks_count: optional(number()),
+  stargazers_count: optional(number()),
+  watchers_count: optional(number()),
+  star: optional(boolean()),
+  watch: optional(boolean()),
+  overlapped: optional(boolean()),
+});
+
+export const postsResponseSchema = object<PostsResponse>({ ...pagination, posts: array(postSchema) });
+
+export const commentSchema = object<Comment>({
+  id: number(),
+  body_md: string(),
+  body_html: string(),
+  created_at: string(),
+  updated_at: string(),
+  url: string(),
+  created_by: userSchema,
+  stargazers_count: number(),
+  star: boolean(),
+});
+
+export const commentsResponseSchema = object<CommentsResponse>({ ...pagination, comments: array(commentSchema) });
+
+export const starSchema = object<Star>({
+  created_at: string(),
+  body: nullable(string()),
+  user: userSchema,
+});
+
+export const stargazersResponseSchema = object<StargazersResponse>({ ...pagination, stargazers: array(starSchema) });
+
+export const watcherSchema = object<Watcher>({
+  created_at: string(),
+  user: userSchema,
+});
+
+export const watchersResponseSchema = object<WatchersResponse>({ ...pagination, watchers: array(watcherSchema) });
+
+export const batchMoveResponseSchema = object<BatchMoveResponse>({
+  count: number(),
+  from: string(),
+  to: string(),
+});
+
+export const tagSchema = object<Tag>({
+  name: string(),
+  posts_count: number(),
+});
+
+export const tagsResponseSchema = object<TagsResponse>({ ...pagination, tags: array(tagSchema) });
+
+export const invitationUrlResponseSchema = object<InvitationUrlResponse>({
+  url: string(),
+});
+
+export const invitationSchema = object<Invitation>({
+  email: string(),
+  code: string(),
+  expires_at: string(),
+  url: string(),
+});
+
+export const invitationsResponseSchema = object<InvitationsResponse>({ ...pagination, invitations: array(invitationSchema) });
+
+export const createInvitationsResponseSchema = object<CreateInvitationsResponse>({
+  invitations: array(invitationSchema),
+});
+
+export const emojiSchema = object<Emoji>({
+  code: string(),
+  aliases: array(string()),
+  category: string(),
+  raw: nullable(string()),
+  url: string(),
+});
+
+export const emojisResponseSchema = object<EmojisResponse>({
+  emojis: array(emojiSchema),
+});
+
+export const createEmojiResponseSchema = object<CreateEmojiResponse>({
+  code: string(),
+});
+
+export const postItemSchema = object<PostItem>({
+  name: string(),
+  path: string(),
+  icon: optional(string()),
+  type: literal('post', 'search'),
+  wip: optional(boolean()),
+  query: optional(string()),
+  total: optional(number()),
+});
+
+export const postsSearchResultSchema = object<PostsSearchResult>({
+  posts: array(postItemSchema),
+});
+
+export const authenticatedUserSchema = object<AuthenticatedUser>({
+  id: number(),
+  name: string(),
+  screen_name: string(),
+  created_at: string(),
+  updated_at: string(),
+  icon: string(),
+  email: string(),
+  teams: optional(array(teamSchema)),
+});
+
+/**
+ * Response schema of every endpoint, keyed by method and path as the client builds them
+ */
+const RESPONSE_SCHEMAS: Array<[string, RegExp, Schema<unknown>]> = [
+  ['get', /^\/teams$/, teamsResponseSchema],
+  ['get', /^\/teams\/[^/]+$/, teamResponseSchema],
+  ['get', /^\/teams\/[^/]+\/stats$/, statsSchema],
+  ['get', /^\/teams\/[^/]+\/members$/, membersResponseSchema],
+  ['get', /^\/teams\/[^/]+\/members\/[^/]+$/, memberSchema],
+  ['get', /^\/teams\/[^/]+\/posts$/, postsResponseSchema],
+  ['get', /^\/teams\/[^/]+\/posts\/\d+$/, postSchema],
+  ['post', /^\/teams\/[^/]+\/posts$/, postSchema],
+  ['patch', /^\/teams\/[^/]+\/posts\/\d+$/, postSchema],
+  ['get', /^\/teams\/[^/]+\/posts\/\d+\/comments$/, commentsResponseSchema],
+  ['post', /^\/teams\/[^/]+\/posts\/\d+\/comments$/, commentSchema],
+  ['get', /^\/teams\/[^/]+\/comments$/, commentsResponseSchema],
+  ['get', /^\/teams\/[^/]+\/comments\/\d+$/, commentSchema],
+  ['patch', /^\/teams\/[^/]+\/comments\/\d+$/, commentSchema],
+  ['get', /^\/teams\/[^/]+\/(posts|comments)\/\d+\/stargazers$/, stargazersResponseSchema],
+  ['get', /^\/teams\/[^/]+\/posts\/\d+\/watchers$/, watchersResponseSchema],
+  ['post', /^\/teams\/[^/]+\/categories\/batch_move$/, batchMoveResponseSchema],
+  ['get', /^\/teams\/[^/]+\/tags$/, tagsResponseSchema],
+  ['get', /^\/teams\/[^/]+\/invitation$/, invitationUrlResponseSchema],
+  ['post', /^\/teams\/[^/]+\/invitation_regenerator$/, invitationUrlResponseSchema],
+  ['get', /^\/teams\/[^/]+\/invitations$/, invitationsResponseSchema],
+  ['post', /^\/teams\/[^/]+\/invitations$/, createInvitationsResponseSchema],
+  ['get', /^\/teams\/[^/]+\/emojis$/, emojisResponseSchema],
+  ['post', /^\/teams\/[^/]+\/emojis$/, createEmojiResponseSchema],
+  ['get', /^\/user$/, authenticatedUserSchema],
+];
+
+/**
+ * Find the response schema of an endpoint
+ * @param method HTTP method
+ * @param path API path
+ * @returns The schema, or undefined for endpoints without a response body
+ */
+export function responseSchemaFor(method: string, path: string): Schema<unknown> | undefined {
+  const route = RESPONSE_SCHEMAS.find(
+    ([routeMethod, pattern]) => routeMethod === method.toLowerCase() && pattern.test(path)
+  );
+  return route?.[2];
+}
+
+/**
+ * Validate a response against the schema of its endpoint
+ * @param method HTTP method
+ * @param path API path
+ * @param data Parsed response body
+ * @returns The issues found, empty when the response matches or the endpoint has no schema
+ */
+export function validateResponse(method: string, path: string, data: unknown): SchemaIssue[] {
+  return responseSchemaFor(method, path)?.check(data, '$') ?? [];
+}
@@ -0,0 +1,308 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Post, Comment, User, Team } from './types.js';
+import { EsaWebhookPayloadError, EsaWebhookSignatureError } from './errors.js';
+
+/**
+ * Icon of a user in a webhook payload, with its thumbnails
+ */
+export interface EsaWebhookIcon {
+  url: string;
+  thumb_s?: { url: string };
+  thumb_ms?: { url: string };
+  thumb_m?: { url: string };
+  thumb_l?: { url: string };
+}
+
+/**
+ * User who triggered an event, or the member who joined or left
+ */
+export interface EsaWebhookUser extends Pick<User, 'name' | 'screen_name'> {
+  icon: EsaWebhookIcon;
+}
+
+/**
+ * Post in a webhook payload
+ */
+export type EsaWebhookPost = Pick<Post, 'name' | 'body_md' | 'body_html' | 'message' | 'wip' | 'number' | 'url'>;
+
+/**
+ * Comment in a webhook payload
+ */
+export type EsaWebhookComment = Pick<Comment, 'id' | 'body_md' | 'body_html' | 'created_at' | 'updated_at' | 'url'>;
+
+/**
+ * Fields shared by every webhook payload
+ */
+export interface EsaWebhookBase<K extends string> {
+  kind: K;
+  team: Pick<Team, 'name'>;
+  /** User who triggered the event */
+  user: EsaWebhookUser;
+}
+
+export interface EsaPostWebhookPayload<K extends string> extends EsaWebhookBase<K> {
+  post: EsaWebhookPost;
+}
+
+export interface EsaCommentWebhookPayload<K extends string> extends EsaWebhookBase<K> {
+  post: EsaWebhookPost;
+  comment: EsaWebhookComment;
+}
+
+export interface EsaMemberWebhookPayload<K extends string> extends EsaWebhookBase<K> {
+  member: EsaWebhookUser;
+}
+
+/**
+ * Payload of every webhook event, keyed by kind
+ */
+export interface EsaWebhookPayloads {
+  post_create: EsaPostWebhookPayload<'post_create'>;
+  post_update: EsaPostWebhookPayload<'post_update'>;
+  post_archive: EsaPostWebhookPayload<'post_archive'>;
+  post_delete: EsaPostWebhookPayload<'post_delete'>;
+  post_restore: EsaPostWebhookPayload<'post_restore'>;
+  comment_create: EsaCommentWebhookPayload<'comment_create'>;
+  comment_update: EsaCommentWebhookPayload<'comment_update'>;
+  comment_delete: EsaCommentWebhookPayload<'comment_delete'>;
+  member_join: EsaMemberWebhookPayload<'member_join'>;
+  member_delete: EsaMemberWebhookPayload<'member_delete'>;
+}
+
+/**
+ * Kind of a webhook event
+ */
+export type EsaWebhookEventKind = keyof EsaWebhookPayloads;
+
+/**
+ * Payload of any webhook event; narrow it by checking kind
+ */
+export type EsaWebhookPayload = EsaWebhookPayloads[EsaWebhookEventKind];
+
+/**
+ * Function called for a webhook event
+ */
+export type EsaWebhookListener<K extends EsaWebhookEventKind> =
+  (payload: EsaWebhookPayloads[K]) => void | Promise<void>;
+
+/**
+ * Webhook delivery as received by any HTTP framework
+ */
+export interface EsaWebhookRequest {
+  /** Raw request body; it must not have been parsed and serialized again */
+  body: string | Uint8Array;
+  /** Value of the X-Esa-Signature header */
+  signature?: string | null;
+}
+
+/**
+ * Options for a webhook handler
+ */
+export interface EsaWebhookHandlerOptions {
+  /** Secret set on the webhook in esa; deliveries are not verified without it */
+  secret?: string;
+}
+
+/**
+ * Options for the Node http adapter
+ */
+export interface NodeWebhookListenerOptions {
+  /** Largest accepted body in bytes (defaults to 1 MiB) */
+  maxBodyBytes?: number;
+}
+
+/**
+ * Header carrying the signature of a delivery
+ */
+export const ESA_SIGNATURE_HEADER = 'X-Esa-Signature';
+
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Compute the X-Esa-Signature value of a body
+ * @param body Raw request body
+ * @param secret Secret set on the webhook
+ * @returns The signature, such as sha256=5f1a...
+ */
+export function computeEsaSignature(body: string | Uint8Array, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+/**
+ * Check the X-Esa-Signature header of a delivery in constant time
+ * @param body Raw request body
+ * @param signature Value of the X-Esa-Signature header
+ * @param secret Secret set on the webhook
+ * @returns Whether the signature matches the body
+ */
+export function verifyEsaSignature(
+  body: string | Uint8Array,
+  signature: string | null | undefined,
+  secret: string
+): boolean {
+  if (!signature) {
+    return false;
+  }
+  const expected = Buffer.from(computeEsaSignature(body, secret));
+  const actual = Buffer.from(signature.trim());
+  // timingSafeEqual throws on different lengths; the length of a signature is not secret
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Framework-agnostic receiver that verifies webhook deliveries and calls typed listeners
+ *
+ * ```typescript
+ * const webhooks = new EsaWebhookHandler({ secret: process.env.ESA_WEBHOOK_SECRET });
+ * webhooks.on('post_create', payload => console.log(payload.post.name));
+ * http.createServer(createNodeWebhookListener(webhooks)).listen(3000);
+ * ```
+ */
+export class EsaWebhookHandler {
+  private secret: string | undefined;
+  private listeners = new Map<EsaWebhookEventKind, Set<EsaWebhookListener<any>>>();
+
+  /**
+   * Create a new webhook handler
+   * @param options Verification options
+   */
+  constructor(options: EsaWebhookHandlerOptions = {}) {
+    this.secret = options.secret;
+  }
+
+  /**
+   * Listen for an event
+   * @param kind Kind of the event
+   * @param listener Function called with the payload
+   * @returns A function that removes the listener
+   */
+  public on<K extends EsaWebhookEventKind>(kind: K, listener: EsaWebhookListener<K>): () => void {
+    const listeners = this.listeners.get(kind) ?? new Set();
+    this.listeners.set(kind, listeners.add(listener));
+    return () => this.off(kind, listener);
+  }
+
+  /**
+   * Remove a listener
+   * @param kind Kind of the event
+   * @param listener The listener to remove
+   */
+  public off<K extends EsaWebhookEventKind>(kind: K, listener: EsaWebhookListener<K>): void {
+    this.listeners.get(kind)?.delete(listener);
+  }
+
+  /**
+   * Verify a delivery and call the listeners of its event one after another
+   *
+   * Events without listeners, including kinds esa adds later, are accepted and ignored.
+   * @param request Raw body and signature of the delivery
+   * @returns The parsed payload
+   * @throws EsaWebhookSignatureError when a secret is set and the signature does not match
+   * @throws EsaWebhookPayloadError when the body is not a webhook payload
+   */
+  public async handle(request: EsaWebhookRequest): Promise<EsaWebhookPayload> {
+    if (this.secret !== undefined && !verifyEsaSignature(request.body, request.signature, this.secret)) {
+      throw new EsaWebhookSignatureError(
+        request.signature ? 'The webhook signature does not match' : `The ${ESA_SIGNATURE_HEADER} header is missing`
+      );
+    }
+
+    let payload: EsaWebhookPayload;
+    try {
+      const text = typeof request.body === 'string' ? request.body : Buffer.from(request.body).toString('utf8');
+      payload = JSON.parse(text);
+    } catch (error) {
+      throw new EsaWebhookPayloadError('The webhook body is not valid JSON', error);
+    }
+    if (!payload || typeof payload !== 'object' || typeof payload.kind !== 'string') {
+      throw new EsaWebhookPayloadError('The webhook body has no kind');
+    }
+
+    for (const listener of [...(this.listeners.get(payload.kind) ?? [])]) {
+      await listener(payload);
+    }
+    return payload;
+  }
+}
+
+/**
+ * Read a request body, giving up once it grows past a limit
+ * @returns The body, or undefined when it is too large
+ */
+async function readBody(request: IncomingMessage, maxBytes: number): Promise<Buffer | undefined> {
+  // Frameworks such as Express with express.raw() have already consumed the stream
+  const parsed = (request as IncomingMessage & { body?: unknown }).body;
+  if (typeof parsed === 'string' || Buffer.isBuffer(parsed)) {
+    return Buffer.from(parsed);
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length;
+    if (size > maxBytes) {
+      return undefined;
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Adapt a webhook handler to a listener for Node's http.createServer
+ *
+ * Responds 204 after the listeners finish, 401 for a bad signature, 400 for a bad
+ * payload or a body that could not be read, 405 for methods other than POST, 413 for
+ * oversized bodies and 500 when a listener throws. The returned promise never rejects.
+ * @param handler The webhook handler
+ * @param options Body size limit
+ */
+export function createNodeWebhookListener(
+  handler: EsaWebhookHandler,
+  options: NodeWebhookListenerOptions = {}
+): (request: IncomingMessage, response: ServerResponse) => Promise<void> {
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+
+  return async (request, response) => {
+    const respond = (status: number, message?: string) => {
+      if (message === undefined) {
+        response.writeHead(status).end();
+      } else {
+        response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' }).end(JSON.stringify({ message }));
+      }
+    };
+
+    if (request.method !== 'POST') {
+      response.setHeader('Allow', 'POST');
+      respond(405, 'Method not allowed');
+      return;
+    }
+    let body: Buffer | undefined;
+    try {
+      body = await readBody(request, maxBodyBytes);
+    } catch {
+      // The client went away or the stream broke before the whole body arrived
+      respond(400, 'Could not read the request body');
+      return;
+    }
+    if (!body) {
+      respond(413, 'Payload too large');
+      return;
+    }
+
+    try {
+      const signature = request.headers[ESA_SIGNATURE_HEADER.toLowerCase()];
+      await handler.handle({ body, signature: Array.isArray(signature) ? signature[0] : signature });
+      respond(204);
+    } catch (error) {
+      if (error instanceof EsaWebhookSignatureError) {
+        respond(401, error.message);
+      } else if (error instanceof EsaWebhookPayloadError) {
+        respond(400, error.message);
+      } else {
+        respond(500, 'Webhook listener failed');
+      }
+    }
+  };
+}